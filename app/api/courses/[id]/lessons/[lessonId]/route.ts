@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { logServerError, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { getCourse, removeLessonFromCourse } from "@/lib/courses";
+
+/**
+ * DELETE /api/courses/[id]/lessons/[lessonId]
+ * Removes a lesson from the course without deleting the lesson
+ */
+export const DELETE = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lessonId: string }> }
+) => {
+  return withSpan("api.courses.lessons.delete", "http.server", async () => {
+    try {
+      const { id, lessonId } = await params;
+
+      const course = await getCourse(id);
+      if (!course) {
+        return NextResponse.json({ error: "Course not found" }, { status: 404 });
+      }
+      if (!course.lessons.some(lesson => lesson.id === lessonId)) {
+        return NextResponse.json({ error: "Lesson is not part of this course" }, { status: 404 });
+      }
+
+      await removeLessonFromCourse(id, lessonId);
+
+      revalidatePath(`/courses/${id}`);
+      revalidatePath(`/lessons/${lessonId}`);
+
+      return NextResponse.json({ course: await getCourse(id) });
+    } catch (error) {
+      logServerError(error as Error, { operation: "remove_course_lesson" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { logServerError, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { addLessonToCourse, getCourse } from "@/lib/courses";
+
+/**
+ * POST /api/courses/[id]/lessons
+ * Adds an existing lesson to the course, at the end unless `position` is given.
+ * Adding a lesson that is already in the course moves it.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.courses.lessons.post", "http.server", async () => {
+    try {
+      const { id } = await params;
+      const { lessonId, position } = await request.json().catch(() => ({}));
+
+      if (!lessonId || typeof lessonId !== "string") {
+        return NextResponse.json({ error: "lessonId is required" }, { status: 400 });
+      }
+      if (position !== undefined && (!Number.isInteger(position) || position < 1)) {
+        return NextResponse.json({ error: "position must be a positive integer" }, { status: 400 });
+      }
+
+      if (!await getCourse(id)) {
+        return NextResponse.json({ error: "Course not found" }, { status: 404 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson } = await supabase
+        .from("lessons")
+        .select("id")
+        .eq("id", lessonId)
+        .maybeSingle();
+
+      if (!lesson) {
+        return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      await addLessonToCourse(id, lessonId, position);
+
+      revalidatePath(`/courses/${id}`);
+      revalidatePath(`/lessons/${lessonId}`);
+
+      return NextResponse.json({ course: await getCourse(id) });
+    } catch (error) {
+      logServerError(error as Error, { operation: "add_course_lesson" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { logServerError, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { deleteCourse, getCourse, setCourseLessons, updateCourse } from "@/lib/courses";
+
+/**
+ * GET /api/courses/[id]
+ * A course with its lessons in course order
+ */
+export const GET = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.courses.id.get", "http.server", async () => {
+    try {
+      const { id } = await params;
+
+      const course = await getCourse(id);
+      if (!course) {
+        return NextResponse.json({ error: "Course not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({ course });
+    } catch (error) {
+      logServerError(error as Error, { operation: "fetch_course" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
+
+/**
+ * PATCH /api/courses/[id]
+ * Updates the title and description. `lessonIds` replaces the lesson order;
+ * lessons left out are removed from the course.
+ */
+export const PATCH = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.courses.id.patch", "http.server", async () => {
+    try {
+      const { id } = await params;
+      const { title, description, lessonIds } = await request.json().catch(() => ({}));
+
+      if (title !== undefined && (typeof title !== "string" || title.trim().length === 0)) {
+        return NextResponse.json({ error: "Course title cannot be empty" }, { status: 400 });
+      }
+      if (lessonIds !== undefined && (!Array.isArray(lessonIds) || lessonIds.some(lessonId => typeof lessonId !== "string"))) {
+        return NextResponse.json({ error: "lessonIds must be an array of lesson IDs" }, { status: 400 });
+      }
+
+      const course = await updateCourse(id, {
+        ...(title !== undefined ? { title: title.trim() } : {}),
+        ...(description !== undefined ? { description: typeof description === "string" ? description.trim() || null : null } : {})
+      });
+      if (!course) {
+        return NextResponse.json({ error: "Course not found" }, { status: 404 });
+      }
+
+      if (lessonIds !== undefined) {
+        await setCourseLessons(id, [...new Set<string>(lessonIds)]);
+      }
+
+      revalidatePath('/courses');
+      revalidatePath(`/courses/${id}`);
+
+      return NextResponse.json({ course: await getCourse(id) });
+    } catch (error) {
+      logServerError(error as Error, { operation: "update_course" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
+
+/**
+ * DELETE /api/courses/[id]
+ * Deletes the course. Its lessons are kept.
+ */
+export const DELETE = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.courses.id.delete", "http.server", async () => {
+    try {
+      const { id } = await params;
+
+      if (!await deleteCourse(id)) {
+        return NextResponse.json({ error: "Course not found" }, { status: 404 });
+      }
+
+      revalidatePath('/courses');
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logServerError(error as Error, { operation: "delete_course" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
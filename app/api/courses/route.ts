@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { createCourse, getCourse, listCourses, setCourseLessons } from "@/lib/courses";
+
+/**
+ * GET /api/courses
+ * All courses, newest first, with their number of lessons
+ */
+export const GET = withSentryErrorHandling(async () => {
+  return withSpan("api.courses.get", "http.server", async () => {
+    try {
+      const courses = await listCourses();
+      return NextResponse.json({ courses }, {
+        headers: {
+          'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
+        }
+      });
+    } catch (error) {
+      logServerError(error as Error, { operation: "fetch_courses" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
+
+/**
+ * POST /api/courses
+ * Creates a course. `lessonIds` optionally sets its first lessons, in order.
+ */
+export const POST = withSentryErrorHandling(async (request: NextRequest) => {
+  return withSpan("api.courses.post", "http.server", async () => {
+    try {
+      const { title, description = null, lessonIds } = await request.json().catch(() => ({}));
+
+      if (!title || typeof title !== "string" || title.trim().length === 0) {
+        return NextResponse.json({ error: "Course title is required" }, { status: 400 });
+      }
+      if (lessonIds !== undefined && (!Array.isArray(lessonIds) || lessonIds.some(id => typeof id !== "string"))) {
+        return NextResponse.json({ error: "lessonIds must be an array of lesson IDs" }, { status: 400 });
+      }
+
+      const course = await createCourse(title.trim(), typeof description === "string" ? description.trim() || null : null);
+      if (lessonIds && lessonIds.length > 0) {
+        await setCourseLessons(course.id, [...new Set<string>(lessonIds)]);
+      }
+
+      logServerMessage("Course created", "info", { courseId: course.id, lessons: lessonIds?.length || 0 });
+      revalidatePath('/courses');
+
+      return NextResponse.json({ course: await getCourse(course.id) });
+    } catch (error) {
+      logServerError(error as Error, { operation: "create_course" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
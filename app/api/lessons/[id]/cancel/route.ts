@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { cancelLessonJobs } from "@/lib/lesson-jobs";
+import { cancelLessonGeneration, queueNextBatchLessons } from "@/lib/lesson-worker";
+import { emitLessonEvent } from "@/lib/lesson-events";
+
+/**
+ * POST /api/lessons/[id]/cancel
+ * Stops an in-flight generation. Queued jobs are dropped and a running job is
+ * aborted, including its LLM calls, image generation and uploads.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.lessons.cancel", "http.server", async () => {
+    try {
+      const { id } = await params;
+
+      if (!id) {
+        return NextResponse.json({ error: "Lesson ID is required" }, { status: 400 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson, error } = await supabase
+        .from("lessons")
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("status", "generating")
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        logServerError(error as Error, { operation: "cancel_lesson", lessonId: id });
+        return NextResponse.json({ error: "Failed to cancel lesson" }, { status: 500 });
+      }
+
+      if (!lesson) {
+        const { data: existing } = await supabase
+          .from("lessons")
+          .select("id")
+          .eq("id", id)
+          .maybeSingle();
+
+        return existing
+          ? NextResponse.json({ error: "Lesson is not being generated" }, { status: 409 })
+          : NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      const cancelledJobs = await cancelLessonJobs(id);
+      const abortedHere = cancelLessonGeneration(id);
+
+      // A running worker in this process reports the cancellation itself
+      if (!abortedHere) {
+        emitLessonEvent(id, "cancelled", 100, "Lesson generation cancelled");
+      }
+
+      // The cancelled lesson no longer holds one of its batch's slots
+      if (lesson.batch_id) {
+        await queueNextBatchLessons(lesson.batch_id);
+      }
+
+      logServerMessage("Lesson generation cancelled", "info", {
+        lessonId: id,
+        cancelledJobs,
+        abortedHere
+      });
+
+      revalidatePath('/');
+      revalidatePath(`/lessons/${id}`);
+
+      return NextResponse.json({ lesson });
+    } catch (error) {
+      logServerError(error as Error, { operation: "cancel_lesson" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
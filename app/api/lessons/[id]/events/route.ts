@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getLatestLessonJob } from "@/lib/lesson-jobs";
+import {
+  getJobProgressEvent,
+  getLessonDraft,
+  getLessonEventHistory,
+  subscribeToLessonEvents,
+  TERMINAL_LESSON_EVENTS,
+  type LessonEvent
+} from "@/lib/lesson-events";
+
+export const dynamic = "force-dynamic";
+
+const STATUS_POLL_INTERVAL_MS = 5000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/lessons/[id]/events
+ * Server-Sent Events stream of generation progress for a lesson
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!id) {
+    return NextResponse.json({ error: "Lesson ID is required" }, { status: 400 });
+  }
+
+  const supabase = createServiceClient();
+  const { data: lesson, error } = await supabase
+    .from("lessons")
+    .select("id, status")
+    .eq("id", id)
+    .single();
+
+  if (error || !lesson) {
+    return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: LessonEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (TERMINAL_LESSON_EVENTS.includes(event.type)) {
+          cleanup();
+        }
+      };
+
+      const terminalEvent = (status: string): LessonEvent | null => {
+        if (status === "generated") {
+          return { type: "completed", progress: 100, message: "Lesson ready", timestamp: new Date().toISOString() };
+        }
+        if (status === "error") {
+          return { type: "failed", progress: 100, message: "Lesson generation failed", timestamp: new Date().toISOString() };
+        }
+        if (status === "cancelled") {
+          return { type: "cancelled", progress: 100, message: "Lesson generation cancelled", timestamp: new Date().toISOString() };
+        }
+        return null;
+      };
+
+      let unsubscribe = () => {};
+      const timers: ReturnType<typeof setInterval>[] = [];
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        timers.forEach(timer => clearInterval(timer));
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+
+      // Already finished - report it and close
+      const finished = terminalEvent(lesson.status);
+      if (finished) {
+        send(finished);
+        return;
+      }
+
+      // Subscribe before anything async so no event is missed. Events that arrive while the
+      // history is replayed are held back and sent after it.
+      let pending: LessonEvent[] | null = [];
+      unsubscribe = subscribeToLessonEvents(id, event => {
+        if (pending) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      });
+
+      // Replay what this process has seen so far, or reconstruct from the job row
+      const history = getLessonEventHistory(id);
+      // Markdown the LLM has streamed so far; later chunks arrive as deltas
+      const draft = getLessonDraft(id);
+      if (history.length > 0) {
+        history.forEach(send);
+      } else {
+        send(getJobProgressEvent(await getLatestLessonJob(id)));
+      }
+
+      if (draft) {
+        const last = history[history.length - 1];
+        send({
+          type: "content_delta",
+          progress: last?.progress || 0,
+          message: last?.message || "",
+          data: { content: draft },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const buffered = pending;
+      pending = null;
+      buffered.forEach(send);
+
+      if (closed) return;
+
+      // The job may be running in another process - watch the lesson row as well
+      timers.push(setInterval(async () => {
+        try {
+          const { data: current } = await supabase
+            .from("lessons")
+            .select("status")
+            .eq("id", id)
+            .single();
+          const event = current ? terminalEvent(current.status) : null;
+          if (event) {
+            send(event);
+          }
+        } catch (pollError) {
+          // Try again on the next tick rather than leaving a rejected promise behind
+          console.error("Failed to poll lesson status:", pollError);
+        }
+      }, STATUS_POLL_INTERVAL_MS));
+
+      timers.push(setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(": keep-alive\n\n"));
+        }
+      }, KEEPALIVE_INTERVAL_MS));
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getAvailableProviders, type LessonGenerationOptions, type LLMProvider } from "@/lib/llm";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { queueLessonGeneration } from "@/lib/lesson-worker";
+import { withoutProviderChoices, type LessonJobPayload } from "@/lib/lesson-jobs";
+import { countLessonVersions, createLessonVersion } from "@/lib/lesson-versions";
+import { getGenerationHash } from "@/lib/lesson-dedupe";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { DEFAULT_LESSON_LANGUAGE } from "@/lib/llm/languages";
+import { validateLessonOptions } from "@/lib/lesson-options";
+
+interface RegenerateOverrides {
+  provider?: LLMProvider;
+  gradeLevel?: LessonGenerationOptions['gradeLevel'];
+  learningStyle?: LessonGenerationOptions['learningStyle'];
+  sections?: number;
+  includeExamples?: boolean;
+  includeExercises?: boolean;
+  language?: LessonGenerationOptions['language'];
+}
+
+function validateOverrides(overrides: RegenerateOverrides): string | null {
+  if (overrides.provider !== undefined && !getAvailableProviders().includes(overrides.provider)) {
+    return `Provider "${overrides.provider}" is not available`;
+  }
+  return validateLessonOptions(overrides);
+}
+
+/**
+ * POST /api/lessons/[id]/regenerate
+ * Re-runs the full generation pipeline with the lesson's stored options.
+ * Any of provider, gradeLevel, learningStyle, sections, includeExamples,
+ * includeExercises and language can be overridden in the body. Translations are translated
+ * again from the lesson in their stored options. The replaced content stays available in the
+ * lesson's version history.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.lessons.regenerate", "http.server", async () => {
+    try {
+      const { id } = await params;
+
+      if (!id) {
+        return NextResponse.json({ error: "Lesson ID is required" }, { status: 400 });
+      }
+
+      const body = await request.json().catch(() => ({}));
+      const overrides: RegenerateOverrides = {
+        provider: body.provider,
+        gradeLevel: body.gradeLevel !== undefined ? String(body.gradeLevel) as RegenerateOverrides['gradeLevel'] : undefined,
+        learningStyle: body.learningStyle,
+        sections: body.sections,
+        includeExamples: body.includeExamples,
+        includeExercises: body.includeExercises,
+        language: body.language
+      };
+
+      const validationError = validateOverrides(overrides);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson, error } = await supabase
+        .from("lessons")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error || !lesson) {
+        return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      if (lesson.status === "generating") {
+        return NextResponse.json({ error: "Lesson is already being generated" }, { status: 409 });
+      }
+
+      // A regeneration spends as much LLM and image quota as a new lesson
+      const rateLimit = await checkRateLimit(request, "lesson_regenerate");
+      if (rateLimit?.limited) {
+        logServerMessage("Lesson regeneration rate limited", "warning", { scope: rateLimit.scope, limit: rateLimit.limit });
+        return rateLimitResponse(rateLimit);
+      }
+
+      // Lessons created before options were stored only have their outline
+      const storedPayload: LessonJobPayload = lesson.generation_options || { outline: lesson.outline };
+      // Lessons stored before provider choices were kept out of their options may still carry them
+      const storedProvider = storedPayload.provider;
+      const storedOptions = withoutProviderChoices(storedPayload);
+      const { provider = storedProvider, ...optionOverrides } = overrides;
+      const generationOptions: LessonJobPayload = { ...storedOptions };
+      (Object.keys(optionOverrides) as (keyof typeof optionOverrides)[]).forEach(key => {
+        if (optionOverrides[key] !== undefined) {
+          Object.assign(generationOptions, { [key]: optionOverrides[key] });
+        }
+      });
+      // Stored like POST /api/lessons stores them, so the hash matches new requests for the same lesson
+      if (generationOptions.language === DEFAULT_LESSON_LANGUAGE) {
+        delete generationOptions.language;
+      }
+      const payload: LessonJobPayload = { ...generationOptions, ...(provider ? { provider } : {}) };
+
+      logServerMessage("Regenerating lesson", "info", {
+        lessonId: id,
+        previousStatus: lesson.status,
+        overrides: Object.keys(overrides).filter(key => overrides[key as keyof RegenerateOverrides] !== undefined)
+      });
+
+      // Lessons generated before version history existed get a baseline so the
+      // content we are about to replace can still be restored
+      if ((lesson.content || lesson.lesson_structure) && await countLessonVersions(id) === 0) {
+        await createLessonVersion(id, "llm", "system");
+      }
+
+      const { data: updatedLesson, error: updateError } = await supabase
+        .from("lessons")
+        .update({
+          status: "generating",
+          generation_options: generationOptions,
+          generation_hash: getGenerationHash(generationOptions),
+          error_code: null,
+          error_message: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq("id", id)
+        // Only one of two concurrent requests may start the generation
+        .neq("status", "generating")
+        .select()
+        .maybeSingle();
+
+      if (updateError) {
+        logServerError(updateError as Error, { operation: "regenerate_lesson", lessonId: id });
+        return NextResponse.json({ error: "Failed to update lesson" }, { status: 500 });
+      }
+
+      if (!updatedLesson) {
+        return NextResponse.json({ error: "Lesson is already being generated" }, { status: 409 });
+      }
+
+      try {
+        await queueLessonGeneration(id, payload);
+      } catch (jobError) {
+        logServerError(jobError as Error, { operation: "enqueue_lesson_job", lessonId: id });
+        await supabase
+          .from("lessons")
+          .update({
+            status: lesson.status,
+            error_code: lesson.error_code,
+            error_message: lesson.error_message,
+            updated_at: new Date().toISOString()
+          })
+          .eq("id", id);
+        return NextResponse.json({ error: "Failed to queue lesson generation" }, { status: 500 });
+      }
+
+      revalidatePath('/');
+      revalidatePath(`/lessons/${id}`);
+
+      return NextResponse.json({ lesson: updatedLesson });
+    } catch (error) {
+      logServerError(error as Error, { operation: "regenerate_lesson" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
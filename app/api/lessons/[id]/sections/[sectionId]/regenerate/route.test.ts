@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { generateSectionWithTracing } from '@/lib/llm';
+import { generateLessonContentWithLLM } from '@/lib/lesson-generation';
+import { parseMarkdownToStructure, type LessonStructure } from '@/lib/lesson-typescript-generator';
+import { POST } from './route';
+
+type Row = Record<string, unknown>;
+
+const tables: Record<string, Row[]> = {};
+
+/**
+ * Just enough of the Supabase query builder for the lesson reads and conditional updates
+ */
+class FakeQuery implements PromiseLike<{ data: Row[]; error: null }> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private changes: Row | null = null;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  update(changes: Row) {
+    this.changes = changes;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  private run(): Row[] {
+    const matched = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.changes) {
+      matched.forEach(row => Object.assign(row, this.changes));
+    }
+    return matched.map(row => ({ ...row }));
+  }
+
+  async single() {
+    const rows = this.run();
+    return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { message: 'Row not found' } };
+  }
+
+  async maybeSingle() {
+    return { data: this.run()[0] ?? null, error: null };
+  }
+
+  then<A = { data: Row[]; error: null }, B = never>(
+    onFulfilled?: ((value: { data: Row[]; error: null }) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve({ data: this.run(), error: null as null }).then(onFulfilled, onRejected);
+  }
+}
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: () => ({ from: (table: string) => new FakeQuery(tables[table] ??= []) })
+}));
+
+vi.mock('@/lib/llm', () => ({
+  generateSectionWithTracing: vi.fn(),
+  generateLessonWithTracing: vi.fn(async () => ({
+    title: 'Fractions, rewritten',
+    content: '# Fractions, rewritten\n\n## Introduction\n\nA whole new introduction.\n\n## Practice\n\nNew exercises.',
+    estimatedSections: 2,
+    gradeLevel: '4',
+    keyConcepts: [],
+    prerequisites: [],
+    model: 'mock-lesson',
+    provider: 'mock'
+  })),
+  getAvailableProviders: () => ['mock'],
+  getDefaultProvider: () => 'mock'
+}));
+
+vi.mock('@/lib/sentry', () => ({
+  withSentryErrorHandling: <T extends unknown[], R>(fn: (...args: T) => Promise<R>) => fn,
+  withSpan: <T>(_name: string, _op: string, callback: () => Promise<T>) => callback(),
+  logServerError: vi.fn(),
+  logServerMessage: vi.fn()
+}));
+
+vi.mock('@/lib/rate-limit', () => ({ checkRateLimit: vi.fn(async () => null), rateLimitResponse: vi.fn() }));
+vi.mock('@/lib/lesson-versions', () => ({
+  countLessonVersions: vi.fn(async () => 1),
+  createLessonVersion: vi.fn(),
+  getVersionAuthor: vi.fn(async () => 'system')
+}));
+vi.mock('@/lib/courses', () => ({ getCourseContextForLesson: vi.fn(async () => undefined) }));
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+// The TypeScript compiler is only loaded in the browser
+vi.mock('@/lib/lesson-typescript-generator', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/lesson-typescript-generator')>(),
+  generateLessonTypeScriptComponent: () => ({ success: true, tsCode: 'export {}', jsCode: 'export {}' })
+}));
+
+const LESSON_ID = 'lesson-1';
+
+function regenerateSection(sectionId: string) {
+  return POST(
+    new NextRequest(`http://localhost/api/lessons/${LESSON_ID}/sections/${sectionId}/regenerate`, { method: 'POST', body: '{}' }),
+    { params: Promise.resolve({ id: LESSON_ID, sectionId }) }
+  );
+}
+
+describe('POST /api/lessons/[id]/sections/[sectionId]/regenerate', () => {
+  let structure: LessonStructure;
+
+  beforeEach(() => {
+    structure = parseMarkdownToStructure('# Fractions\n\n## Introduction\n\nWhat a fraction is.\n\n## Practice\n\nSome exercises.', LESSON_ID);
+    tables.lessons = [{
+      id: LESSON_ID,
+      title: 'Fractions',
+      outline: 'Fractions',
+      status: 'generated',
+      content: '# Fractions',
+      lesson_structure: structure,
+      generation_options: { outline: 'Fractions', learningStyle: 'reading' },
+      updated_at: '2026-01-01T00:00:00.000Z'
+    }];
+    vi.mocked(generateSectionWithTracing).mockReset();
+  });
+
+  it('saves the rewritten section and its markdown', async () => {
+    vi.mocked(generateSectionWithTracing).mockResolvedValue({ content: 'Fractions are parts of a whole.', provider: 'mock' });
+
+    const response = await regenerateSection(structure.sections[0].id);
+
+    expect(response.status).toBe(200);
+    const saved = tables.lessons[0];
+    expect((saved.lesson_structure as LessonStructure).sections[0].content).toBe('Fractions are parts of a whole.');
+    expect(saved.content).toContain('Fractions are parts of a whole.');
+    expect(saved.updated_at).not.toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('answers 409 instead of overwriting a generation saved while the section was rewritten', async () => {
+    vi.mocked(generateSectionWithTracing).mockImplementation(async () => {
+      // A full regeneration starts and saves between the section read and the section write
+      tables.lessons[0].status = 'generating';
+      await generateLessonContentWithLLM(LESSON_ID, { outline: 'Fractions', learningStyle: 'reading' });
+      return { content: 'Fractions are parts of a whole.', provider: 'mock' };
+    });
+
+    const response = await regenerateSection(structure.sections[0].id);
+
+    expect(response.status).toBe(409);
+    const saved = tables.lessons[0];
+    expect(saved.status).toBe('generated');
+    expect(saved.title).toBe('Fractions, rewritten');
+    expect((saved.lesson_structure as LessonStructure).sections[0].content).toContain('A whole new introduction.');
+  });
+});
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { generateSectionWithTracing, getAvailableProviders, getDefaultProvider, type LLMProvider } from "@/lib/llm";
+import { extractSectionBody } from "@/lib/llm/prompts";
+import {
+  convertStructureToMarkdown,
+  generateLessonTypeScriptComponent,
+  preserveImageReferences,
+  updateLessonSection,
+  type LessonStructure
+} from "@/lib/lesson-typescript-generator";
+import { createLessonVersion, getVersionAuthor } from "@/lib/lesson-versions";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+/**
+ * POST /api/lessons/[id]/sections/[sectionId]/regenerate
+ * Rewrites one section with the LLM, using the lesson title, grade level and the
+ * neighbouring sections as context. The section keeps its id, order and image
+ * references. Optional body: { provider, instructions }.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+) => {
+  return withSpan("api.lessons.sections.regenerate", "http.server", async () => {
+    try {
+      const { id, sectionId } = await params;
+
+      if (!id || !sectionId) {
+        return NextResponse.json({ error: "Lesson ID and section ID are required" }, { status: 400 });
+      }
+
+      const body = await request.json().catch(() => ({}));
+      const provider: LLMProvider | undefined = body.provider;
+      const instructions: string | undefined = typeof body.instructions === "string" && body.instructions.trim()
+        ? body.instructions.trim()
+        : undefined;
+
+      if (provider !== undefined && !getAvailableProviders().includes(provider)) {
+        return NextResponse.json({ error: `Provider "${provider}" is not available` }, { status: 400 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson, error } = await supabase
+        .from("lessons")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error || !lesson) {
+        return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      if (lesson.status === "generating") {
+        return NextResponse.json({ error: "Lesson is being generated" }, { status: 409 });
+      }
+
+      const lessonStructure = lesson.lesson_structure as LessonStructure | null;
+      if (!lessonStructure) {
+        return NextResponse.json({ error: "Lesson has no structure to edit" }, { status: 400 });
+      }
+
+      const sections = [...lessonStructure.sections].sort((a, b) => a.order - b.order);
+      const index = sections.findIndex(section => section.id === sectionId);
+      if (index === -1) {
+        return NextResponse.json({ error: "Section not found" }, { status: 404 });
+      }
+
+      const rateLimit = await checkRateLimit(request, "lesson_regenerate");
+      if (rateLimit?.limited) {
+        logServerMessage("Section regeneration rate limited", "warning", { scope: rateLimit.scope, limit: rateLimit.limit });
+        return rateLimitResponse(rateLimit);
+      }
+
+      const section = sections[index];
+      const previousSection = sections[index - 1];
+      const nextSection = sections[index + 1];
+
+      logServerMessage("Regenerating lesson section", "info", {
+        lessonId: id,
+        sectionId,
+        order: section.order,
+        hasInstructions: !!instructions
+      });
+
+      const generated = await generateSectionWithTracing({
+        lessonTitle: lesson.title || lessonStructure.title,
+        gradeLevel: lesson.generation_options?.gradeLevel,
+        language: lesson.generation_options?.language,
+        section: { title: section.title, content: section.content, type: section.type },
+        previousSection: previousSection && { title: previousSection.title, content: previousSection.content },
+        nextSection: nextSection && { title: nextSection.title, content: nextSection.content },
+        instructions
+      }, { provider: provider || getDefaultProvider() }, id, { signal: request.signal });
+
+      const newContent = preserveImageReferences(section.content, extractSectionBody(generated.content, section.title));
+      if (!newContent) {
+        return NextResponse.json({ error: "The model returned an empty section" }, { status: 502 });
+      }
+
+      const updatedStructure = updateLessonSection(lessonStructure, sectionId, newContent);
+      const tsResult = generateLessonTypeScriptComponent(updatedStructure);
+
+      if (!tsResult.success) {
+        logServerMessage("TypeScript generation failed after section regeneration", "warning", {
+          lessonId: id,
+          sectionId,
+          errors: tsResult.errors
+        });
+        return NextResponse.json({ error: "Failed to generate TypeScript", details: tsResult.errors }, { status: 500 });
+      }
+
+      const { data: savedLesson, error: updateError } = await supabase
+        .from("lessons")
+        .update({
+          lesson_structure: updatedStructure,
+          content: convertStructureToMarkdown(updatedStructure),
+          typescript_code: tsResult.tsCode,
+          javascript_code: tsResult.jsCode,
+          updated_at: new Date().toISOString()
+        })
+        .eq("id", id)
+        // The LLM call takes a while; don't overwrite a regeneration or edit that was saved meanwhile
+        .neq("status", "generating")
+        .eq("updated_at", lesson.updated_at)
+        .select("id")
+        .maybeSingle();
+
+      if (updateError) {
+        logServerError(updateError as Error, { operation: "regenerate_section", lessonId: id, sectionId });
+        return NextResponse.json({ error: "Failed to save lesson" }, { status: 500 });
+      }
+
+      if (!savedLesson) {
+        return NextResponse.json({ error: "Lesson was changed while the section was regenerated" }, { status: 409 });
+      }
+
+      await createLessonVersion(id, "regenerate", await getVersionAuthor());
+
+      revalidatePath(`/lessons/${id}`);
+
+      return NextResponse.json({
+        success: true,
+        section: updatedStructure.sections.find(s => s.id === sectionId),
+        lessonStructure: updatedStructure,
+        typescript: tsResult.tsCode,
+        javascript: tsResult.jsCode,
+        provider: generated.provider
+      });
+    } catch (error) {
+      logServerError(error as Error, { operation: "regenerate_section" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
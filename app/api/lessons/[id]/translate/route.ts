@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getAvailableProviders, type LLMProvider } from "@/lib/llm";
+import { isLessonLanguage, LESSON_LANGUAGES, type LessonLanguage } from "@/lib/llm/languages";
+import { getLessonTranslations, getStoredLessonLanguage, type LessonTranslation } from "@/lib/lesson-translations";
+import { queueLessonGeneration } from "@/lib/lesson-worker";
+import { type LessonJobPayload } from "@/lib/lesson-jobs";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+
+/**
+ * GET /api/lessons/[id]/translate
+ * Lists the lesson and its linked translations, original first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const translations = await getLessonTranslations(id);
+
+    if (translations.length === 0) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ translations });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/lessons/[id]/translate
+ * Creates a translation of a generated lesson as a new 'generating' lesson linked to the original
+ * and queues the section by section translation with the lesson worker; progress streams from
+ * the new lesson's events. Code blocks, image references and media are kept.
+ * Body: { language, provider? }. Answers 202 with the new lesson, or 409 with the existing
+ * lesson if the translation exists.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  return withSpan("api.lessons.translate", "http.server", async () => {
+    try {
+      const { id } = await params;
+
+      if (!id) {
+        return NextResponse.json({ error: "Lesson ID is required" }, { status: 400 });
+      }
+
+      const body = await request.json().catch(() => ({}));
+      const provider: LLMProvider | undefined = body.provider;
+      const language: unknown = body.language;
+
+      if (!isLessonLanguage(language)) {
+        return NextResponse.json({
+          error: `Language must be one of: ${Object.keys(LESSON_LANGUAGES).join(", ")}`
+        }, { status: 400 });
+      }
+
+      if (provider !== undefined && !getAvailableProviders().includes(provider)) {
+        return NextResponse.json({ error: `Provider "${provider}" is not available` }, { status: 400 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson, error } = await supabase
+        .from("lessons")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error || !lesson) {
+        return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      if (lesson.status !== "generated") {
+        return NextResponse.json({ error: "Only generated lessons can be translated" }, { status: 409 });
+      }
+
+      if (!lesson.lesson_structure) {
+        return NextResponse.json({ error: "Lesson has no structure to translate" }, { status: 400 });
+      }
+
+      if (getStoredLessonLanguage(lesson) === language) {
+        return NextResponse.json({ error: "Lesson is already in this language" }, { status: 400 });
+      }
+
+      const existing = (await getLessonTranslations(id)).find(translation => translation.language === language);
+      if (existing) {
+        return translationExistsResponse(language, existing);
+      }
+
+      // A translation is a new lesson and counts against the lesson creation limit
+      const rateLimit = await checkRateLimit(request, "lesson_create");
+      if (rateLimit?.limited) {
+        logServerMessage("Lesson translation rate limited", "warning", { scope: rateLimit.scope, limit: rateLimit.limit });
+        return rateLimitResponse(rateLimit);
+      }
+
+      // Lessons created before options were stored only have their outline
+      const { provider: storedProvider, ...storedOptions }: LessonJobPayload = lesson.generation_options || { outline: lesson.outline };
+      // translateFrom stays in the stored options, so retrying or regenerating the translation translates again
+      const generationOptions: LessonJobPayload = { ...storedOptions, language, translateFrom: id };
+
+      // The translation is its own lesson from the start, so it shows up generating like a new lesson
+      const { data: translation, error: insertError } = await supabase
+        .from("lessons")
+        .insert({
+          title: lesson.title,
+          outline: lesson.outline,
+          status: "generating",
+          content: null,
+          generation_options: generationOptions,
+          translation_of: lesson.translation_of || lesson.id
+        })
+        .select()
+        .single();
+
+      // 23505 = unique_violation: a concurrent request created this translation first
+      if (insertError?.code === "23505") {
+        const created = (await getLessonTranslations(id)).find(translation => translation.language === language);
+        return translationExistsResponse(language, created || null);
+      }
+
+      if (insertError || !translation) {
+        logServerError(insertError as Error, { operation: "create_translation", lessonId: id });
+        return NextResponse.json({ error: "Failed to create translation" }, { status: 500 });
+      }
+
+      logServerMessage("Translation created, queueing translation", "info", {
+        lessonId: id,
+        translationId: translation.id,
+        language,
+        sections: lesson.lesson_structure.sections?.length
+      });
+
+      try {
+        await queueLessonGeneration(translation.id, {
+          ...generationOptions,
+          ...(provider || storedProvider ? { provider: provider || storedProvider } : {})
+        });
+      } catch (jobError) {
+        logServerError(jobError as Error, { operation: "enqueue_lesson_job", lessonId: translation.id });
+        await supabase
+          .from("lessons")
+          .update({
+            status: "error",
+            error_code: "database_failed",
+            error_message: jobError instanceof Error ? jobError.message : "Failed to queue lesson translation",
+            updated_at: new Date().toISOString()
+          })
+          .eq("id", translation.id);
+        return NextResponse.json({ error: "Failed to queue lesson translation" }, { status: 500 });
+      }
+
+      revalidatePath("/");
+      revalidatePath(`/lessons/${id}`);
+
+      return NextResponse.json({ lesson: translation }, { status: 202 });
+    } catch (error) {
+      logServerError(error as Error, { operation: "translate_lesson" });
+      return NextResponse.json({ error: "Failed to translate lesson" }, { status: 500 });
+    }
+  });
+});
+
+function translationExistsResponse(language: LessonLanguage, translation: LessonTranslation | null) {
+  return NextResponse.json({
+    error: `A ${LESSON_LANGUAGES[language].name} translation of this lesson already exists`,
+    translation
+  }, { status: 409 });
+}
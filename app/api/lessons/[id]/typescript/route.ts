@@ -5,6 +5,7 @@ import {
   generateLessonTypeScriptComponent,
   type LessonStructure
 } from "@/lib/lesson-typescript-generator";
+import { createLessonVersion, getVersionAuthor } from "@/lib/lesson-versions";
 
 /**
  * GET /api/lessons/[id]/typescript
@@ -63,7 +64,7 @@ export async function GET(
     console.log("Parsing markdown to structure for lesson:", id);
     
     // Parse markdown to structure
-    const lessonStructure = parseMarkdownToStructure(lesson.content, lesson.id);
+    const lessonStructure = parseMarkdownToStructure(lesson.content, lesson.id, lesson.generation_options?.language);
 
     console.log("Generating TypeScript component, sections:", lessonStructure.sections.length);
 
@@ -80,19 +81,26 @@ export async function GET(
 
     console.log("Saving TypeScript to database");
 
-    // Store generated TypeScript in database
-    const { error: updateError } = await supabase
+    // Store generated TypeScript in database, unless a structure was saved in the meantime
+    const { data: updatedLesson, error: updateError } = await supabase
       .from("lessons")
       .update({
         typescript_code: result.tsCode,
         javascript_code: result.jsCode,
-        lesson_structure: lessonStructure
+        lesson_structure: lessonStructure,
+        updated_at: new Date().toISOString()
       })
-      .eq("id", id);
+      .eq("id", id)
+      .is("lesson_structure", null)
+      .select("id")
+      .maybeSingle();
 
     if (updateError) {
       console.error("Database update error:", updateError);
       // Don't fail the request, just log it
+    } else if (updatedLesson) {
+      // The converted structure is what later edits start from, so it belongs in the history
+      await createLessonVersion(id, "llm", "system");
     }
 
     return NextResponse.json({
@@ -158,7 +166,7 @@ export async function PUT(
 
     // Update database
     const supabase = createServiceClient();
-    await supabase
+    const { error: updateError } = await supabase
       .from("lessons")
       .update({
         typescript_code: result.tsCode,
@@ -168,6 +176,16 @@ export async function PUT(
       })
       .eq("id", id);
 
+    if (updateError) {
+      console.error("Database update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to save lesson structure" },
+        { status: 500 }
+      );
+    }
+
+    await createLessonVersion(id, "edit", await getVersionAuthor());
+
     return NextResponse.json({
       success: true,
       lessonStructure,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { createServiceClient } from "@/lib/supabase/server";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { getVersionAuthor, restoreLessonVersion } from "@/lib/lesson-versions";
+
+/**
+ * POST /api/lessons/[id]/versions/[versionId]/restore
+ * Rolls the lesson back to a stored version. The rollback is itself recorded as a new version.
+ */
+export const POST = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) => {
+  return withSpan("api.lessons.versions.restore", "http.server", async () => {
+    try {
+      const { id, versionId } = await params;
+
+      if (!id || !versionId) {
+        return NextResponse.json({ error: "Lesson ID and version ID are required" }, { status: 400 });
+      }
+
+      const supabase = createServiceClient();
+      const { data: lesson, error } = await supabase
+        .from("lessons")
+        .select("id, status")
+        .eq("id", id)
+        .single();
+
+      if (error || !lesson) {
+        return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+      }
+
+      if (lesson.status === "generating") {
+        return NextResponse.json({ error: "Lesson is being generated" }, { status: 409 });
+      }
+
+      const version = await restoreLessonVersion(id, versionId, await getVersionAuthor());
+
+      if (!version) {
+        return NextResponse.json({ error: "Version not found" }, { status: 404 });
+      }
+
+      logServerMessage("Restored lesson version", "info", {
+        lessonId: id,
+        restoredVersionId: versionId,
+        newVersionNumber: version.version_number
+      });
+
+      revalidatePath('/');
+      revalidatePath(`/lessons/${id}`);
+
+      return NextResponse.json({ version });
+    } catch (error) {
+      logServerError(error as Error, { operation: "restore_lesson_version" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLessonVersion } from "@/lib/lesson-versions";
+
+/**
+ * GET /api/lessons/[id]/versions/[versionId]
+ * Returns the full snapshot stored for a version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const { id, versionId } = await params;
+
+    if (!id || !versionId) {
+      return NextResponse.json({ error: "Lesson ID and version ID are required" }, { status: 400 });
+    }
+
+    const version = await getLessonVersion(id, versionId);
+
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  diffLessonStructures,
+  getLessonSnapshot,
+  getLessonVersion,
+  type LessonSnapshot
+} from "@/lib/lesson-versions";
+
+/**
+ * GET /api/lessons/[id]/versions/diff?from=<versionId>&to=<versionId|current>
+ * Section-level diff between two versions. `to` defaults to the current lesson.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const from = request.nextUrl.searchParams.get("from");
+    const to = request.nextUrl.searchParams.get("to") || "current";
+
+    if (!id || !from) {
+      return NextResponse.json({ error: "Lesson ID and from version are required" }, { status: 400 });
+    }
+
+    const resolve = (versionId: string): Promise<LessonSnapshot | null> =>
+      versionId === "current" ? getLessonSnapshot(id) : getLessonVersion(id, versionId);
+
+    const [before, after] = await Promise.all([resolve(from), resolve(to)]);
+
+    if (!before || !after) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ from, to, diff: diffLessonStructures(before, after) });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { listLessonVersions } from "@/lib/lesson-versions";
+
+/**
+ * GET /api/lessons/[id]/versions
+ * Lists the stored versions of a lesson, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json({ error: "Lesson ID is required" }, { status: 400 });
+    }
+
+    const supabase = createServiceClient();
+    const { data: lesson, error } = await supabase
+      .from("lessons")
+      .select("id")
+      .eq("id", id)
+      .single();
+
+    if (error || !lesson) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 });
+    }
+
+    const versions = await listLessonVersions(id);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
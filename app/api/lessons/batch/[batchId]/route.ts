@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logServerError, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { getLessonBatch } from "@/lib/lesson-batches";
+
+/**
+ * GET /api/lessons/batch/[batchId]
+ * A batch with its lessons in unit order and how many of them have finished
+ */
+export const GET = withSentryErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) => {
+  return withSpan("api.lessons.batch.get", "http.server", async () => {
+    try {
+      const { batchId } = await params;
+
+      const result = await getLessonBatch(batchId);
+      if (!result) {
+        return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+      }
+
+      return NextResponse.json(result, {
+        headers: {
+          'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
+        }
+      });
+    } catch (error) {
+      logServerError(error as Error, { operation: "fetch_lesson_batch" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
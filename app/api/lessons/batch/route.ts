@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revalidatePath } from "next/cache";
+import { getAvailableProviders, getDefaultProvider, splitUnitOutline, type LLMProvider } from "@/lib/llm";
+import { logServerError, logServerMessage, withSentryErrorHandling, withSpan } from "@/lib/sentry";
+import { queueNextBatchLessons } from "@/lib/lesson-worker";
+import {
+  createLessonBatch,
+  getBatchConcurrency,
+  getBatchProgress,
+  MAX_BATCH_LESSONS,
+  type LessonBatchOptions
+} from "@/lib/lesson-batches";
+import { getAvailableProviderNames } from "@/lib/llm/image-generation";
+import { checkRateLimit, rateLimitResponse } from "@/lib/rate-limit";
+import { DEFAULT_LESSON_LANGUAGE } from "@/lib/llm/languages";
+import { validateLessonOptions } from "@/lib/lesson-options";
+
+/**
+ * POST /api/lessons/batch
+ * Splits a unit outline into lesson outlines with the LLM and generates every
+ * lesson with the same settings. At most `concurrency` lessons of the batch are
+ * generated at a time; the rest wait in "generating" status until a slot frees up.
+ */
+export const POST = withSentryErrorHandling(async (request: NextRequest) => {
+  return withSpan("api.lessons.batch", "http.server", async () => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const {
+        unitOutline = body.outline,
+        lessonCount,
+        gradeLevel = '2',
+        sections = 4,
+        learningStyle = 'reading',
+        includeExamples = true,
+        includeExercises = true,
+        language = DEFAULT_LESSON_LANGUAGE,
+        provider,
+        imageProvider,
+        ensemble = false,
+        concurrency
+      } = body as {
+        unitOutline?: string;
+        lessonCount?: number;
+        gradeLevel?: LessonBatchOptions['gradeLevel'];
+        sections?: number;
+        learningStyle?: LessonBatchOptions['learningStyle'];
+        includeExamples?: boolean;
+        includeExercises?: boolean;
+        language?: LessonBatchOptions['language'];
+        provider?: LLMProvider;
+        imageProvider?: string;
+        ensemble?: boolean;
+        concurrency?: number;
+      };
+
+      if (!unitOutline || typeof unitOutline !== "string" || unitOutline.trim().length === 0) {
+        return NextResponse.json({ error: "Unit outline is required" }, { status: 400 });
+      }
+      if (lessonCount !== undefined && (!Number.isInteger(lessonCount) || lessonCount < 1 || lessonCount > MAX_BATCH_LESSONS)) {
+        return NextResponse.json({ error: `lessonCount must be between 1 and ${MAX_BATCH_LESSONS}` }, { status: 400 });
+      }
+      const validationError = validateLessonOptions({ gradeLevel, sections, learningStyle, includeExamples, includeExercises, language });
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+      if (provider !== undefined && !getAvailableProviders().includes(provider)) {
+        return NextResponse.json({ error: `Provider "${provider}" is not available` }, { status: 400 });
+      }
+      if (imageProvider !== undefined && !getAvailableProviderNames().includes(imageProvider)) {
+        return NextResponse.json({ error: `Image provider "${imageProvider}" is not available` }, { status: 400 });
+      }
+      if (typeof ensemble !== "boolean") {
+        return NextResponse.json({ error: "ensemble must be a boolean" }, { status: 400 });
+      }
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        return NextResponse.json({ error: "concurrency must be a positive integer" }, { status: 400 });
+      }
+
+      // Check if environment variables are set
+      if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY) {
+        logServerMessage("Supabase environment variables not configured", "error");
+        return NextResponse.json({
+          error: "Supabase environment variables not configured. Please set up your .env.local file."
+        }, { status: 500 });
+      }
+
+      // Each lesson of the unit counts against the lesson creation limit. When the LLM
+      // chooses the count, one lesson is charged now and the rest once the split is known.
+      const charged = lessonCount || 1;
+      const rateLimit = await checkRateLimit(request, "lesson_create", charged);
+      if (rateLimit?.limited) {
+        logServerMessage("Lesson batch creation rate limited", "warning", { scope: rateLimit.scope, limit: rateLimit.limit });
+        return rateLimitResponse(rateLimit);
+      }
+
+      const options: LessonBatchOptions = {
+        gradeLevel: String(gradeLevel) as LessonBatchOptions['gradeLevel'],
+        sections,
+        learningStyle,
+        includeExamples,
+        includeExercises,
+        ...(language !== DEFAULT_LESSON_LANGUAGE ? { language } : {}),
+        ...(provider ? { provider } : {}),
+        ...(imageProvider ? { imageProvider } : {}),
+        ...(ensemble ? { ensemble } : {})
+      };
+
+      logServerMessage("Splitting unit outline into lessons", "info", {
+        unitOutline: unitOutline.substring(0, 100),
+        lessonCount,
+        gradeLevel
+      });
+
+      let split;
+      try {
+        split = await splitUnitOutline(
+          { unitOutline: unitOutline.trim(), lessonCount, gradeLevel: options.gradeLevel, language: options.language },
+          { provider: provider || getDefaultProvider() },
+          { signal: request.signal }
+        );
+      } catch (splitError) {
+        logServerError(splitError as Error, { operation: "split_unit_outline" });
+        return NextResponse.json({ error: "Failed to split the unit outline into lessons" }, { status: 502 });
+      }
+
+      const lessonOutlines = split.lessons.slice(0, MAX_BATCH_LESSONS);
+
+      if (lessonOutlines.length > charged) {
+        const remainingLimit = await checkRateLimit(request, "lesson_create", lessonOutlines.length - charged);
+        if (remainingLimit?.limited) {
+          logServerMessage("Lesson batch creation rate limited", "warning", { scope: remainingLimit.scope, limit: remainingLimit.limit });
+          return rateLimitResponse(remainingLimit);
+        }
+      }
+      const firstLine = unitOutline.trim().split('\n')[0].replace(/^#+\s*/, '');
+      const title = firstLine.length > 50 ? firstLine.substring(0, 50) + "..." : firstLine;
+
+      const { batch, lessons } = await createLessonBatch(
+        unitOutline.trim(),
+        title,
+        lessonOutlines,
+        options,
+        getBatchConcurrency(concurrency)
+      );
+
+      logServerMessage("Lesson batch created, queueing first lessons", "info", {
+        batchId: batch.id,
+        lessons: lessons.length,
+        concurrency: batch.concurrency,
+        provider: split.provider
+      });
+
+      try {
+        await queueNextBatchLessons(batch.id);
+      } catch (jobError) {
+        // Waiting lessons are released again when the worker restarts
+        logServerError(jobError as Error, { operation: "enqueue_batch_lessons", batchId: batch.id });
+      }
+
+      // Invalidate server-side cache so next page load gets fresh data
+      revalidatePath('/');
+
+      return NextResponse.json({
+        batch,
+        lessons: lessons.map(lesson => ({ ...lesson, batch: { id: batch.id, title: batch.title } })),
+        progress: getBatchProgress(lessons)
+      });
+    } catch (error) {
+      logServerError(error as Error, { operation: "create_lesson_batch" });
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+  });
+});
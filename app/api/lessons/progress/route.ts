@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getLatestLessonJobs } from "@/lib/lesson-jobs";
+import { getJobProgressEvent, getLessonEventHistory } from "@/lib/lesson-events";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LESSONS = 100;
+
+/**
+ * GET /api/lessons/progress?ids=a,b
+ * Generation progress of several lessons in one request, for lists that would otherwise
+ * open an event stream per generating lesson. Finished lessons report their final status.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ids = [...new Set((request.nextUrl.searchParams.get("ids") || "")
+      .split(",")
+      .map(id => id.trim())
+      .filter(Boolean))];
+
+    if (ids.length === 0 || ids.length > MAX_LESSONS) {
+      return NextResponse.json({ error: `ids must list 1 to ${MAX_LESSONS} lesson IDs` }, { status: 400 });
+    }
+
+    const supabase = createServiceClient();
+    const { data: lessons, error } = await supabase
+      .from("lessons")
+      .select("id, status")
+      .in("id", ids);
+
+    if (error) {
+      console.error("Failed to fetch lesson progress:", error);
+      return NextResponse.json({ error: "Failed to fetch lesson progress" }, { status: 500 });
+    }
+
+    const generatingIds = (lessons || []).filter(lesson => lesson.status === "generating").map(lesson => lesson.id);
+    const jobs = generatingIds.length > 0 ? await getLatestLessonJobs(generatingIds) : new Map();
+
+    return NextResponse.json({
+      lessons: (lessons || []).map(lesson => {
+        if (lesson.status !== "generating") {
+          return { id: lesson.id, status: lesson.status, progress: 100, message: "" };
+        }
+
+        // The last event this process has seen, or an estimate from the job row
+        const history = getLessonEventHistory(lesson.id);
+        const event = history[history.length - 1] || getJobProgressEvent(jobs.get(lesson.id) || null);
+        return { id: lesson.id, status: lesson.status, progress: event.progress, message: event.message };
+      })
+    }, {
+      headers: { "Cache-Control": "no-store" }
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
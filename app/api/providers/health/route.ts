@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getRegisteredProviders } from "@/lib/llm";
+import { getCircuitSettings, getProviderHealthReport } from "@/lib/llm/health";
+
+/**
+ * GET /api/providers/health
+ * Circuit breaker state of every registered LLM provider, in priority order.
+ * Providers with an open circuit are skipped until `retryAt`.
+ */
+export async function GET() {
+  try {
+    const providers = getRegisteredProviders();
+    const health = await getProviderHealthReport(providers.map(provider => provider.name));
+    const { failureThreshold, cooldownMs, seedWindowMs } = getCircuitSettings();
+
+    return NextResponse.json({
+      providers: health.map((entry, index) => ({ ...entry, available: providers[index].isAvailable() })),
+      settings: {
+        failureThreshold,
+        cooldownSeconds: cooldownMs / 1000,
+        seedWindowMinutes: seedWindowMs / 60000
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching provider health:", error);
+    return NextResponse.json({ error: "Failed to fetch provider health" }, { status: 500 });
+  }
+}
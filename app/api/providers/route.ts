@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getAvailableProviders, getDefaultProvider, getModelSettings, getRegisteredProviders } from "@/lib/llm";
+import { getImageProviderStatus } from "@/lib/llm/image-generation";
+
+/**
+ * GET /api/providers
+ * Every LLM and image provider in priority order and whether it is configured, with
+ * the ones used when a lesson request doesn't name a provider.
+ */
+export async function GET() {
+  try {
+    const available = getAvailableProviders();
+    const llm = getRegisteredProviders().map(provider => ({
+      name: provider.name,
+      model: getModelSettings(provider.name).model,
+      available: available.includes(provider.name),
+      capabilities: provider.capabilities
+    }));
+    const image = getImageProviderStatus();
+
+    return NextResponse.json({
+      llm,
+      image,
+      defaults: {
+        llm: available.length > 0 ? getDefaultProvider() : null,
+        image: image.find(provider => provider.available)?.name || null
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching providers:", error);
+    return NextResponse.json({ error: "Failed to fetch providers" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LessonTracer } from "@/lib/tracing";
+
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/traces/costs?days=30
+ * Token and cost totals of LLM calls per lesson, per provider and per day
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '30');
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const summary = await LessonTracer.getCostSummary(days);
+    if (!summary) {
+      return NextResponse.json({ error: "Failed to fetch trace costs" }, { status: 500 });
+    }
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error("Error fetching trace costs:", error);
+    return NextResponse.json({ error: "Failed to fetch trace costs" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ThemeSwitcher } from "@/components/theme-switcher";
+import { CourseLessonsEditor } from "@/components/course-editor";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getCourse } from "@/lib/courses";
+
+export const dynamic = "force-dynamic";
+
+interface CoursePageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function CoursePage({ params }: CoursePageProps) {
+  const { id } = await params;
+
+  const course = await getCourse(id);
+  if (!course) {
+    notFound();
+  }
+
+  // Lessons that can still be added to the course
+  const supabase = createServiceClient();
+  const { data: lessons } = await supabase
+    .from('lessons')
+    .select('id, title')
+    .order('created_at', { ascending: false });
+  const courseLessonIds = new Set(course.lessons.map(lesson => lesson.id));
+  const availableLessons = (lessons || []).filter(lesson => !courseLessonIds.has(lesson.id));
+
+  return (
+    <main className="min-h-screen flex flex-col items-center">
+      <nav className="w-full flex justify-center border-b border-b-foreground/10 h-16">
+        <div className="w-full max-w-5xl flex justify-between items-center p-3 px-5 text-sm">
+          <div className="flex gap-5 items-center font-semibold">
+            <Link href={"/"}>
+              <Badge className="lesson-ai-badge">Lesson AI</Badge>
+            </Link>
+            <Link href={"/courses"} className="hover:underline">Courses</Link>
+          </div>
+          <ThemeSwitcher />
+        </div>
+      </nav>
+
+      <div className="flex-1 w-full max-w-4xl p-5">
+        <Card>
+          <CardHeader>
+            <CardTitle>{course.title}</CardTitle>
+            {course.description && (
+              <p className="text-muted-foreground">{course.description}</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <CourseLessonsEditor
+              courseId={course.id}
+              lessons={course.lessons}
+              availableLessons={availableLessons}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ThemeSwitcher } from "@/components/theme-switcher";
+import { CreateCourseForm } from "@/components/course-editor";
+import { listCourses } from "@/lib/courses";
+
+export const dynamic = "force-dynamic";
+
+export default async function CoursesPage() {
+  const courses = await listCourses();
+
+  return (
+    <main className="min-h-screen flex flex-col items-center">
+      <nav className="w-full flex justify-center border-b border-b-foreground/10 h-16">
+        <div className="w-full max-w-5xl flex justify-between items-center p-3 px-5 text-sm">
+          <div className="flex gap-5 items-center font-semibold">
+            <Link href={"/"}>
+              <Badge className="lesson-ai-badge">Lesson AI</Badge>
+            </Link>
+            <Link href={"/courses"} className="hover:underline">Courses</Link>
+          </div>
+          <ThemeSwitcher />
+        </div>
+      </nav>
+
+      <div className="flex-1 w-full max-w-4xl p-5 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Courses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {courses.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No courses yet. Create one below to group lessons in order.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {courses.map(course => (
+                  <li key={course.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <Link href={`/courses/${course.id}`} className="font-medium hover:underline">
+                        {course.title}
+                      </Link>
+                      {course.description && (
+                        <p className="text-sm text-muted-foreground">{course.description}</p>
+                      )}
+                    </div>
+                    <Badge variant="outline">
+                      {course.lesson_count} {course.lesson_count === 1 ? "lesson" : "lessons"}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Course</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CreateCourseForm />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -4,7 +4,13 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ThemeSwitcher } from "@/components/theme-switcher";
 import { ClientLessonRenderer } from "@/components/client-lesson-renderer";
+import { LessonGenerationProgressCard, RetryLessonButton } from "@/components/lesson-progress";
+import { CourseNavigationBar } from "@/components/course-navigation";
+import { LessonTranslationSwitcher } from "@/components/lesson-translations";
 import { createServiceClient } from "@/lib/supabase/server";
+import { getCourseNavigation } from "@/lib/courses";
+import { getLessonTranslations } from "@/lib/lesson-translations";
+import { LESSON_ERROR_LABELS, type LessonErrorCode } from "@/lib/lesson-errors";
 import { notFound } from "next/navigation";
 
 interface LessonViewPageProps {
@@ -29,6 +35,12 @@ export default async function LessonViewPage({ params }: LessonViewPageProps) {
     notFound();
   }
 
+  // Previous/next lessons of the courses this lesson belongs to
+  const courseNavigation = await getCourseNavigation(id);
+
+  // The original lesson and its translations, for switching languages
+  const translations = await getLessonTranslations(id);
+
   // For now, we'll hardcode admin status - you can implement proper auth later
   const isAdmin = false;
 
@@ -46,24 +58,40 @@ export default async function LessonViewPage({ params }: LessonViewPageProps) {
       </nav>
       
       <div className="flex-1 w-full max-w-4xl p-5">
+        <CourseNavigationBar navigation={courseNavigation} />
+        <LessonTranslationSwitcher lessonId={id} translations={translations} />
 
         {lesson.status === "generating" && (
-          <Card className="mb-6">
+          <LessonGenerationProgressCard lessonId={id} />
+        )}
+
+        {lesson.status === "error" && (
+          <Card className="mb-6 border-red-200">
             <CardContent className="pt-6">
               <div className="text-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                <p className="text-gray-600">Your lesson is being generated. Please wait...</p>
+                <h3 className="text-lg font-semibold text-red-600 mb-2">Generation Failed</h3>
+                <p className="text-gray-600">
+                  {lesson.error_code
+                    ? LESSON_ERROR_LABELS[lesson.error_code as LessonErrorCode] || LESSON_ERROR_LABELS.unknown
+                    : "There was an error generating your lesson."}
+                </p>
+                {lesson.error_message && (
+                  <p className="text-sm text-gray-500 mt-2 break-words">{lesson.error_message}</p>
+                )}
+                <div className="mt-4 flex justify-center">
+                  <RetryLessonButton lessonId={id} />
+                </div>
               </div>
             </CardContent>
           </Card>
         )}
 
-        {lesson.status === "error" && (
-          <Card className="mb-6 border-red-200">
+        {lesson.status === "cancelled" && (
+          <Card className="mb-6">
             <CardContent className="pt-6">
               <div className="text-center">
-                <h3 className="text-lg font-semibold text-red-600 mb-2">Generation Failed</h3>
-                <p className="text-gray-600">There was an error generating your lesson. Please try again.</p>
+                <h3 className="text-lg font-semibold mb-2">Generation Cancelled</h3>
+                <p className="text-gray-600">This lesson was cancelled before it finished. You can regenerate it from the lessons list.</p>
               </div>
             </CardContent>
           </Card>
@@ -101,6 +129,10 @@ export default async function LessonViewPage({ params }: LessonViewPageProps) {
               lessonId={id}
               isAdmin={isAdmin}
             />
+
+            <div className="mt-8">
+              <CourseNavigationBar navigation={courseNavigation} />
+            </div>
           </>
         )}
       </div>
@@ -15,7 +15,7 @@ export default async function Home() {
   const supabase = createServiceClient();
   const { data: lessons, error } = await supabase
     .from('lessons')
-    .select('*')
+    .select('*, batch:lesson_batches(id, title)')
     .order('created_at', { ascending: false });
 
   
@@ -31,6 +31,7 @@ export default async function Home() {
               <Link href={"/"}>
                 <Badge className="lesson-ai-badge">Lesson AI</Badge>
               </Link>
+              <Link href={"/courses"} className="hover:underline">Courses</Link>
             </div>
             <div className="flex items-center gap-4">
               <ThemeSwitcher />
@@ -4,18 +4,30 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { LessonTrace } from "@/lib/tracing";
+import { LessonTrace, type TraceCostSummary } from "@/lib/tracing";
 
 export default function TracesPage() {
   const [traces, setTraces] = useState<LessonTrace[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTrace, setSelectedTrace] = useState<LessonTrace | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [costs, setCosts] = useState<TraceCostSummary | null>(null);
 
   useEffect(() => {
     fetchTraces();
+    fetchCosts();
   }, []);
 
+  const fetchCosts = async () => {
+    try {
+      const response = await fetch('/api/traces/costs');
+      const data = await response.json();
+      setCosts(data.summary || null);
+    } catch (error) {
+      console.error('Error fetching trace costs:', error);
+    }
+  };
+
   const fetchTraces = async () => {
     try {
       const response = await fetch('/api/traces');
@@ -63,6 +75,7 @@ export default function TracesPage() {
       if (response.ok) {
         setTraces([]);
         setSelectedTrace(null);
+        fetchCosts();
       } else {
         console.error('Failed to delete all traces');
       }
@@ -76,6 +89,12 @@ export default function TracesPage() {
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
+  const formatCost = (cost: number | null | undefined) => {
+    if (cost == null) return 'N/A';
+    if (cost > 0 && cost < 0.0001) return '<$0.0001';
+    return `$${cost.toFixed(4)}`;
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -104,7 +123,7 @@ export default function TracesPage() {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Lesson Generation Traces</h1>
         <div className="space-x-2">
-          <Button onClick={fetchTraces} variant="outline">
+          <Button onClick={() => { fetchTraces(); fetchCosts(); }} variant="outline">
             Refresh
           </Button>
           <Button 
@@ -117,6 +136,56 @@ export default function TracesPage() {
         </div>
       </div>
 
+      {/* Cost Summary */}
+      {costs && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Cost Since {new Date(costs.since).toLocaleDateString()}: {formatCost(costs.total.cost_usd)}
+              <span className="text-sm font-normal text-gray-500 ml-2">
+                {costs.total.tokens.toLocaleString()} tokens in {costs.total.calls} LLM call(s)
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+            <div>
+              <h3 className="font-semibold mb-2">Per Lesson</h3>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {costs.byLesson.length === 0 && <div className="text-gray-500">No LLM calls</div>}
+                {costs.byLesson.map(lesson => (
+                  <div key={lesson.lesson_id} className="flex justify-between gap-2">
+                    <span className="truncate" title={lesson.lesson_id}>{lesson.lesson_title || lesson.lesson_id}</span>
+                    <span className="text-gray-600 whitespace-nowrap">{formatCost(lesson.cost_usd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="font-semibold mb-2">Per Provider</h3>
+              <div className="space-y-1">
+                {costs.byProvider.map(provider => (
+                  <div key={provider.provider} className="flex justify-between gap-2">
+                    <span>{provider.provider} <span className="text-gray-500">({provider.tokens.toLocaleString()} tokens)</span></span>
+                    <span className="text-gray-600 whitespace-nowrap">{formatCost(provider.cost_usd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="font-semibold mb-2">Per Day</h3>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {costs.byDay.map(day => (
+                  <div key={day.day} className="flex justify-between gap-2">
+                    <span>{day.day} <span className="text-gray-500">({day.calls} call(s))</span></span>
+                    <span className="text-gray-600 whitespace-nowrap">{formatCost(day.cost_usd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Traces List */}
         <div>
@@ -166,6 +235,9 @@ export default function TracesPage() {
                       {trace.total_duration_ms && (
                         <div>Duration: {formatDuration(trace.total_duration_ms)}</div>
                       )}
+                      {!!trace.total_tokens && (
+                        <div>Tokens: {trace.total_tokens.toLocaleString()} · Cost: {formatCost(trace.total_cost_usd)}</div>
+                      )}
                     </div>
                     
                     <div className="text-sm">
@@ -213,6 +285,8 @@ export default function TracesPage() {
                   {selectedTrace.total_duration_ms && (
                     <div><strong>Total Duration:</strong> {formatDuration(selectedTrace.total_duration_ms)}</div>
                   )}
+                  <div><strong>Total Tokens:</strong> {(selectedTrace.total_tokens || 0).toLocaleString()}</div>
+                  <div><strong>Total Cost:</strong> {formatCost(selectedTrace.total_cost_usd)}</div>
                 </CardContent>
               </Card>
 
@@ -242,6 +316,57 @@ export default function TracesPage() {
                 </Card>
               )}
 
+              {/* Ensemble */}
+              {selectedTrace.ensemble && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Ensemble ({selectedTrace.ensemble.candidates.length} candidates)</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="text-sm">
+                      <strong>Judge:</strong> {selectedTrace.ensemble.judge_provider || 'N/A'}
+                      {selectedTrace.ensemble.judge_error && (
+                        <span className="text-amber-700"> · Judging failed, kept the first candidate: {selectedTrace.ensemble.judge_error}</span>
+                      )}
+                    </div>
+                    {selectedTrace.ensemble.candidates.map(candidate => (
+                      <div key={candidate.label} className="border rounded p-4">
+                        <div className="flex justify-between items-center mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Badge variant="outline">{candidate.label}</Badge>
+                            <Badge variant="outline">{candidate.provider}</Badge>
+                            {candidate.model && <Badge variant="secondary">{candidate.model}</Badge>}
+                            {candidate.label === selectedTrace.ensemble?.winner && (
+                              <Badge className="bg-green-100 text-green-800">Kept</Badge>
+                            )}
+                          </div>
+                          {candidate.score && (
+                            <div className="text-sm text-gray-500">Total {candidate.score.total}</div>
+                          )}
+                        </div>
+
+                        <div className="text-sm space-y-2">
+                          {candidate.title && <div><strong>Title:</strong> {candidate.title}</div>}
+                          {candidate.score && (
+                            <div className="flex flex-wrap gap-2">
+                              {Object.entries(candidate.score.scores).map(([criterion, score]) => (
+                                <Badge key={criterion} variant="secondary">{criterion.replace(/_/g, ' ')}: {score}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          {candidate.score?.rationale && <div className="text-gray-600">{candidate.score.rationale}</div>}
+                          {candidate.error && (
+                            <div className="text-red-600">
+                              <strong>Error:</strong> {candidate.error}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* LLM Calls */}
               {selectedTrace.llm_calls && selectedTrace.llm_calls.length > 0 && (
                 <Card>
@@ -254,11 +379,14 @@ export default function TracesPage() {
                         <div className="flex justify-between items-center mb-2">
                           <div className="flex items-center space-x-2">
                             <Badge variant="outline">{call.provider}</Badge>
+                            {call.request.model && <Badge variant="secondary">{call.request.model}</Badge>}
+                            {call.attempt && call.attempt > 1 && <Badge variant="outline">Attempt {call.attempt}</Badge>}
                             <Badge className={call.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
                               {call.success ? 'Success' : 'Failed'}
                             </Badge>
                           </div>
                           <div className="text-sm text-gray-500">
+                            {call.response?.usage && `${call.response.usage.total_tokens.toLocaleString()} tokens · ${formatCost(call.cost_usd)} · `}
                             {formatDuration(call.duration_ms)}
                           </div>
                         </div>
@@ -283,6 +411,12 @@ export default function TracesPage() {
                               <strong>Error:</strong> {call.error}
                             </div>
                           )}
+
+                          {call.validation_errors && call.validation_errors.length > 0 && (
+                            <div className="text-amber-700">
+                              <strong>Invalid lesson JSON:</strong> {call.validation_errors.join('; ')}
+                            </div>
+                          )}
                           
                           <div className="text-gray-500 text-xs">
                             Timestamp: {formatDate(call.timestamp)}
@@ -1,9 +1,11 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { LessonGenerationForm } from "@/components/lesson-generation-form";
 // Removed useRouter - no page refreshes needed
 import { Lesson } from "@/components/lessons-table";
+import { type LessonLanguage } from "@/lib/llm/languages";
 
 interface LessonGenerationOptions {
   outline: string;
@@ -12,6 +14,19 @@ interface LessonGenerationOptions {
   learningStyle: 'reading and visual' | 'reading';
   includeExamples: boolean;
   includeExercises: boolean;
+  language: LessonLanguage;
+  unit: boolean;
+  lessonCount?: number;
+  provider?: string;
+  imageProvider?: string;
+  ensemble?: boolean;
+}
+
+// An already generated lesson for the same outline and settings (409 from POST /api/lessons)
+interface DuplicateLesson {
+  id: string;
+  title: string;
+  created_at: string;
 }
 
 interface ClientLessonGenerationFormProps {
@@ -19,27 +34,59 @@ interface ClientLessonGenerationFormProps {
   onLessonsUpdate?: (lessons: Lesson[]) => void;
 }
 
+/**
+ * Explain a 429 from lesson creation: what the limit is and when the user can try again
+ */
+function describeRateLimit(data: { limit?: number; windowSeconds?: number; retryAfter?: number }, retryAfterHeader: string | null): string {
+  const retryAfter = data.retryAfter || parseInt(retryAfterHeader || '0');
+  const minutes = Math.max(Math.ceil(retryAfter / 60), 1);
+  const windowMinutes = Math.ceil((data.windowSeconds || 3600) / 60);
+  const hours = windowMinutes / 60;
+  const period = Number.isInteger(hours) ? (hours === 1 ? 'hour' : `${hours} hours`) : `${windowMinutes} minutes`;
+
+  return `You've reached the limit of ${data.limit ?? 'allowed'} lessons per ${period}, which keeps generation costs in check. ` +
+    `You can create more in about ${minutes === 1 ? 'a minute' : `${minutes} minutes`}.`;
+}
+
 export function ClientLessonGenerationForm({ onOptimisticLessonAdded, onLessonsUpdate }: ClientLessonGenerationFormProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [duplicate, setDuplicate] = useState<{ lesson: DuplicateLesson; options: LessonGenerationOptions } | null>(null);
   // Removed router - no page refreshes needed
 
-  const handleGenerateLesson = async (options: LessonGenerationOptions) => {
+  /**
+   * @param reuse `force` generates even if the same lesson exists, `cloneFrom` copies that lesson instead
+   */
+  const handleGenerateLesson = async (options: LessonGenerationOptions, reuse: { force?: boolean; cloneFrom?: string } = {}) => {
     setIsGenerating(true);
+    setNotice(null);
+    setDuplicate(null);
     try {
-      const response = await fetch("/api/lessons", {
+      const { unit, lessonCount, ...lessonOptions } = options;
+      // A unit is split into several lessons that are generated as one batch
+      const response = await fetch(unit ? "/api/lessons/batch" : "/api/lessons", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(options),
+        body: JSON.stringify(unit
+          ? { ...lessonOptions, unitOutline: lessonOptions.outline, lessonCount }
+          : { ...lessonOptions, ...reuse }),
       });
 
       if (response.ok) {
         const data = await response.json();
+        const createdLessons: Lesson[] = unit ? data.lessons : [data.lesson];
         
-        // Immediately add the lesson optimistically to the table
+        // Immediately add the lessons optimistically to the table, first lesson on top
         if (onOptimisticLessonAdded) {
-          onOptimisticLessonAdded(data.lesson);
+          [...createdLessons].reverse().forEach(lesson => onOptimisticLessonAdded(lesson));
+        }
+
+        // A copy is ready straight away - nothing to wait for
+        if (reuse.cloneFrom) {
+          setIsGenerating(false);
+          return;
         }
         
         // Poll for updates every 2 seconds until generation is complete
@@ -56,9 +103,11 @@ export function ClientLessonGenerationForm({ onOptimisticLessonAdded, onLessonsU
                 onLessonsUpdate(updatedLessons);
               }
               
-              // Check if the lesson is still generating
-              const currentLesson = updatedLessons.find((l: any) => l.id === data.lesson.id);
-              if (currentLesson && currentLesson.status === "generating") {
+              // Check if any of the new lessons is still generating
+              const stillGenerating = updatedLessons.some((l: Lesson) =>
+                l.status === "generating" && createdLessons.some(created => created.id === l.id)
+              );
+              if (stillGenerating) {
                 setTimeout(pollForUpdates, 2000);
               } else {
                 setIsGenerating(false);
@@ -74,6 +123,16 @@ export function ClientLessonGenerationForm({ onOptimisticLessonAdded, onLessonsU
         };
         
         setTimeout(pollForUpdates, 2000);
+      } else if (response.status === 409) {
+        const data = await response.json().catch(() => ({}));
+        if (data.duplicate) {
+          setDuplicate({ lesson: data.duplicate, options });
+        }
+        setIsGenerating(false);
+      } else if (response.status === 429) {
+        const data = await response.json().catch(() => ({}));
+        setNotice(describeRateLimit(data, response.headers.get("Retry-After")));
+        setIsGenerating(false);
       } else {
         console.error("Error generating lesson");
         setIsGenerating(false);
@@ -88,6 +147,28 @@ export function ClientLessonGenerationForm({ onOptimisticLessonAdded, onLessonsU
     <LessonGenerationForm 
       onGenerate={handleGenerateLesson}
       isGenerating={isGenerating}
+      notice={duplicate ? (
+        <span>
+          You already have a lesson for this outline with the same settings:{" "}
+          <Link href={`/lessons/${duplicate.lesson.id}`} className="underline">{duplicate.lesson.title}</Link>{" "}
+          ({new Date(duplicate.lesson.created_at).toLocaleDateString()}).{" "}
+          <button
+            type="button"
+            className="underline font-medium"
+            onClick={() => handleGenerateLesson(duplicate.options, { cloneFrom: duplicate.lesson.id })}
+          >
+            Use a copy
+          </button>
+          {" or "}
+          <button
+            type="button"
+            className="underline font-medium"
+            onClick={() => handleGenerateLesson(duplicate.options, { force: true })}
+          >
+            generate a new one
+          </button>
+        </span>
+      ) : notice}
     />
   );
 }
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { CourseLesson } from "@/lib/courses";
+
+/**
+ * Form on the courses page that creates a course and opens it
+ */
+export function CreateCourseForm() {
+  const router = useRouter();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/courses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, description }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create course");
+      }
+
+      const data = await response.json();
+      router.push(`/courses/${data.course.id}`);
+    } catch (error) {
+      console.error("Error creating course:", error);
+      alert("Failed to create course. Please try again.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Course title (e.g., 'Grade 4 Fractions')"
+        className="rounded-md border px-3 py-2 bg-background"
+        disabled={isSaving}
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What the course covers (optional)"
+        className="rounded-md border px-3 py-2 bg-background min-h-20"
+        disabled={isSaving}
+      />
+      <div>
+        <Button type="submit" disabled={!title.trim() || isSaving}>
+          {isSaving ? "Creating..." : "Create Course"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CourseLessonsEditorProps {
+  courseId: string;
+  lessons: CourseLesson[];
+  availableLessons: { id: string; title: string }[]; // Lessons not yet in the course
+}
+
+/**
+ * Ordered lesson list of a course with reordering, removal, adding existing
+ * lessons and generating the next lesson with the course as context
+ */
+export function CourseLessonsEditor({ courseId, lessons, availableLessons }: CourseLessonsEditorProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedLessonId, setSelectedLessonId] = useState("");
+  const [outline, setOutline] = useState("");
+
+  const run = async (action: () => Promise<Response>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const response = await action();
+      if (!response.ok) {
+        throw new Error(failure);
+      }
+      router.refresh();
+    } catch (error) {
+      console.error(failure, error);
+      alert(`${failure}. Please try again.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const moveLesson = (index: number, offset: number) => {
+    const lessonIds = lessons.map(lesson => lesson.id);
+    const [moved] = lessonIds.splice(index, 1);
+    lessonIds.splice(index + offset, 0, moved);
+
+    return run(() => fetch(`/api/courses/${courseId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ lessonIds }),
+    }), "Failed to reorder lessons");
+  };
+
+  const removeLesson = (lessonId: string) => run(
+    () => fetch(`/api/courses/${courseId}/lessons/${lessonId}`, { method: "DELETE" }),
+    "Failed to remove lesson"
+  );
+
+  const addLesson = async () => {
+    if (!selectedLessonId) return;
+    await run(() => fetch(`/api/courses/${courseId}/lessons`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ lessonId: selectedLessonId }),
+    }), "Failed to add lesson");
+    setSelectedLessonId("");
+  };
+
+  const generateLesson = async () => {
+    if (!outline.trim()) return;
+    await run(() => fetch("/api/lessons", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ outline: outline.trim(), courseId }),
+    }), "Failed to generate lesson");
+    setOutline("");
+  };
+
+  return (
+    <div className="space-y-6">
+      {lessons.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">
+          No lessons in this course yet. Add an existing lesson or generate one below.
+        </p>
+      ) : (
+        <ol className="divide-y rounded-md border">
+          {lessons.map((lesson, index) => (
+            <li key={lesson.id} className="flex items-center justify-between gap-2 p-3">
+              <div className="flex items-center gap-3">
+                <span className="text-muted-foreground w-6 text-right">{lesson.position}.</span>
+                {lesson.status === "generated" ? (
+                  <Link href={`/lessons/${lesson.id}`} className="font-medium hover:underline">{lesson.title}</Link>
+                ) : (
+                  <span className="font-medium">{lesson.title}</span>
+                )}
+                {lesson.status === "generating" && <Badge variant="secondary">Generating</Badge>}
+                {lesson.status === "error" && <Badge variant="destructive">Error</Badge>}
+                {lesson.status === "cancelled" && <Badge variant="outline">Cancelled</Badge>}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button size="sm" variant="outline" onClick={() => moveLesson(index, -1)} disabled={isSaving || index === 0} aria-label="Move up">
+                  ↑
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => moveLesson(index, 1)} disabled={isSaving || index === lessons.length - 1} aria-label="Move down">
+                  ↓
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => removeLesson(lesson.id)}
+                  disabled={isSaving}
+                  className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                >
+                  Remove
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedLessonId}
+          onChange={(e) => setSelectedLessonId(e.target.value)}
+          className="rounded-md border px-3 py-2 bg-background flex-1"
+          disabled={isSaving || availableLessons.length === 0}
+        >
+          <option value="">{availableLessons.length === 0 ? "No other lessons available" : "Add an existing lesson..."}</option>
+          {availableLessons.map(lesson => (
+            <option key={lesson.id} value={lesson.id}>{lesson.title}</option>
+          ))}
+        </select>
+        <Button variant="outline" onClick={addLesson} disabled={isSaving || !selectedLessonId}>
+          Add Lesson
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <textarea
+          value={outline}
+          onChange={(e) => setOutline(e.target.value)}
+          placeholder="Outline of the next lesson - it is written to build on the lessons above"
+          className="rounded-md border px-3 py-2 bg-background min-h-20"
+          disabled={isSaving}
+        />
+        <div>
+          <Button onClick={generateLesson} disabled={isSaving || !outline.trim()}>
+            Generate Next Lesson
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { type CourseNavigation } from "@/lib/courses";
+
+/**
+ * Previous/next links for a lesson, one row per course it belongs to
+ */
+export function CourseNavigationBar({ navigation }: { navigation: CourseNavigation[] }) {
+  if (navigation.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-6">
+      {navigation.map(({ course, position, total, previous, next }) => (
+        <nav
+          key={course.id}
+          aria-label={`Lessons in ${course.title}`}
+          className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm"
+        >
+          <div className="flex-1">
+            {previous && (
+              <Button size="sm" variant="outline" asChild>
+                <Link href={`/lessons/${previous.id}`}>← {previous.title}</Link>
+              </Button>
+            )}
+          </div>
+          <Link href={`/courses/${course.id}`} className="text-muted-foreground hover:underline text-center">
+            {course.title} · Lesson {position} of {total}
+          </Link>
+          <div className="flex-1 flex justify-end">
+            {next && (
+              <Button size="sm" variant="outline" asChild>
+                <Link href={`/lessons/${next.id}`}>{next.title} →</Link>
+              </Button>
+            )}
+          </div>
+        </nav>
+      ))}
+    </div>
+  );
+}
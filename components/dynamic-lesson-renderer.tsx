@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { type LessonStructure, type LessonSection, type LessonMedia } from '@/lib/lesson-typescript-generator';
+import { getTextDirection } from '@/lib/llm/languages';
 
 interface DynamicLessonRendererProps {
   lessonId: string;
@@ -199,7 +200,8 @@ export function DynamicLessonRenderer({
                 </h4>
               </div>
             )}
-            <pre className="bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-6 rounded-lg overflow-x-auto border border-gray-200 dark:border-gray-700">
+            {/* Code reads left-to-right even inside right-to-left lessons */}
+            <pre dir="ltr" className="bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-6 rounded-lg overflow-x-auto border border-gray-200 dark:border-gray-700">
               <code className={`language-${section.metadata?.language || 'plaintext'}`}>
                 {section.content}
               </code>
@@ -228,7 +230,7 @@ export function DynamicLessonRenderer({
       case 'callout':
         return (
           <div key={section.id} className="lesson-section callout-section">
-            <div className="bg-gray-50 dark:bg-gray-800/30 border-l-2 border-gray-300 dark:border-gray-600 p-6 rounded-lg">
+            <div className="bg-gray-50 dark:bg-gray-800/30 border-s-2 border-gray-300 dark:border-gray-600 p-6 rounded-lg">
               {section.title && (
                 <div className="section-heading-bounding-box mb-4">
                   <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100">
@@ -378,9 +380,13 @@ export function DynamicLessonRenderer({
     );
   }
 
+  // Lessons in right-to-left languages (e.g. Arabic) are laid out right-to-left
+  const language = lessonStructure.metadata.language || 'en';
+  const direction = lessonStructure.metadata.direction || getTextDirection(language);
+
   return (
     <div className="lesson-page-gradient-wrapper">
-      <div className="lesson-container max-w-4xl mx-auto px-4 py-8">
+      <div className="lesson-container max-w-4xl mx-auto px-4 py-8" dir={direction} lang={language}>
         {/* Outer Bounding Box for Entire Lesson */}
         <div className={`lesson-outer-bounding-box ${contentLoaded ? 'animate-border' : ''}`}>
           {contentLoaded && (
@@ -1,12 +1,14 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { ArrowUp } from "lucide-react";
 import { logError, logUserAction } from "@/lib/sentry";
+import { DEFAULT_LESSON_LANGUAGE, LESSON_LANGUAGES, type LessonLanguage } from "@/lib/llm/languages";
 
 interface LessonGenerationFormProps {
   onGenerate: (options: LessonGenerationOptions) => void;
   isGenerating: boolean;
+  notice?: React.ReactNode; // Shown under the form, e.g. why the last request was refused
 }
 
 interface LessonGenerationOptions {
@@ -16,15 +18,55 @@ interface LessonGenerationOptions {
   learningStyle: 'reading and visual' | 'reading';
   includeExamples: boolean;
   includeExercises: boolean;
+  language: LessonLanguage;
+  unit: boolean; // Outline describes a whole unit to split into several lessons
+  lessonCount?: number; // Lessons in the unit, chosen by the LLM when omitted
+  provider?: string; // LLM provider to try first, the default when omitted
+  imageProvider?: string; // Image provider to try first, the default when omitted
+  ensemble: boolean; // Several providers write the lesson and a judge keeps the best
 }
 
-export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerationFormProps) {
+// A provider as listed by GET /api/providers
+interface ProviderOption {
+  name: string;
+  model?: string;
+  available: boolean;
+}
+
+export function LessonGenerationForm({ onGenerate, isGenerating, notice }: LessonGenerationFormProps) {
   const [outline, setOutline] = useState("");
   const [gradeLevel, setGradeLevel] = useState<'2' | '3' | '4' | '5' | '6' | '7' | '8'>('2');
   const [sections, setSections] = useState(4);
   const [learningStyle, setLearningStyle] = useState<'reading and visual' | 'reading'>('reading');
   const [includeExamples, setIncludeExamples] = useState(true);
   const [includeExercises, setIncludeExercises] = useState(true);
+  const [language, setLanguage] = useState<LessonLanguage>(DEFAULT_LESSON_LANGUAGE);
+  const [unit, setUnit] = useState(false);
+  const [lessonCount, setLessonCount] = useState<number | undefined>(undefined);
+  const [provider, setProvider] = useState(""); // Empty for the default provider
+  const [imageProvider, setImageProvider] = useState("");
+  const [ensemble, setEnsemble] = useState(false);
+  const [llmProviders, setLlmProviders] = useState<ProviderOption[]>([]);
+  const [imageProviders, setImageProviders] = useState<ProviderOption[]>([]);
+
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const response = await fetch("/api/providers");
+        if (response.ok) {
+          const data = await response.json();
+          setLlmProviders(data.llm || []);
+          setImageProviders(data.image || []);
+        }
+      } catch (error) {
+        console.error('Error fetching providers:', error);
+      }
+    };
+    fetchProviders();
+  }, []);
+
+  // Images are only generated for visual lessons
+  const visual = learningStyle === 'reading and visual';
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,7 +78,13 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
           sections,
           learningStyle,
           includeExamples,
-          includeExercises
+          includeExercises,
+          language,
+          unit,
+          lessonCount,
+          provider,
+          imageProvider,
+          ensemble
         });
         
         onGenerate({
@@ -45,7 +93,13 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
           sections,
           learningStyle,
           includeExamples,
-          includeExercises
+          includeExercises,
+          language,
+          unit,
+          lessonCount: unit ? lessonCount : undefined,
+          provider: provider || undefined,
+          imageProvider: visual && imageProvider ? imageProvider : undefined,
+          ensemble
         });
         setOutline("");
       }
@@ -68,7 +122,9 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
             id="outline"
             value={outline}
             onChange={(e) => setOutline(e.target.value)}
-            placeholder="What would you like to learn about? (e.g., 'A one-pager on how to divide with long division')"
+            placeholder={unit
+              ? "Paste a unit outline and it will be split into lessons (e.g., 'Fractions: what a fraction is, equivalent fractions, comparing, adding and subtracting')"
+              : "What would you like to learn about? (e.g., 'A one-pager on how to divide with long division')"}
             className="integrated-textarea"
             disabled={isGenerating}
           />
@@ -128,6 +184,87 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
               </select>
             </div>
 
+            {/* Language Dropdown */}
+            <div className="flex items-center gap-1">
+              <label htmlFor="language" className="inline-label">Language:</label>
+              <select
+                id="language"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as LessonLanguage)}
+                className="inline-select"
+                disabled={isGenerating}
+              >
+                {Object.values(LESSON_LANGUAGES).map(option => (
+                  <option key={option.code} value={option.code}>{option.nativeName}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* LLM Provider Dropdown - unconfigured providers are listed but can't be picked */}
+            {llmProviders.length > 0 && (
+              <div className="flex items-center gap-1">
+                <label htmlFor="provider" className="inline-label">Model:</label>
+                <select
+                  id="provider"
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value)}
+                  className="inline-select"
+                  disabled={isGenerating}
+                >
+                  <option value="">Auto</option>
+                  {llmProviders.map(option => (
+                    <option key={option.name} value={option.name} disabled={!option.available} title={option.model}>
+                      {option.name}{option.available ? '' : ' (not configured)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Image Provider Dropdown - only for visual lessons */}
+            {visual && imageProviders.length > 0 && (
+              <div className="flex items-center gap-1">
+                <label htmlFor="imageProvider" className="inline-label">Images:</label>
+                <select
+                  id="imageProvider"
+                  value={imageProvider}
+                  onChange={(e) => setImageProvider(e.target.value)}
+                  className="inline-select"
+                  disabled={isGenerating}
+                >
+                  <option value="">Auto</option>
+                  {imageProviders.map(option => (
+                    <option key={option.name} value={option.name} disabled={!option.available}>
+                      {option.name}{option.available ? '' : ' (not configured)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Lessons per unit - only when splitting a unit */}
+            {unit && (
+              <div className="flex items-center gap-1">
+                <label htmlFor="lessonCount" className="inline-label">Lessons:</label>
+                <select
+                  id="lessonCount"
+                  value={lessonCount ?? ""}
+                  onChange={(e) => setLessonCount(e.target.value ? Number(e.target.value) : undefined)}
+                  className="inline-select"
+                  disabled={isGenerating}
+                >
+                  <option value="">Auto</option>
+                  <option value="2">2</option>
+                  <option value="3">3</option>
+                  <option value="4">4</option>
+                  <option value="5">5</option>
+                  <option value="6">6</option>
+                  <option value="8">8</option>
+                  <option value="10">10</option>
+                </select>
+              </div>
+            )}
+
             {/* Toggle Text Labels - Inline (NOT right-aligned) */}
             <div className="toggle-text-group">
               <span
@@ -160,6 +297,37 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
               >
                 Exercises
               </span>
+              <span
+                className={`toggle-text-item ${unit ? 'active' : ''}`}
+                onClick={() => !isGenerating && setUnit(!unit)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if ((e.key === 'Enter' || e.key === ' ') && !isGenerating) {
+                    e.preventDefault();
+                    setUnit(!unit);
+                  }
+                }}
+                aria-label={`${unit ? 'Generate a single lesson' : 'Split into a unit of lessons'}`}
+              >
+                Unit
+              </span>
+              <span
+                className={`toggle-text-item ${ensemble ? 'active' : ''}`}
+                onClick={() => !isGenerating && setEnsemble(!ensemble)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if ((e.key === 'Enter' || e.key === ' ') && !isGenerating) {
+                    e.preventDefault();
+                    setEnsemble(!ensemble);
+                  }
+                }}
+                aria-label={`${ensemble ? 'Write with one provider' : 'Write with several providers and keep the best'}`}
+                title="Several providers write the lesson and a judge keeps the best one"
+              >
+                Best of
+              </span>
             </div>
 
             {/* Submit Arrow Button - Right corner */}
@@ -167,13 +335,18 @@ export function LessonGenerationForm({ onGenerate, isGenerating }: LessonGenerat
               type="submit"
               disabled={!outline.trim() || isGenerating}
               className="submit-arrow-button"
-              aria-label="Generate lesson"
+              aria-label={unit ? "Generate unit" : "Generate lesson"}
             >
               <ArrowUp className="submit-arrow-icon" />
             </button>
           </div>
         </div>
       </form>
+      {notice && (
+        <div className="mt-3 text-sm text-amber-700 dark:text-amber-400" role="alert">
+          {notice}
+        </div>
+      )}
     </div>
   );
 }
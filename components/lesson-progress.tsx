@@ -0,0 +1,341 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { type LessonEvent } from "@/lib/lesson-events";
+
+export interface LessonProgressState {
+  progress: number;
+  message: string;
+  done: boolean;
+  failed: boolean;
+  cancelled: boolean;
+  draft: string; // Markdown streamed by the LLM so far
+}
+
+export type LessonFinishedStatus = "generated" | "error" | "cancelled";
+
+const INITIAL_PROGRESS_STATE: LessonProgressState = {
+  progress: 0,
+  message: "Waiting for a worker",
+  done: false,
+  failed: false,
+  cancelled: false,
+  draft: "",
+};
+
+const PROGRESS_POLL_INTERVAL_MS = 3000;
+
+const FINISHED_STATUS: Partial<Record<LessonEvent["type"], LessonFinishedStatus>> = {
+  completed: "generated",
+  failed: "error",
+  cancelled: "cancelled",
+};
+
+// A new attempt or provider writes the lesson from scratch
+const DRAFT_RESET_EVENTS: LessonEvent["type"][] = ["queued", "started", "provider_fallback", "retrying"];
+
+/**
+ * Subscribe to the generation progress stream of a lesson
+ * @param onFinished Called once when the stream reports completion or failure
+ */
+export function useLessonProgress(
+  lessonId: string,
+  enabled: boolean = true,
+  onFinished?: (status: LessonFinishedStatus) => void
+): LessonProgressState {
+  const [state, setState] = useState<LessonProgressState>(INITIAL_PROGRESS_STATE);
+  // Read through a ref so a new callback identity doesn't reopen the stream
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource(`/api/lessons/${lessonId}/events`);
+
+    const handleEvent = (message: MessageEvent) => {
+      try {
+        const event = JSON.parse(message.data) as LessonEvent;
+
+        if (event.type === "content_delta") {
+          const { content, chunk } = (event.data || {}) as { content?: string; chunk?: string };
+          setState(previous => ({
+            ...previous,
+            draft: content !== undefined ? content : previous.draft + (chunk || ""),
+          }));
+          return;
+        }
+
+        const finishedStatus = FINISHED_STATUS[event.type];
+
+        setState(previous => ({
+          progress: event.progress,
+          message: event.message,
+          done: !!finishedStatus,
+          failed: event.type === "failed",
+          cancelled: event.type === "cancelled",
+          draft: DRAFT_RESET_EVENTS.includes(event.type) ? "" : previous.draft,
+        }));
+
+        if (finishedStatus) {
+          source.close();
+          onFinishedRef.current?.(finishedStatus);
+        }
+      } catch (error) {
+        console.error("Error parsing lesson progress event:", error);
+      }
+    };
+
+    // Every event is sent with a named type, so listen for each of them
+    const eventTypes: LessonEvent["type"][] = [
+      "queued", "started", "llm_started", "provider_fallback", "llm_completed", "markdown_parsed",
+      "images_started", "image_generated", "image_uploaded", "typescript_built", "retrying",
+      "completed", "failed", "cancelled", "content_delta",
+    ];
+    eventTypes.forEach(type => source.addEventListener(type, handleEvent));
+
+    return () => {
+      source.close();
+    };
+  }, [lessonId, enabled]);
+
+  return state;
+}
+
+interface LessonProgressSnapshot {
+  id: string;
+  status: "generating" | LessonFinishedStatus;
+  progress: number;
+  message: string;
+}
+
+/**
+ * Poll the progress of several lessons with one request per interval. Lists use this
+ * instead of useLessonProgress, whose stream per lesson would use up the browser's connections.
+ * @param onFinished Called once per lesson when it stops generating
+ */
+export function useLessonsProgress(
+  lessonIds: string[],
+  onFinished?: (lessonId: string, status: LessonFinishedStatus) => void
+): Record<string, LessonProgressState> {
+  const [states, setStates] = useState<Record<string, LessonProgressState>>({});
+  const onFinishedRef = useRef(onFinished);
+  const idsKey = lessonIds.join(",");
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    let stopped = false;
+    const finished = new Set<string>();
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/lessons/progress?ids=${encodeURIComponent(idsKey)}`, { cache: "no-store" });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch lesson progress: ${response.status}`);
+        }
+
+        const { lessons } = await response.json() as { lessons: LessonProgressSnapshot[] };
+        if (stopped) return;
+
+        setStates(previous => {
+          const next = { ...previous };
+          lessons.forEach(lesson => {
+            next[lesson.id] = {
+              progress: lesson.progress,
+              message: lesson.message,
+              done: lesson.status !== "generating",
+              failed: lesson.status === "error",
+              cancelled: lesson.status === "cancelled",
+              draft: "",
+            };
+          });
+          return next;
+        });
+
+        lessons.forEach(lesson => {
+          if (lesson.status !== "generating" && !finished.has(lesson.id)) {
+            finished.add(lesson.id);
+            onFinishedRef.current?.(lesson.id, lesson.status);
+          }
+        });
+      } catch (error) {
+        console.error("Error polling lesson progress:", error);
+      }
+    };
+
+    void poll();
+    const timer = setInterval(poll, PROGRESS_POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [idsKey]);
+
+  return Object.fromEntries(lessonIds.map(id => [id, states[id] || INITIAL_PROGRESS_STATE]));
+}
+
+interface LessonProgressBarProps {
+  lessonId: string;
+  onFinished?: (status: LessonFinishedStatus) => void;
+  showMessage?: boolean;
+  progressState?: LessonProgressState; // Render an existing subscription instead of opening a new one
+}
+
+export function LessonProgressBar({ lessonId, onFinished, showMessage = true, progressState }: LessonProgressBarProps) {
+  const ownState = useLessonProgress(lessonId, !progressState, onFinished);
+  const { progress, message, failed, cancelled } = progressState || ownState;
+
+  return (
+    <div className="w-full min-w-32">
+      <div
+        className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={progress}
+        aria-label="Lesson generation progress"
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${failed ? "bg-red-500" : cancelled ? "bg-gray-400" : "bg-blue-600"}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      {showMessage && (
+        <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+          <span className="truncate">{message}</span>
+          <span className="ml-2">{progress}%</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CancelLessonButtonProps {
+  lessonId: string;
+  onCancelled?: () => void;
+}
+
+export function CancelLessonButton({ lessonId, onCancelled }: CancelLessonButtonProps) {
+  const [cancelling, setCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/lessons/${lessonId}/cancel`, { method: "POST" });
+
+      // 409 means it finished in the meantime - the progress stream reports the outcome
+      if (!response.ok && response.status !== 409) {
+        throw new Error("Failed to cancel lesson");
+      }
+
+      onCancelled?.();
+    } catch (error) {
+      console.error("Error cancelling lesson:", error);
+      alert("Failed to cancel lesson. Please try again.");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleCancel}
+      disabled={cancelling}
+      className="text-red-600 hover:text-red-800 hover:bg-red-50"
+    >
+      {cancelling ? "Cancelling..." : "Cancel"}
+    </Button>
+  );
+}
+
+interface RetryLessonButtonProps {
+  lessonId: string;
+  onRetried?: () => void; // Defaults to refreshing the page
+}
+
+/**
+ * Re-queues a failed lesson with the options it was originally generated with
+ */
+export function RetryLessonButton({ lessonId, onRetried }: RetryLessonButtonProps) {
+  const router = useRouter();
+  const [retrying, setRetrying] = useState(false);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      const response = await fetch(`/api/lessons/${lessonId}/regenerate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to retry lesson");
+      }
+
+      if (onRetried) {
+        onRetried();
+      } else {
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("Error retrying lesson:", error);
+      alert("Failed to retry lesson. Please try again.");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleRetry} disabled={retrying}>
+      {retrying ? "Queueing..." : "Retry"}
+    </Button>
+  );
+}
+
+/**
+ * Progress card for the lesson page. Shows the markdown as the LLM writes it and
+ * refreshes the page once generation finishes, which swaps in the structured lesson.
+ */
+export function LessonGenerationProgressCard({ lessonId }: { lessonId: string }) {
+  const router = useRouter();
+  const progressState = useLessonProgress(lessonId, true, () => router.refresh());
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <p className="text-gray-600 mb-4 text-center">Your lesson is being generated. Please wait...</p>
+          <LessonProgressBar lessonId={lessonId} progressState={progressState} />
+          <div className="mt-4 flex justify-center">
+            <CancelLessonButton lessonId={lessonId} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {progressState.draft && (
+        <div className="prose prose-lg max-w-none dark:prose-invert opacity-90" dir="auto" aria-live="polite" aria-busy={!progressState.done}>
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>
+            {progressState.draft}
+          </ReactMarkdown>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { getLessonLanguage } from "@/lib/llm/languages";
+import { type LessonTranslation } from "@/lib/lesson-translations";
+
+/**
+ * Links to the other languages of a lesson. Hidden when the lesson has no translations.
+ */
+export function LessonTranslationSwitcher({ lessonId, translations }: { lessonId: string; translations: LessonTranslation[] }) {
+  if (translations.length < 2) {
+    return null;
+  }
+
+  return (
+    <nav aria-label="Translations" className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+      <span className="text-muted-foreground">Language:</span>
+      {translations.map(translation => {
+        const language = getLessonLanguage(translation.language);
+        const current = translation.id === lessonId;
+        return (
+          <Button
+            key={translation.id}
+            size="sm"
+            variant={current ? "default" : "outline"}
+            disabled={!current && translation.status !== "generated"}
+            asChild={!current && translation.status === "generated"}
+          >
+            {current || translation.status !== "generated" ? (
+              <span lang={language.code} aria-current={current ? "page" : undefined}>{language.nativeName}</span>
+            ) : (
+              <Link href={`/lessons/${translation.id}`} lang={language.code} hrefLang={language.code} title={translation.title}>
+                {language.nativeName}
+              </Link>
+            )}
+          </Button>
+        );
+      })}
+    </nav>
+  );
+}
@@ -5,14 +5,74 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { useState } from "react";
+import { CancelLessonButton, LessonProgressBar, useLessonsProgress } from "@/components/lesson-progress";
+import { LESSON_ERROR_LABELS, type LessonErrorCode } from "@/lib/lesson-errors";
+import { DEFAULT_LESSON_LANGUAGE, getLessonLanguage } from "@/lib/llm/languages";
 
 export interface Lesson {
   id: string;
   title: string;
-  status: "generating" | "generated" | "error";
+  status: "generating" | "generated" | "error" | "cancelled";
   outline: string;
   content?: string;
   created_at: string;
+  batch_id?: string | null;
+  batch_position?: number | null;
+  batch?: { id: string; title: string } | null;
+  generation_options?: LessonGenerationSettings | null;
+  provider_used?: string | null;
+  model_used?: string | null;
+  error_code?: LessonErrorCode | null;
+  error_message?: string | null;
+}
+
+export interface LessonGenerationSettings {
+  gradeLevel?: string;
+  sections?: number;
+  learningStyle?: "reading and visual" | "reading";
+  includeExamples?: boolean;
+  includeExercises?: boolean;
+  language?: string; // Missing for English lessons
+  provider?: string;
+}
+
+const GRADE_LEVELS = ["2", "3", "4", "5", "6", "7", "8"];
+const LEARNING_STYLE_LABELS: Record<NonNullable<LessonGenerationSettings["learningStyle"]>, string> = {
+  "reading": "Reading",
+  "reading and visual": "Reading & Visual",
+};
+
+type LessonRow =
+  | { kind: "lesson"; lesson: Lesson; inBatch: boolean }
+  | { kind: "batch"; id: string; title: string; lessons: Lesson[] };
+
+/**
+ * Lessons of a batch are listed together under their unit, in unit order,
+ * where the newest lesson of the batch would otherwise appear
+ */
+function groupLessonsByBatch(lessons: Lesson[]): LessonRow[] {
+  const rows: LessonRow[] = [];
+  const seenBatches = new Set<string>();
+
+  for (const lesson of lessons) {
+    if (!lesson.batch_id) {
+      rows.push({ kind: "lesson", lesson, inBatch: false });
+      continue;
+    }
+    if (seenBatches.has(lesson.batch_id)) {
+      continue;
+    }
+    seenBatches.add(lesson.batch_id);
+
+    const batchLessons = lessons
+      .filter(l => l.batch_id === lesson.batch_id)
+      .sort((a, b) => (a.batch_position || 0) - (b.batch_position || 0));
+
+    rows.push({ kind: "batch", id: lesson.batch_id, title: lesson.batch?.title || "Unit", lessons: batchLessons });
+    batchLessons.forEach(batchLesson => rows.push({ kind: "lesson", lesson: batchLesson, inBatch: true }));
+  }
+
+  return rows;
 }
 
 interface LessonsTableProps {
@@ -24,6 +84,42 @@ interface LessonsTableProps {
 export function LessonsTable({ lessons, onLessonDeleted, onLessonStatusUpdate }: LessonsTableProps) {
   const [deletingLessonId, setDeletingLessonId] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [regeneratingLessonId, setRegeneratingLessonId] = useState<string | null>(null);
+  const [gradeFilter, setGradeFilter] = useState("");
+  const [styleFilter, setStyleFilter] = useState("");
+
+  // One poll for every generating lesson rather than an event stream each
+  const progressStates = useLessonsProgress(
+    lessons.filter(lesson => lesson.status === "generating").map(lesson => lesson.id),
+    (lessonId, status) => onLessonStatusUpdate?.(lessonId, status)
+  );
+
+  const filteredLessons = lessons.filter(lesson =>
+    (!gradeFilter || lesson.generation_options?.gradeLevel === gradeFilter) &&
+    (!styleFilter || lesson.generation_options?.learningStyle === styleFilter)
+  );
+
+  const handleRegenerateLesson = async (lessonId: string) => {
+    setRegeneratingLessonId(lessonId);
+    try {
+      const response = await fetch(`/api/lessons/${lessonId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to regenerate lesson');
+      }
+
+      onLessonStatusUpdate?.(lessonId, "generating");
+    } catch (error) {
+      console.error('Error regenerating lesson:', error);
+      alert('Failed to regenerate lesson. Please try again.');
+    } finally {
+      setRegeneratingLessonId(null);
+    }
+  };
 
   const handleDeleteLesson = async (lessonId: string) => {
     setDeletingLessonId(lessonId);
@@ -61,6 +157,8 @@ export function LessonsTable({ lessons, onLessonDeleted, onLessonStatusUpdate }:
         return <Badge variant="default">Generated</Badge>;
       case "error":
         return <Badge variant="destructive">Error</Badge>;
+      case "cancelled":
+        return <Badge variant="outline">Cancelled</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -76,6 +174,178 @@ export function LessonsTable({ lessons, onLessonDeleted, onLessonStatusUpdate }:
     });
   };
 
+  const renderBatchRow = (batchId: string, title: string, batchLessons: Lesson[]) => {
+    const generated = batchLessons.filter(lesson => lesson.status === "generated").length;
+    const generating = batchLessons.filter(lesson => lesson.status === "generating").length;
+    const failed = batchLessons.filter(lesson => lesson.status === "error").length;
+
+    return (
+      <tr key={`batch-${batchId}`} className="border-b bg-accent/30">
+        <td className="p-4" colSpan={4}>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="font-semibold">Unit: {title}</div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>{generated} of {batchLessons.length} lessons generated</span>
+              {generating > 0 && (
+                <Badge variant="secondary" className="generating-badge">
+                  {generating} in progress<span className="generating-dots">...</span>
+                </Badge>
+              )}
+              {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+            </div>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
+  // How the lesson was made: its settings and the provider/model that wrote it
+  const renderGenerationBadges = (lesson: Lesson) => {
+    const options = lesson.generation_options;
+    if (!options && !lesson.provider_used) {
+      return null;
+    }
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {options?.gradeLevel && <Badge variant="outline">Grade {options.gradeLevel}</Badge>}
+        {options?.learningStyle && <Badge variant="outline">{LEARNING_STYLE_LABELS[options.learningStyle]}</Badge>}
+        {options?.sections && <Badge variant="outline">{options.sections} sections</Badge>}
+        {options?.includeExamples && <Badge variant="outline">Examples</Badge>}
+        {options?.includeExercises && <Badge variant="outline">Exercises</Badge>}
+        {options?.language && options.language !== DEFAULT_LESSON_LANGUAGE && (
+          <Badge variant="outline">{getLessonLanguage(options.language).nativeName}</Badge>
+        )}
+        {lesson.provider_used && (
+          <Badge variant="secondary" title={lesson.model_used || undefined}>
+            {lesson.model_used ? `${lesson.provider_used} · ${lesson.model_used}` : lesson.provider_used}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const filters = (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label className="flex items-center gap-1">
+        Grade:
+        <select
+          value={gradeFilter}
+          onChange={(e) => setGradeFilter(e.target.value)}
+          className="rounded-md border px-2 py-1 bg-background"
+        >
+          <option value="">All</option>
+          {GRADE_LEVELS.map(grade => <option key={grade} value={grade}>{grade}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Style:
+        <select
+          value={styleFilter}
+          onChange={(e) => setStyleFilter(e.target.value)}
+          className="rounded-md border px-2 py-1 bg-background"
+        >
+          <option value="">All</option>
+          {Object.entries(LEARNING_STYLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const renderLessonRow = (lesson: Lesson, inBatch: boolean) => (
+    <tr key={lesson.id} className="border-b hover:bg-accent/50 transition-colors">
+      <td className={inBatch ? "p-4 pl-10" : "p-4"}>
+        <div className="font-medium">
+          {inBatch && lesson.batch_position ? `${lesson.batch_position}. ` : ""}{lesson.title}
+        </div>
+        {renderGenerationBadges(lesson)}
+        {lesson.status === "error" && (lesson.error_code || lesson.error_message) && (
+          <div className="text-sm text-red-600 mt-1 max-w-md truncate" title={lesson.error_message || undefined}>
+            {LESSON_ERROR_LABELS[lesson.error_code || "unknown"] || LESSON_ERROR_LABELS.unknown}
+            {lesson.error_message ? `: ${lesson.error_message}` : ""}
+          </div>
+        )}
+         {/*<div className="text-sm text-gray-500 truncate max-w-xs">
+           {lesson.outline}
+        </div>*/}
+      </td>
+      <td className="p-4">
+        {lesson.status === "generating" ? (
+          <LessonProgressBar lessonId={lesson.id} progressState={progressStates[lesson.id]} />
+        ) : (
+          getStatusBadge(lesson.status)
+        )}
+      </td>
+      <td className="p-4 text-sm text-muted-foreground">
+        {formatDate(lesson.created_at)}
+      </td>
+      <td className="p-4">
+        <div className="flex items-center gap-2">
+          {lesson.status === "generating" ? (
+            <CancelLessonButton lessonId={lesson.id} />
+          ) : (
+            <>
+              {lesson.status === "generated" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  asChild
+                  className="text-blue-600 hover:text-blue-800 hover:bg-blue-50"
+                >
+                  <Link href={`/lessons/${lesson.id}`}>
+                    View Lesson
+                  </Link>
+                </Button>
+              )}
+
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRegenerateLesson(lesson.id)}
+                disabled={regeneratingLessonId === lesson.id || deletingLessonId === lesson.id}
+              >
+                {regeneratingLessonId === lesson.id ? "Queueing..." : lesson.status === "error" ? "Retry" : "Regenerate"}
+              </Button>
+              
+              {showDeleteConfirm === lesson.id ? (
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleDeleteLesson(lesson.id)}
+                    disabled={deletingLessonId === lesson.id}
+                  >
+                    {deletingLessonId === lesson.id ? "Deleting..." : "Confirm"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setShowDeleteConfirm(null)}
+                    disabled={deletingLessonId === lesson.id}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowDeleteConfirm(lesson.id)}
+                  disabled={deletingLessonId === lesson.id}
+                  className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                >
+                  Delete
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+
   if (lessons.length === 0) {
     return (
       <Card className="w-full max-w-4xl">
@@ -93,91 +363,35 @@ export function LessonsTable({ lessons, onLessonDeleted, onLessonStatusUpdate }:
 
   return (
     <Card className="w-full max-w-4xl">
-      <CardHeader>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
         <CardTitle>Your Lessons</CardTitle>
+        {filters}
       </CardHeader>
       <CardContent>
-        <div className="overflow-x-auto">
-          <table className="w-full border-collapse">
-            <thead>
-              <tr className="border-b">
-                <th className="text-left p-4 font-medium">Title</th>
-                <th className="text-left p-4 font-medium">Status</th>
-                <th className="text-left p-4 font-medium">Created</th>
-                <th className="text-left p-4 font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {lessons.map((lesson) => (
-                <tr key={lesson.id} className="border-b hover:bg-accent/50 transition-colors">
-                  <td className="p-4">
-                    <div className="font-medium">{lesson.title}</div>
-                     {/*<div className="text-sm text-gray-500 truncate max-w-xs">
-                       {lesson.outline}
-                    </div>*/}
-                  </td>
-                  <td className="p-4">
-                    {getStatusBadge(lesson.status)}
-                  </td>
-                  <td className="p-4 text-sm text-muted-foreground">
-                    {formatDate(lesson.created_at)}
-                  </td>
-                  <td className="p-4">
-                    <div className="flex items-center gap-2">
-                      {lesson.status === "generated" || lesson.status === "error" ? (
-                        <>
-                          {lesson.status === "generated" && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              asChild
-                              className="text-blue-600 hover:text-blue-800 hover:bg-blue-50"
-                            >
-                              <Link href={`/lessons/${lesson.id}`}>
-                                View Lesson
-                              </Link>
-                            </Button>
-                          )}
-                          
-                          {showDeleteConfirm === lesson.id ? (
-                            <div className="flex items-center gap-1">
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => handleDeleteLesson(lesson.id)}
-                                disabled={deletingLessonId === lesson.id}
-                              >
-                                {deletingLessonId === lesson.id ? "Deleting..." : "Confirm"}
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => setShowDeleteConfirm(null)}
-                                disabled={deletingLessonId === lesson.id}
-                              >
-                                Cancel
-                              </Button>
-                            </div>
-                          ) : (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => setShowDeleteConfirm(lesson.id)}
-                              disabled={deletingLessonId === lesson.id}
-                              className="text-red-600 hover:text-red-800 hover:bg-red-50"
-                            >
-                              Delete
-                            </Button>
-                          )}
-                        </>
-                      ) : null}
-                    </div>
-                  </td>
+        {filteredLessons.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">
+            No lessons match the selected filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-4 font-medium">Title</th>
+                  <th className="text-left p-4 font-medium">Status</th>
+                  <th className="text-left p-4 font-medium">Created</th>
+                  <th className="text-left p-4 font-medium">Actions</th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody>
+                {groupLessonsByBatch(filteredLessons).map((row) => row.kind === "batch"
+                  ? renderBatchRow(row.id, row.title, row.lessons)
+                  : renderLessonRow(row.lesson, row.inBatch)
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
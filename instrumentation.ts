@@ -0,0 +1,7 @@
+export async function register() {
+  // The lesson worker needs Node APIs, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startLessonWorker } = await import("./lib/lesson-worker");
+    startLessonWorker();
+  }
+}
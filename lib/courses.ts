@@ -0,0 +1,287 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { type CourseContext } from '@/lib/llm';
+
+export interface Course {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CourseLesson {
+  id: string;
+  title: string;
+  status: 'generating' | 'generated' | 'error' | 'cancelled';
+  position: number;
+}
+
+export interface CourseWithLessons extends Course {
+  lessons: CourseLesson[];
+}
+
+export interface CourseNavigation {
+  course: Pick<Course, 'id' | 'title'>;
+  position: number;
+  total: number;
+  previous: CourseLesson | null;
+  next: CourseLesson | null;
+}
+
+type CourseLessonRow = {
+  position: number;
+  lesson: { id: string; title: string; status: CourseLesson['status'] } | null;
+};
+
+function toCourseLessons(rows: CourseLessonRow[]): CourseLesson[] {
+  return rows
+    .filter(row => row.lesson)
+    .map(row => ({ ...row.lesson!, position: row.position }));
+}
+
+export async function listCourses(): Promise<(Course & { lesson_count: number })[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('courses')
+    .select('*, course_lessons(count)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch courses:', error);
+    return [];
+  }
+
+  return (data || []).map(({ course_lessons, ...course }) => ({
+    ...course,
+    lesson_count: course_lessons?.[0]?.count || 0
+  }));
+}
+
+/**
+ * A course with its lessons in course order
+ */
+export async function getCourse(courseId: string): Promise<CourseWithLessons | null> {
+  const supabase = createServiceClient();
+
+  const { data: course, error } = await supabase
+    .from('courses')
+    .select('*')
+    .eq('id', courseId)
+    .maybeSingle();
+
+  if (error || !course) {
+    if (error) {
+      console.error('Failed to fetch course:', error);
+    }
+    return null;
+  }
+
+  const { data: rows, error: lessonsError } = await supabase
+    .from('course_lessons')
+    .select('position, lesson:lessons(id, title, status)')
+    .eq('course_id', courseId)
+    .order('position', { ascending: true });
+
+  if (lessonsError) {
+    console.error('Failed to fetch course lessons:', lessonsError);
+    return null;
+  }
+
+  return { ...course, lessons: toCourseLessons((rows || []) as unknown as CourseLessonRow[]) };
+}
+
+export async function createCourse(title: string, description: string | null = null): Promise<Course> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('courses')
+    .insert({ title, description })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create course: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data;
+}
+
+export async function updateCourse(
+  courseId: string,
+  changes: Partial<Pick<Course, 'title' | 'description'>>
+): Promise<Course | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('courses')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', courseId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update course: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete a course. Its lessons are kept; only their membership is removed.
+ * @returns false if the course does not exist
+ */
+export async function deleteCourse(courseId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('courses')
+    .delete()
+    .eq('id', courseId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete course: ${error.message}`);
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Add a lesson to a course, at the end unless a position is given.
+ * Lessons at or after that position move down by one.
+ */
+export async function addLessonToCourse(courseId: string, lessonId: string, position?: number): Promise<void> {
+  const course = await getCourse(courseId);
+  if (!course) {
+    throw new Error('Course not found');
+  }
+
+  const lessonIds = course.lessons.map(lesson => lesson.id).filter(id => id !== lessonId);
+  const index = position && position > 0 ? Math.min(position - 1, lessonIds.length) : lessonIds.length;
+  lessonIds.splice(index, 0, lessonId);
+
+  await setCourseLessons(courseId, lessonIds);
+}
+
+export async function removeLessonFromCourse(courseId: string, lessonId: string): Promise<void> {
+  const course = await getCourse(courseId);
+  if (!course) {
+    throw new Error('Course not found');
+  }
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('course_lessons')
+    .delete()
+    .eq('course_id', courseId)
+    .eq('lesson_id', lessonId);
+
+  if (error) {
+    throw new Error(`Failed to remove lesson from course: ${error.message}`);
+  }
+
+  // Close the gap left by the removed lesson
+  await setCourseLessons(courseId, course.lessons.map(lesson => lesson.id).filter(id => id !== lessonId));
+}
+
+/**
+ * Store the lesson order of a course. The given ids become positions 1..n;
+ * lessons left out are removed from the course.
+ */
+export async function setCourseLessons(courseId: string, lessonIds: string[]): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('course_lessons')
+    .upsert(lessonIds.map((lessonId, index) => ({
+      course_id: courseId,
+      lesson_id: lessonId,
+      position: index + 1
+    })), { onConflict: 'course_id,lesson_id' });
+
+  if (error) {
+    throw new Error(`Failed to update course lessons: ${error.message}`);
+  }
+
+  let removal = supabase
+    .from('course_lessons')
+    .delete()
+    .eq('course_id', courseId);
+  if (lessonIds.length > 0) {
+    removal = removal.not('lesson_id', 'in', `(${lessonIds.join(',')})`);
+  }
+
+  const { error: removeError } = await removal;
+  if (removeError) {
+    throw new Error(`Failed to update course lessons: ${removeError.message}`);
+  }
+}
+
+/**
+ * Previous/next lessons of every course the lesson belongs to
+ */
+export async function getCourseNavigation(lessonId: string): Promise<CourseNavigation[]> {
+  const supabase = createServiceClient();
+
+  const { data: memberships, error } = await supabase
+    .from('course_lessons')
+    .select('course_id')
+    .eq('lesson_id', lessonId);
+
+  if (error) {
+    console.error('Failed to fetch lesson courses:', error);
+    return [];
+  }
+
+  const courses = await Promise.all((memberships || []).map(membership => getCourse(membership.course_id)));
+
+  return courses
+    .filter((course): course is CourseWithLessons => !!course)
+    .map(course => {
+      const index = course.lessons.findIndex(lesson => lesson.id === lessonId);
+      return {
+        course: { id: course.id, title: course.title },
+        position: index + 1,
+        total: course.lessons.length,
+        previous: index > 0 ? course.lessons[index - 1] : null,
+        next: index >= 0 && index < course.lessons.length - 1 ? course.lessons[index + 1] : null
+      };
+    });
+}
+
+/**
+ * Prompt context for generating a lesson of a course: the course and the titles of
+ * the lessons around it. Uses the first course the lesson was added to.
+ */
+export async function getCourseContextForLesson(lessonId: string): Promise<CourseContext | undefined> {
+  const supabase = createServiceClient();
+
+  const { data: membership, error } = await supabase
+    .from('course_lessons')
+    .select('course_id')
+    .eq('lesson_id', lessonId)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !membership) {
+    if (error) {
+      console.error('Failed to fetch lesson course:', error);
+    }
+    return undefined;
+  }
+
+  const course = await getCourse(membership.course_id);
+  if (!course) {
+    return undefined;
+  }
+
+  const index = course.lessons.findIndex(lesson => lesson.id === lessonId);
+  return {
+    courseTitle: course.title,
+    courseDescription: course.description,
+    previousLessons: course.lessons.slice(0, index).map(lesson => lesson.title),
+    nextLessons: course.lessons.slice(index + 1).map(lesson => lesson.title)
+  };
+}
@@ -29,7 +29,7 @@ export interface ImageTrace {
   total_duration_ms?: number;
   image_generation_attempts: ImageGenerationAttempt[];
   error_message?: string;
-  status: 'started' | 'completed' | 'failed';
+  status: 'started' | 'completed' | 'failed' | 'cancelled';
   created_at: string;
   completed_at?: string;
 }
@@ -85,7 +85,7 @@ export class ImageTracer {
       models_tried: Array.from(this.modelsTried)
     };
 
-    if (updates.status === 'completed' || updates.status === 'failed') {
+    if (updates.status === 'completed' || updates.status === 'failed' || updates.status === 'cancelled') {
       updateData.completed_at = new Date().toISOString();
       updateData.total_duration_ms = Date.now() - this.startTime;
     }
@@ -116,6 +116,13 @@ export class ImageTracer {
     });
   }
 
+  async cancelTrace(reason: string = 'Cancelled by user') {
+    await this.updateTrace({
+      status: 'cancelled',
+      error_message: reason
+    });
+  }
+
   static async getTraces(limit: number = 50, offset: number = 0): Promise<ImageTrace[]> {
     const supabase = createServiceClient();
     
@@ -0,0 +1,259 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { type UnitLessonOutline } from '@/lib/llm';
+import { enqueueLessonJob, withoutProviderChoices, type LessonJobPayload } from '@/lib/lesson-jobs';
+import { emitLessonEvent } from '@/lib/lesson-events';
+import { getGenerationHash } from '@/lib/lesson-dedupe';
+
+export type LessonBatchOptions = Omit<LessonJobPayload, 'outline'>;
+
+export interface LessonBatch {
+  id: string;
+  title: string;
+  unit_outline: string;
+  generation_options: LessonBatchOptions;
+  concurrency: number;
+  lesson_count: number;
+  created_at: string;
+}
+
+export interface LessonBatchLesson {
+  id: string;
+  title: string;
+  outline: string;
+  status: 'generating' | 'generated' | 'error' | 'cancelled';
+  batch_id: string;
+  batch_position: number;
+  created_at: string;
+}
+
+export interface LessonBatchProgress {
+  total: number;
+  generating: number;
+  generated: number;
+  error: number;
+  cancelled: number;
+}
+
+export const MAX_BATCH_LESSONS = 12;
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
+const BATCH_LESSON_COLUMNS = 'id, title, outline, status, batch_id, batch_position, created_at';
+
+/**
+ * Concurrency for a new batch: the requested value, capped by LESSON_BATCH_CONCURRENCY
+ */
+export function getBatchConcurrency(requested?: number): number {
+  const configured = parseInt(process.env.LESSON_BATCH_CONCURRENCY || String(DEFAULT_BATCH_CONCURRENCY));
+  const limit = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_BATCH_CONCURRENCY;
+  return requested && Number.isInteger(requested) && requested > 0 ? Math.min(requested, limit) : limit;
+}
+
+/**
+ * Store a batch and one "generating" lesson per outline.
+ * No jobs are queued yet - call startNextBatchLessons for that.
+ */
+export async function createLessonBatch(
+  unitOutline: string,
+  title: string,
+  lessonOutlines: UnitLessonOutline[],
+  options: LessonBatchOptions,
+  concurrency: number
+): Promise<{ batch: LessonBatch; lessons: LessonBatchLesson[] }> {
+  const supabase = createServiceClient();
+
+  const { data: batch, error } = await supabase
+    .from('lesson_batches')
+    .insert({
+      title,
+      unit_outline: unitOutline,
+      generation_options: options,
+      concurrency,
+      lesson_count: lessonOutlines.length
+    })
+    .select()
+    .single();
+
+  if (error || !batch) {
+    throw new Error(`Failed to create lesson batch: ${error?.message || 'Unknown error'}`);
+  }
+
+  // Like single lessons, batch lessons store no provider choices; startNextBatchLessons takes them from the batch
+  const lessonOptions = withoutProviderChoices(options);
+  const { data: lessons, error: lessonsError } = await supabase
+    .from('lessons')
+    .insert(lessonOutlines.map((lesson, index) => ({
+      title: lesson.title.length > 50 ? lesson.title.substring(0, 50) + '...' : lesson.title,
+      outline: lesson.outline,
+      status: 'generating',
+      content: null,
+      generation_options: { ...lessonOptions, outline: lesson.outline },
+      generation_hash: getGenerationHash({ ...lessonOptions, outline: lesson.outline }),
+      batch_id: batch.id,
+      batch_position: index + 1
+    })))
+    .select(BATCH_LESSON_COLUMNS)
+    .order('batch_position', { ascending: true });
+
+  if (lessonsError || !lessons) {
+    await supabase.from('lesson_batches').delete().eq('id', batch.id);
+    throw new Error(`Failed to create batch lessons: ${lessonsError?.message || 'Unknown error'}`);
+  }
+
+  return { batch, lessons };
+}
+
+/**
+ * Queue jobs for the next lessons of a batch that have not been started, keeping at
+ * most `concurrency` of its lessons queued or running. Called when the batch is
+ * created and whenever one of its lessons finishes.
+ * @returns Number of lessons queued
+ */
+export async function startNextBatchLessons(batchId: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data: batch, error } = await supabase
+    .from('lesson_batches')
+    .select('id, concurrency, generation_options')
+    .eq('id', batchId)
+    .maybeSingle();
+
+  if (error || !batch) {
+    if (error) {
+      console.error('Failed to fetch lesson batch:', error);
+    }
+    return 0;
+  }
+
+  const { data: lessons, error: lessonsError } = await supabase
+    .from('lessons')
+    .select('id, status, generation_options')
+    .eq('batch_id', batchId)
+    .eq('status', 'generating')
+    .order('batch_position', { ascending: true });
+
+  if (lessonsError || !lessons || lessons.length === 0) {
+    if (lessonsError) {
+      console.error('Failed to fetch batch lessons:', lessonsError);
+    }
+    return 0;
+  }
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('lesson_jobs')
+    .select('lesson_id, status')
+    .in('lesson_id', lessons.map(lesson => lesson.id));
+
+  if (jobsError) {
+    console.error('Failed to fetch batch lesson jobs:', jobsError);
+    return 0;
+  }
+
+  const active = (jobs || []).filter(job => job.status === 'queued' || job.status === 'running').length;
+  const started = new Set((jobs || []).map(job => job.lesson_id));
+  const pending = lessons.filter(lesson => !started.has(lesson.id));
+
+  const { provider, imageProvider, ensemble }: LessonBatchOptions = batch.generation_options || {};
+  let queued = 0;
+  for (const lesson of pending.slice(0, Math.max(batch.concurrency - active, 0))) {
+    try {
+      await enqueueLessonJob(lesson.id, {
+        ...lesson.generation_options,
+        ...(provider ? { provider } : {}),
+        ...(imageProvider ? { imageProvider } : {}),
+        ...(ensemble ? { ensemble } : {})
+      });
+      emitLessonEvent(lesson.id, 'queued', 0, 'Waiting for a worker');
+      queued++;
+    } catch (jobError) {
+      // Another process released the same lesson first
+      console.error('Failed to queue batch lesson:', jobError);
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Release the next lessons of the batch the given lesson belongs to, if any
+ */
+export async function startNextBatchLessonsFor(lessonId: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data: lesson } = await supabase
+    .from('lessons')
+    .select('batch_id')
+    .eq('id', lessonId)
+    .maybeSingle();
+
+  return lesson?.batch_id ? startNextBatchLessons(lesson.batch_id) : 0;
+}
+
+/**
+ * Release waiting lessons of every unfinished batch, e.g. after a restart
+ * interrupted the process that would have released them
+ * @returns Number of lessons queued
+ */
+export async function resumeLessonBatches(): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('batch_id')
+    .not('batch_id', 'is', null)
+    .eq('status', 'generating');
+
+  if (error) {
+    console.error('Failed to fetch unfinished lesson batches:', error);
+    return 0;
+  }
+
+  const batchIds = [...new Set((data || []).map(lesson => lesson.batch_id as string))];
+  let queued = 0;
+  for (const batchId of batchIds) {
+    queued += await startNextBatchLessons(batchId);
+  }
+
+  return queued;
+}
+
+export async function getLessonBatch(
+  batchId: string
+): Promise<{ batch: LessonBatch; lessons: LessonBatchLesson[]; progress: LessonBatchProgress } | null> {
+  const supabase = createServiceClient();
+
+  const { data: batch, error } = await supabase
+    .from('lesson_batches')
+    .select('*')
+    .eq('id', batchId)
+    .single();
+
+  if (error || !batch) {
+    if (error) {
+      console.error('Failed to fetch lesson batch:', error);
+    }
+    return null;
+  }
+
+  const { data: lessons, error: lessonsError } = await supabase
+    .from('lessons')
+    .select(BATCH_LESSON_COLUMNS)
+    .eq('batch_id', batchId)
+    .order('batch_position', { ascending: true });
+
+  if (lessonsError) {
+    console.error('Failed to fetch batch lessons:', lessonsError);
+    return null;
+  }
+
+  return { batch, lessons: lessons || [], progress: getBatchProgress(lessons || []) };
+}
+
+export function getBatchProgress(lessons: Pick<LessonBatchLesson, 'status'>[]): LessonBatchProgress {
+  return {
+    total: lessons.length,
+    generating: lessons.filter(lesson => lesson.status === 'generating').length,
+    generated: lessons.filter(lesson => lesson.status === 'generated').length,
+    error: lessons.filter(lesson => lesson.status === 'error').length,
+    cancelled: lessons.filter(lesson => lesson.status === 'cancelled').length
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getGenerationHash } from './lesson-dedupe';
+import { type LessonJobPayload } from './lesson-jobs';
+
+vi.mock('@/lib/supabase/server', () => ({ createServiceClient: vi.fn() }));
+
+const OPTIONS: LessonJobPayload = {
+  outline: 'Adding fractions',
+  gradeLevel: '3',
+  sections: 4,
+  learningStyle: 'reading',
+  includeExamples: true,
+  includeExercises: false
+};
+
+describe('getGenerationHash', () => {
+  it('ignores whitespace and case in the outline', () => {
+    expect(getGenerationHash({ ...OPTIONS, outline: '  adding   FRACTIONS ' })).toBe(getGenerationHash(OPTIONS));
+  });
+
+  it('hashes options given with another type like their stored type', () => {
+    const loose = { ...OPTIONS, gradeLevel: 3, sections: '4', includeExercises: 'false' } as unknown as LessonJobPayload;
+    expect(getGenerationHash(loose)).toBe(getGenerationHash(OPTIONS));
+  });
+
+  it('ignores provider choices', () => {
+    expect(getGenerationHash({ ...OPTIONS, provider: 'openai', imageProvider: 'dalle', ensemble: true }))
+      .toBe(getGenerationHash(OPTIONS));
+  });
+
+  it('tells apart requests with different settings', () => {
+    expect(getGenerationHash({ ...OPTIONS, sections: 5 })).not.toBe(getGenerationHash(OPTIONS));
+    expect(getGenerationHash({ ...OPTIONS, language: 'es' })).not.toBe(getGenerationHash(OPTIONS));
+  });
+});
@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import { createServiceClient } from '@/lib/supabase/server';
+import { copyLessonImages, deleteAllLessonImages, rewriteLessonImageUrls } from '@/lib/supabase/storage';
+import { createLessonVersion } from '@/lib/lesson-versions';
+import { type LessonJobPayload } from '@/lib/lesson-jobs';
+
+export interface DuplicateLesson {
+  id: string;
+  title: string;
+  created_at: string;
+  provider_used: string | null;
+  model_used: string | null;
+}
+
+// Options that don't change what gets written
+const UNHASHED_OPTIONS = new Set(['outline', 'provider', 'imageProvider', 'ensemble', 'courseContext']);
+
+// The type each option is stored with, so "2" and 2 hash alike
+const OPTION_TYPES: Partial<Record<keyof LessonJobPayload, (value: unknown) => unknown>> = {
+  gradeLevel: value => String(value),
+  sections: value => Number(value),
+  learningStyle: value => String(value),
+  includeExamples: value => value === true || value === 'true',
+  includeExercises: value => value === true || value === 'true',
+  language: value => String(value)
+};
+
+/**
+ * Normalize an outline so that whitespace and case differences don't count as new content
+ */
+export function normalizeOutline(outline: string): string {
+  return outline.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Stable hash of a generation request: the normalized outline plus every option that
+ * affects the lesson, in key order and converted to its stored type. The preferred LLM and image providers and the ensemble
+ * flag are left out, so a lesson written by any provider satisfies the same request.
+ */
+export function getGenerationHash(options: LessonJobPayload): string {
+  const settings = Object.keys(options)
+    .filter(key => !UNHASHED_OPTIONS.has(key))
+    .sort()
+    .filter(key => options[key as keyof LessonJobPayload] !== undefined)
+    .map(key => {
+      const value = options[key as keyof LessonJobPayload];
+      const normalize = OPTION_TYPES[key as keyof LessonJobPayload];
+      return [key, normalize ? normalize(value) : value];
+    });
+
+  return createHash('sha256')
+    .update(JSON.stringify({ outline: normalizeOutline(options.outline), settings }))
+    .digest('hex');
+}
+
+/**
+ * Most recent generated lesson for the same request, if any
+ */
+export async function findDuplicateLesson(hash: string): Promise<DuplicateLesson | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lessons')
+    .select('id, title, created_at, provider_used, model_used')
+    .eq('generation_hash', hash)
+    .eq('status', 'generated')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to look up duplicate lesson:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Create a new generated lesson with the content, structure and images of an existing one.
+ * Images are copied into the new lesson's storage folder, so deleting either lesson
+ * leaves the other intact.
+ * @returns The new lesson, or null if the source does not exist or is not generated
+ */
+export async function cloneLesson(sourceLessonId: string) {
+  const supabase = createServiceClient();
+
+  const { data: source, error } = await supabase
+    .from('lessons')
+    .select('*')
+    .eq('id', sourceLessonId)
+    .eq('status', 'generated')
+    .maybeSingle();
+
+  if (error || !source) {
+    if (error) {
+      console.error('Failed to fetch lesson to clone:', error);
+    }
+    return null;
+  }
+
+  const lessonId = crypto.randomUUID();
+  if (!await copyLessonImages(source.id, lessonId)) {
+    throw new Error('Failed to copy lesson images');
+  }
+
+  const { data: lesson, error: insertError } = await supabase
+    .from('lessons')
+    .insert({
+      id: lessonId,
+      title: source.title,
+      outline: source.outline,
+      status: 'generated',
+      content: rewriteLessonImageUrls(source.content, source.id, lessonId),
+      typescript_code: rewriteLessonImageUrls(source.typescript_code, source.id, lessonId),
+      javascript_code: rewriteLessonImageUrls(source.javascript_code, source.id, lessonId),
+      lesson_structure: rewriteLessonImageUrls(source.lesson_structure, source.id, lessonId),
+      generated_images: rewriteLessonImageUrls(source.generated_images, source.id, lessonId),
+      generation_options: source.generation_options,
+      generation_hash: source.generation_hash,
+      provider_used: source.provider_used,
+      model_used: source.model_used,
+      cloned_from: source.id
+    })
+    .select()
+    .single();
+
+  if (insertError || !lesson) {
+    await deleteAllLessonImages(lessonId);
+    throw new Error(`Failed to clone lesson: ${insertError?.message || 'Unknown error'}`);
+  }
+
+  await createLessonVersion(lesson.id, 'clone');
+
+  return lesson;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { classifyLessonError, LESSON_PARSE_FAILED_MESSAGE } from './lesson-errors';
+
+describe('classifyLessonError', () => {
+  it.each([
+    ['No LLM providers configured. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY', 'no_providers'],
+    ['All LLM providers failed. Last error: timeout', 'all_providers_failed'],
+    ['All LLM providers are unhealthy, retry after 12:00', 'providers_unhealthy'],
+    [`${LESSON_PARSE_FAILED_MESSAGE}: no sections`, 'parse_failed'],
+    ['Failed to save generated lesson: connection lost', 'database_failed'],
+    ['Failed to enqueue lesson job: duplicate key', 'database_failed'],
+    ['Maximum attempts exceeded', 'max_attempts_exceeded']
+  ])('classifies "%s" as %s', (message, code) => {
+    expect(classifyLessonError(new Error(message))).toEqual({ code, message });
+  });
+
+  it('keeps the message of unrecognised errors', () => {
+    expect(classifyLessonError(new Error('Something else'))).toEqual({ code: 'unknown', message: 'Something else' });
+  });
+
+  it('only matches patterns at the start of the message', () => {
+    expect(classifyLessonError(new Error('Retry: All LLM providers failed')).code).toBe('unknown');
+  });
+
+  it('reads the message of error-like values', () => {
+    expect(classifyLessonError({ message: 'Maximum attempts exceeded' }).code).toBe('max_attempts_exceeded');
+    expect(classifyLessonError(null)).toEqual({ code: 'unknown', message: 'Unknown error' });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Failure reasons stored on errored lessons (lessons.error_code / error_message)
+ */
+
+export type LessonErrorCode =
+  | 'no_providers'
+  | 'all_providers_failed'
+  | 'providers_unhealthy'
+  | 'parse_failed'
+  | 'database_failed'
+  | 'max_attempts_exceeded'
+  | 'unknown';
+
+export interface LessonError {
+  code: LessonErrorCode;
+  message: string;
+}
+
+export const LESSON_PARSE_FAILED_MESSAGE = 'Failed to parse generated lesson';
+
+export const LESSON_ERROR_LABELS: Record<LessonErrorCode, string> = {
+  no_providers: 'No LLM providers configured',
+  all_providers_failed: 'All LLM providers failed',
+  providers_unhealthy: 'All LLM providers are temporarily unavailable',
+  parse_failed: 'Could not parse the generated lesson',
+  database_failed: 'Database error',
+  max_attempts_exceeded: 'Too many failed attempts',
+  unknown: 'Unexpected error'
+};
+
+// Messages thrown along the generation pipeline, see lib/llm and lib/lesson-generation
+const ERROR_PATTERNS: [RegExp, LessonErrorCode][] = [
+  [/^No LLM providers configured/, 'no_providers'],
+  [/^All LLM providers failed/, 'all_providers_failed'],
+  [/^All LLM providers are unhealthy/, 'providers_unhealthy'],
+  [new RegExp(`^${LESSON_PARSE_FAILED_MESSAGE}`), 'parse_failed'],
+  [/^Failed to (save generated lesson|enqueue lesson job)/, 'database_failed'],
+  [/^Maximum attempts exceeded/, 'max_attempts_exceeded']
+];
+
+/**
+ * Map an error caught from the generation pipeline to a stored failure reason
+ */
+export function classifyLessonError(error: unknown): LessonError {
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string } | null)?.message || 'Unknown error';
+
+  const match = ERROR_PATTERNS.find(([pattern]) => pattern.test(message));
+  return { code: match ? match[1] : 'unknown', message };
+}
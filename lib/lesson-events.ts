@@ -0,0 +1,175 @@
+/**
+ * Lesson Generation Events
+ *
+ * In-process event bus for generation progress. The pipeline, the LLM layer and the
+ * worker emit stage events; GET /api/lessons/[id]/events streams them to the browser.
+ * While the LLM streams, its markdown is kept as a draft and forwarded as content_delta events.
+ */
+
+import { EventEmitter } from 'events';
+import { type LessonJob, type LessonJobStage } from '@/lib/lesson-jobs';
+
+export type LessonEventType =
+  | 'queued'
+  | 'started'
+  | 'llm_started'
+  | 'provider_fallback'
+  | 'llm_completed'
+  | 'markdown_parsed'
+  | 'images_started'
+  | 'image_generated'
+  | 'image_uploaded'
+  | 'typescript_built'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'content_delta';
+
+export interface LessonEvent {
+  type: LessonEventType;
+  progress: number; // 0-100
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export const TERMINAL_LESSON_EVENTS: LessonEventType[] = ['completed', 'failed', 'cancelled'];
+
+// The LLM output written so far is discarded when another provider or attempt starts over
+const DRAFT_RESET_EVENTS: LessonEventType[] = ['provider_fallback', 'retrying'];
+
+// Approximate progress when the job ran in another process and we only know its stage
+const STAGE_PROGRESS: Record<LessonJobStage, number> = {
+  llm: 10,
+  images: 45,
+  typescript: 90,
+  saving: 95
+};
+
+// Drop buffered events for lessons nobody has asked about in a while
+const HISTORY_TTL_MS = 15 * 60 * 1000;
+
+interface LessonEventBus {
+  emitter: EventEmitter;
+  history: Map<string, { events: LessonEvent[]; draft: string; updatedAt: number }>;
+}
+
+// Kept on globalThis so the worker and route handlers share one bus across module reloads
+const globalForEvents = globalThis as typeof globalThis & { __lessonEventBus?: LessonEventBus };
+const bus: LessonEventBus = globalForEvents.__lessonEventBus ??= {
+  emitter: new EventEmitter().setMaxListeners(0),
+  history: new Map()
+};
+
+function pruneHistory() {
+  const cutoff = Date.now() - HISTORY_TTL_MS;
+  for (const [lessonId, entry] of bus.history) {
+    if (entry.updatedAt < cutoff) {
+      bus.history.delete(lessonId);
+    }
+  }
+}
+
+/**
+ * Emit a progress event for a lesson
+ * @param progress Overall completion percentage. Never moves backwards within a run.
+ */
+export function emitLessonEvent(
+  lessonId: string,
+  type: LessonEventType,
+  progress: number,
+  message: string,
+  data?: Record<string, unknown>
+): LessonEvent {
+  pruneHistory();
+
+  const entry = bus.history.get(lessonId);
+  // A new run starts over; otherwise keep the bar monotonic
+  const restart = type === 'queued' || type === 'started';
+  const previous = !restart && entry?.events.length ? entry.events[entry.events.length - 1].progress : 0;
+
+  const event: LessonEvent = {
+    type,
+    progress: Math.round(Math.min(100, Math.max(previous, progress))),
+    message,
+    data,
+    timestamp: new Date().toISOString()
+  };
+
+  if (!entry || restart) {
+    bus.history.set(lessonId, { events: [event], draft: '', updatedAt: Date.now() });
+  } else {
+    entry.events.push(event);
+    entry.updatedAt = Date.now();
+    if (DRAFT_RESET_EVENTS.includes(type)) {
+      entry.draft = '';
+    }
+  }
+
+  bus.emitter.emit(lessonId, event);
+  return event;
+}
+
+/**
+ * Append streamed LLM markdown to the lesson's draft and forward it to subscribers.
+ * Deltas are not kept in the event history; late subscribers get the whole draft instead.
+ */
+export function appendLessonDraft(lessonId: string, chunk: string): void {
+  const entry = bus.history.get(lessonId);
+  const lastEvent = entry?.events[entry.events.length - 1];
+
+  if (entry) {
+    entry.draft += chunk;
+    entry.updatedAt = Date.now();
+  } else {
+    bus.history.set(lessonId, { events: [], draft: chunk, updatedAt: Date.now() });
+  }
+
+  bus.emitter.emit(lessonId, {
+    type: 'content_delta',
+    progress: lastEvent?.progress || 0,
+    message: lastEvent?.message || '',
+    data: { chunk },
+    timestamp: new Date().toISOString()
+  } satisfies LessonEvent);
+}
+
+/**
+ * Markdown streamed so far in the current run of a lesson
+ */
+export function getLessonDraft(lessonId: string): string {
+  return bus.history.get(lessonId)?.draft || '';
+}
+
+/**
+ * Subscribe to events for a lesson
+ * @returns Unsubscribe function
+ */
+export function subscribeToLessonEvents(lessonId: string, listener: (event: LessonEvent) => void): () => void {
+  bus.emitter.on(lessonId, listener);
+  return () => {
+    bus.emitter.off(lessonId, listener);
+  };
+}
+
+/**
+ * Events emitted so far in the current run of a lesson (empty if it ran in another process)
+ */
+export function getLessonEventHistory(lessonId: string): LessonEvent[] {
+  return bus.history.get(lessonId)?.events.slice() || [];
+}
+
+/**
+ * Progress event reconstructed from a lesson's latest job, for lessons whose events were
+ * emitted in another process
+ */
+export function getJobProgressEvent(job: LessonJob | null): LessonEvent {
+  return {
+    type: job?.status === 'running' ? 'started' : 'queued',
+    progress: job?.stage ? STAGE_PROGRESS[job.stage] : 0,
+    message: job?.stage ? `Working on ${job.stage}` : 'Waiting for a worker',
+    data: job ? { stage: job.stage, attempt: job.attempts } : undefined,
+    timestamp: new Date().toISOString()
+  };
+}
@@ -0,0 +1,389 @@
+import { createServiceClient } from "@/lib/supabase/server";
+import { generateLessonWithTracing, getDefaultProvider, getAvailableProviders } from "@/lib/llm";
+import { logServerError, logServerMessage, withSpan } from "@/lib/sentry";
+import { parseMarkdownToStructure, generateLessonTypeScriptComponent, structuredLessonToStructure } from "@/lib/lesson-typescript-generator";
+import { extractImagePromptsFromContent, generateImagesInParallel } from "@/lib/llm/image-generation";
+import { uploadImagesInParallel } from "@/lib/supabase/storage";
+import { ImageTracer } from "@/lib/image-tracing";
+import { type LessonJobPayload, type LessonJobStage } from "@/lib/lesson-jobs";
+import { appendLessonDraft, emitLessonEvent } from "@/lib/lesson-events";
+import { countLessonVersions, createLessonVersion } from "@/lib/lesson-versions";
+import { getCourseContextForLesson } from "@/lib/courses";
+import { LESSON_PARSE_FAILED_MESSAGE } from "@/lib/lesson-errors";
+
+export interface LessonGenerationHooks {
+  onStage?: (stage: LessonJobStage) => Promise<void> | void;
+  signal?: AbortSignal; // Aborts LLM calls, image generation and uploads when the lesson is cancelled
+}
+
+export const LESSON_CANCELLED_MESSAGE = 'Lesson generation was cancelled';
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(LESSON_CANCELLED_MESSAGE);
+  }
+}
+
+/**
+ * Runs the full generation pipeline for a lesson: LLM → images → TypeScript → database.
+ * Errors are re-thrown so the job worker can decide whether to retry.
+ */
+export async function generateLessonContentWithLLM(
+  lessonId: string,
+  payload: LessonJobPayload,
+  hooks: LessonGenerationHooks = {}
+) {
+  const { provider, imageProvider, ensemble, ...options } = payload;
+  const { signal } = hooks;
+
+  return withSpan("lesson.generation", "task", async () => {
+    try {
+      logServerMessage("Starting LLM lesson generation", "info", {
+        lessonId,
+        outline: options.outline.substring(0, 100) + '...',
+        gradeLevel: options.gradeLevel,
+        sections: options.sections,
+        learningStyle: options.learningStyle
+      });
+      
+      // Get available providers for debugging
+      const availableProviders = getAvailableProviders();
+      logServerMessage("Available LLM providers", "info", { providers: availableProviders });
+      
+      if (availableProviders.length === 0) {
+        const error = new Error('No LLM providers configured. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY');
+        logServerError(error, { lessonId, operation: "lesson_generation" });
+        throw error;
+      }
+      
+      // Lessons of a course build on the lessons before them
+      const courseContext = options.courseContext || await getCourseContextForLesson(lessonId);
+
+      // Generate lesson content using LLM with automatic fallback and tracing
+      await hooks.onStage?.('llm');
+      const generatedLesson = await generateLessonWithTracing({ ...options, courseContext }, { provider: provider || getDefaultProvider(), ensemble }, lessonId, {
+        signal,
+        // Stream the markdown so the lesson page can show it while it is written
+        onChunk: chunk => appendLessonDraft(lessonId, chunk)
+      });
+      throwIfCancelled(signal);
+      
+      logServerMessage("LLM generation complete, starting TypeScript conversion", "info", {
+        lessonId,
+        contentLength: generatedLesson.content.length
+      });
+      
+      // Parse markdown to structured lesson format; lessons written in JSON mode are already structured
+      let lessonStructure;
+      try {
+        lessonStructure = generatedLesson.structured
+          ? structuredLessonToStructure(generatedLesson.structured, lessonId, options.language)
+          : parseMarkdownToStructure(generatedLesson.content, lessonId, options.language);
+      } catch (parseError) {
+        throw new Error(`${LESSON_PARSE_FAILED_MESSAGE}: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+      }
+      emitLessonEvent(lessonId, 'markdown_parsed', 45, 'Lesson structure parsed', {
+        sections: lessonStructure.sections.length
+      });
+      
+      // Generate images if requested (reading and visual learning style)
+      // IMPORTANT: We WAIT for images to complete before marking lesson as "generated"
+      // BUT if images fail, we still mark as "generated" with a flag
+      const generatedImageData: { url: string; prompt: string }[] = [];
+      let imageGenerationFailed = false;
+      let imageGenerationError = '';
+      // Check if any image generation provider is available
+      const shouldGenerateImages = options.learningStyle === 'reading and visual' && 
+                                    (process.env.HUGGINGFACE_API_KEY || process.env.IMAGEROUTERIO_API_KEY || true); // Pollinations is always available
+      
+      if (shouldGenerateImages) {
+        logServerMessage("Starting image generation - lesson will wait for completion", "info", {
+          lessonId
+        });
+        
+        await hooks.onStage?.('images');
+
+        // Create image tracer
+        const imageTracer = new ImageTracer(lessonId);
+        
+        try {
+          // Extract prompts from content (dynamic based on Visual Aid hints)
+          const imagePrompts = await extractImagePromptsFromContent(
+            generatedLesson.content,
+            options.language
+          );
+          
+          logServerMessage("Image prompts extracted", "info", {
+            lessonId,
+            numberOfImages: imagePrompts.length,
+            prompts: imagePrompts.map(p => ({ prompt: p.prompt.substring(0, 50), visualAidLine: p.visualAidLine.substring(0, 60) }))
+          });
+          
+          // Start trace
+          await imageTracer.startTrace({
+            lessonId,
+            numberOfImages: imagePrompts.length,
+            prompts: imagePrompts.map(p => ({ 
+              prompt: p.prompt,
+              visualAidLine: p.visualAidLine
+            })),
+            contentLength: generatedLesson.content.length
+          });
+          
+          emitLessonEvent(lessonId, 'images_started', 45, `Generating ${imagePrompts.length} image(s)`, {
+            total: imagePrompts.length
+          });
+
+          // Generate images in parallel - WAIT for all to complete
+          let imagesGenerated = 0;
+          const generatedImages = await generateImagesInParallel(imagePrompts, imageTracer, () => {
+            imagesGenerated++;
+            emitLessonEvent(lessonId, 'image_generated', 45 + (30 * imagesGenerated) / imagePrompts.length,
+              `Generated image ${imagesGenerated} of ${imagePrompts.length}`,
+              { generated: imagesGenerated, total: imagePrompts.length });
+          }, signal, imageProvider);
+          
+          // No images is OK if no Visual Aid hints were found
+          if (generatedImages.length === 0) {
+            logServerMessage("No images generated - likely no Visual Aid hints in content", "info", { lessonId });
+            // Continue without images - don't throw error
+          }
+          
+          logServerMessage("Images generated successfully, uploading to storage", "info", {
+            lessonId,
+            count: generatedImages.length,
+            expected: imagePrompts.length
+          });
+          
+          // Upload images to Supabase Storage in parallel - WAIT for all uploads
+          const uploadData = generatedImages.map((img, index) => ({
+            base64Data: img.base64Data,
+            index
+          }));
+          
+          let imagesUploaded = 0;
+          const imageUrls = await uploadImagesInParallel(uploadData, lessonId, (_index, url) => {
+            imagesUploaded++;
+            emitLessonEvent(lessonId, 'image_uploaded', 75 + (15 * imagesUploaded) / uploadData.length,
+              `Uploaded image ${imagesUploaded} of ${uploadData.length}`,
+              { uploaded: imagesUploaded, total: uploadData.length, success: url !== null });
+          }, signal);
+          throwIfCancelled(signal);
+          
+          // Create image metadata for storage and lesson structure
+          generatedImages.forEach((img, index) => {
+            const url = imageUrls[index];
+            if (url) {
+              // Store in generated_images array for database
+              generatedImageData.push({
+                url,
+                prompt: img.prompt
+              });
+              
+              // Add to lesson structure media array
+              const mediaId = `generated-image-${index}`;
+              // Always use full-width for block display (no floating text)
+              const mediaPosition = 'full-width';
+              
+              lessonStructure.media.push({
+                id: mediaId,
+                type: 'image',
+                url,
+                alt: `Generated illustration: ${img.prompt.substring(0, 100)}`,
+                caption: `AI-generated visualization`,
+                position: mediaPosition as 'inline' | 'float-left' | 'float-right' | 'full-width'
+              });
+              
+              // Search ALL sections for the Visual Aid line and insert image
+              const visualAidLine = img.visualAidLine;
+              let inserted = false;
+              
+              logServerMessage(`Processing image ${index + 1}/${generatedImages.length}`, 'info', {
+                imageNumber: index + 1,
+                mediaId,
+                visualAidLine: visualAidLine.substring(0, 60),
+                promptPreview: img.prompt.substring(0, 80),
+                totalSections: lessonStructure.sections.length
+              });
+              
+              // Search all sections for the Visual Aid line
+              for (const section of lessonStructure.sections) {
+                // Escape special regex characters
+                const escapedLine = visualAidLine.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                const match = section.content.match(new RegExp(escapedLine));
+                
+                if (match) {
+                  // Found it! Insert image right after this line
+                  const matchEnd = match.index! + match[0].length;
+                  const textAfter = section.content.substring(matchEnd);
+                  const newlineIdx = textAfter.indexOf('\n');
+                  const lineEnd = matchEnd + (newlineIdx >= 0 ? newlineIdx : textAfter.length);
+                  
+                  section.content = 
+                    section.content.substring(0, lineEnd) + 
+                    `\n\n[IMAGE:${mediaId}]` + 
+                    section.content.substring(lineEnd);
+                  
+                  inserted = true;
+                  logServerMessage(`Image ${index + 1} placed after Visual Aid in section`, 'info', {
+                    mediaId,
+                    sectionId: section.id
+                  });
+                  break;
+                }
+              }
+              
+              if (!inserted) {
+                logServerMessage(`Visual Aid not found for image ${index + 1}`, 'warning', { 
+                  visualAidLine: visualAidLine.substring(0, 60) 
+                });
+              }
+            }
+          });
+          
+          // No images uploaded is OK if none were generated
+          if (generatedImageData.length === 0 && generatedImages.length === 0) {
+            logServerMessage("No images to upload - lesson will be text-only", "info", { lessonId });
+          } else if (generatedImageData.length === 0 && generatedImages.length > 0) {
+            throw new Error('Failed to upload images to storage');
+          }
+          
+          logServerMessage("All images uploaded successfully - lesson ready", "info", {
+            lessonId,
+            successCount: generatedImageData.length,
+            expected: imagePrompts.length
+          });
+          
+          // Complete trace successfully
+          await imageTracer.completeTrace({
+            generatedImagesCount: generatedImages.length,
+            uploadedImagesCount: generatedImageData.length,
+            imageUrls: generatedImageData.map(img => img.url)
+          }, imageTracer['modelsTried'] ? Array.from(imageTracer['modelsTried'])[0] || 'unknown' : 'unknown');
+          
+        } catch (imageError) {
+          if (signal?.aborted) {
+            await imageTracer.cancelTrace();
+            throw new Error(LESSON_CANCELLED_MESSAGE);
+          }
+
+          // Fail trace
+          await imageTracer.failTrace(
+            imageError instanceof Error ? imageError.message : 'Unknown error'
+          );
+          // If images fail, DON'T error the lesson - just mark that images failed
+          imageGenerationFailed = true;
+          imageGenerationError = imageError instanceof Error ? imageError.message : 'Unknown error';
+          
+          logServerError(imageError as Error, {
+            lessonId,
+            operation: "image_generation"
+          });
+          
+          logServerMessage("Image generation failed - continuing with text-only lesson", "warning", {
+            lessonId,
+            error: imageGenerationError,
+            willStillGenerateLesson: true
+          });
+          
+          // Continue to TypeScript generation - don't return early
+        }
+      }
+      
+      // Generate TypeScript component from structure
+      // This only runs AFTER images are complete (or skipped)
+      throwIfCancelled(signal);
+      await hooks.onStage?.('typescript');
+      const tsResult = generateLessonTypeScriptComponent(lessonStructure);
+      emitLessonEvent(lessonId, 'typescript_built', 92, tsResult.success ? 'Lesson component built' : 'Lesson component build failed', {
+        success: tsResult.success
+      });
+      
+      if (!tsResult.success) {
+        logServerMessage("TypeScript generation failed, saving without TS", "warning", {
+          lessonId,
+          errors: tsResult.errors
+        });
+      }
+      
+      const supabase = createServiceClient();
+      
+      // Add metadata to lesson structure about image generation
+      if (imageGenerationFailed) {
+        lessonStructure.metadata = lessonStructure.metadata || {};
+        lessonStructure.metadata.imageGenerationFailed = true;
+        lessonStructure.metadata.imageGenerationError = imageGenerationError;
+      }
+      
+      // Update lesson with COMPLETE content
+      // Status is set to "generated" even if images failed (text content is still good)
+      throwIfCancelled(signal);
+      await hooks.onStage?.('saving');
+      // Only a lesson that is still generating is saved, so a cancellation that
+      // reached the database first is not overwritten
+      const { data: savedLesson, error: saveError } = await supabase
+        .from("lessons")
+        .update({
+          status: "generated", // Set to generated even if images failed
+          content: generatedLesson.content,
+          title: generatedLesson.title,
+          typescript_code: tsResult.success ? tsResult.tsCode : null,
+          javascript_code: tsResult.success ? tsResult.jsCode : null,
+          lesson_structure: lessonStructure,
+          generated_images: generatedImageData,
+          provider_used: generatedLesson.provider || null,
+          model_used: generatedLesson.model,
+          error_code: null,
+          error_message: null,
+          // Section regeneration compares this to detect a save that happened in the meantime
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", lessonId)
+        .eq("status", "generating")
+        .select("id")
+        .maybeSingle();
+
+      if (saveError) {
+        throw new Error(`Failed to save generated lesson: ${saveError.message}`);
+      }
+
+      if (!savedLesson) {
+        throw new Error(LESSON_CANCELLED_MESSAGE);
+      }
+
+      // The first generation of a lesson is its LLM version, anything after that replaced earlier content
+      const isRegeneration = await countLessonVersions(lessonId) > 0;
+      await createLessonVersion(lessonId, isRegeneration ? 'regenerate' : 'llm', 'system');
+      
+      emitLessonEvent(lessonId, 'completed', 100, 'Lesson ready', { title: generatedLesson.title });
+
+      logServerMessage("Successfully generated complete lesson", "info", {
+        lessonId,
+        title: generatedLesson.title,
+        contentLength: generatedLesson.content.length,
+        sectionsCount: lessonStructure.sections.length,
+        mediaCount: lessonStructure.media.length,
+        generatedImagesCount: generatedImageData.length,
+        typescriptGenerated: tsResult.success,
+        hadImages: shouldGenerateImages,
+        imagesFailed: imageGenerationFailed
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        logServerMessage("Lesson generation cancelled", "info", { lessonId });
+        throw error;
+      }
+
+      logServerError(error as Error, {
+        lessonId,
+        operation: "lesson_generation",
+        outline: options.outline.substring(0, 100),
+        gradeLevel: options.gradeLevel,
+        sections: options.sections,
+        learningStyle: options.learningStyle
+      });
+
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createServiceClient } from '@/lib/supabase/server';
+import { getRetryDelayMs, updateLessonJobStage, withoutProviderChoices } from './lesson-jobs';
+
+vi.mock('@/lib/supabase/server', () => ({ createServiceClient: vi.fn() }));
+
+/**
+ * A client whose update matches a row only if every filter is satisfied by `row`
+ */
+function mockJobsTable(row: Record<string, unknown>, error: { message: string } | null = null) {
+  const filters: [string, unknown][] = [];
+  const query = {
+    update: vi.fn(() => query),
+    eq: vi.fn((column: string, value: unknown) => {
+      filters.push([column, value]);
+      return query;
+    }),
+    select: vi.fn(() => query),
+    maybeSingle: vi.fn(async () => ({
+      data: !error && filters.every(([column, value]) => row[column] === value) ? { id: row.id } : null,
+      error
+    }))
+  };
+  vi.mocked(createServiceClient).mockReturnValue({ from: () => query } as unknown as ReturnType<typeof createServiceClient>);
+  return query;
+}
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay with each attempt', () => {
+    expect([1, 2, 3, 4].map(getRetryDelayMs)).toEqual([30000, 60000, 120000, 240000]);
+  });
+
+  it('caps the delay at ten minutes', () => {
+    expect(getRetryDelayMs(6)).toBe(600000);
+    expect(getRetryDelayMs(20)).toBe(600000);
+  });
+
+  it('treats attempt zero like the first attempt', () => {
+    expect(getRetryDelayMs(0)).toBe(30000);
+  });
+});
+
+describe('withoutProviderChoices', () => {
+  it('keeps the lesson options and drops the provider choices', () => {
+    expect(withoutProviderChoices({
+      outline: 'Fractions',
+      gradeLevel: '3',
+      sections: 4,
+      provider: 'openai',
+      imageProvider: 'dalle',
+      ensemble: true
+    })).toEqual({ outline: 'Fractions', gradeLevel: '3', sections: 4 });
+  });
+
+  it('does not change the payload it is given', () => {
+    const payload = { outline: 'Fractions', provider: 'anthropic' as const };
+    withoutProviderChoices(payload);
+    expect(payload.provider).toBe('anthropic');
+  });
+});
+
+describe('updateLessonJobStage', () => {
+  it('updates the stage of a job this worker is running', async () => {
+    const query = mockJobsTable({ id: 'job-1', status: 'running', locked_by: 'worker-a' });
+
+    expect(await updateLessonJobStage('job-1', 'images', 'worker-a')).toBe(true);
+    expect(query.update).toHaveBeenCalledWith(expect.objectContaining({ stage: 'images' }));
+  });
+
+  it('reports a job that is no longer running as lost', async () => {
+    mockJobsTable({ id: 'job-1', status: 'cancelled', locked_by: null });
+
+    expect(await updateLessonJobStage('job-1', 'images', 'worker-a')).toBe(false);
+  });
+
+  it('reports a job another worker claimed after recovery as lost', async () => {
+    mockJobsTable({ id: 'job-1', status: 'running', locked_by: 'worker-b' });
+
+    expect(await updateLessonJobStage('job-1', 'saving', 'worker-a')).toBe(false);
+  });
+
+  it('keeps running when the database fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockJobsTable({ id: 'job-1' }, { message: 'connection reset' });
+
+    expect(await updateLessonJobStage('job-1', 'llm', 'worker-a')).toBe(true);
+    vi.mocked(console.error).mockRestore();
+  });
+});
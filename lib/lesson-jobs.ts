@@ -0,0 +1,383 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { type LessonGenerationOptions, type LLMProvider } from '@/lib/llm';
+
+export type LessonJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type LessonJobStage = 'llm' | 'images' | 'typescript' | 'saving';
+
+export interface LessonJobPayload extends LessonGenerationOptions {
+  provider?: LLMProvider; // Preferred LLM provider, falls back to the default
+  imageProvider?: string; // Preferred image provider, falls back to the others
+  ensemble?: boolean; // Write candidates with several providers and keep the judged best
+  translateFrom?: string; // Translate this lesson into the payload language instead of generating; kept in the stored options of translations
+}
+
+export interface LessonJob {
+  id: string;
+  lesson_id: string;
+  payload: LessonJobPayload;
+  status: LessonJobStatus;
+  stage?: LessonJobStage | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at?: string | null;
+  locked_by?: string | null;
+  last_error?: string | null;
+  created_at: string;
+  updated_at?: string;
+  completed_at?: string | null;
+}
+
+/**
+ * The payload without the provider choices. They only affect who writes the lesson, so
+ * they are not stored with the lesson's options or hashed with them.
+ */
+export function withoutProviderChoices<T extends Partial<LessonJobPayload>>(
+  payload: T
+): Omit<T, 'provider' | 'imageProvider' | 'ensemble'> {
+  const options = { ...payload };
+  delete options.provider;
+  delete options.imageProvider;
+  delete options.ensemble;
+  return options;
+}
+
+// A running job whose heartbeat is older than this is considered abandoned
+export const LESSON_JOB_LEASE_MS = 2 * 60 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Exponential backoff for the next attempt: 30s, 60s, 120s... capped at 10 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Persist a generation job for a lesson. The worker picks it up on its next poll.
+ */
+export async function enqueueLessonJob(
+  lessonId: string,
+  payload: LessonJobPayload,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<LessonJob> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .insert({
+      lesson_id: lessonId,
+      payload,
+      status: 'queued',
+      max_attempts: maxAttempts,
+      run_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue lesson job: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data;
+}
+
+/**
+ * Claim the next due job for this worker.
+ * The update is conditional on the job still being queued with the same attempt count,
+ * so two workers racing for the same row cannot both win.
+ */
+export async function claimNextLessonJob(workerId: string): Promise<LessonJob | null> {
+  const supabase = createServiceClient();
+
+  const { data: candidates, error } = await supabase
+    .from('lesson_jobs')
+    .select('*')
+    .eq('status', 'queued')
+    .lte('run_at', new Date().toISOString())
+    .order('run_at', { ascending: true })
+    .limit(5);
+
+  if (error) {
+    console.error('Failed to fetch queued lesson jobs:', error);
+    return null;
+  }
+
+  for (const candidate of (candidates || []) as LessonJob[]) {
+    const now = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('lesson_jobs')
+      .update({
+        status: 'running',
+        attempts: candidate.attempts + 1,
+        locked_at: now,
+        locked_by: workerId,
+        updated_at: now
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'queued')
+      .eq('attempts', candidate.attempts)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Failed to claim lesson job:', claimError);
+      continue;
+    }
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record the stage the job is in. Doubles as a heartbeat for the lease.
+ * @returns false if the job no longer belongs to this worker, e.g. it was cancelled, or
+ * recovered as stale and claimed again
+ */
+export async function updateLessonJobStage(jobId: string, stage: LessonJobStage, workerId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .update({ stage, locked_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to update lesson job stage:', error);
+    // Keep running - a transient database error does not mean the job was lost
+    return true;
+  }
+
+  return !!data;
+}
+
+/**
+ * Extend the lease of a running job without changing its stage
+ * @returns false if the job is no longer running (e.g. it was cancelled)
+ */
+export async function heartbeatLessonJob(jobId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .update({ locked_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to heartbeat lesson job:', error);
+    // Keep running - a transient database error is not a cancellation
+    return true;
+  }
+
+  return !!data;
+}
+
+export async function completeLessonJob(jobId: string): Promise<void> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('lesson_jobs')
+    .update({
+      status: 'completed',
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('Failed to complete lesson job:', error);
+  }
+}
+
+/**
+ * Record a failed attempt. Re-queues the job with backoff while attempts remain.
+ * @returns true if the job will be retried, false if it has permanently failed
+ */
+export async function failLessonJob(job: LessonJob, errorMessage: string): Promise<boolean> {
+  const supabase = createServiceClient();
+  const now = new Date();
+  const willRetry = job.attempts < job.max_attempts;
+
+  const { error } = await supabase
+    .from('lesson_jobs')
+    .update(willRetry
+      ? {
+          status: 'queued',
+          run_at: new Date(now.getTime() + getRetryDelayMs(job.attempts)).toISOString(),
+          locked_at: null,
+          locked_by: null,
+          last_error: errorMessage,
+          updated_at: now.toISOString()
+        }
+      : {
+          status: 'failed',
+          locked_at: null,
+          locked_by: null,
+          last_error: errorMessage,
+          completed_at: now.toISOString(),
+          updated_at: now.toISOString()
+        })
+    .eq('id', job.id)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('Failed to record lesson job failure:', error);
+  }
+
+  return willRetry;
+}
+
+/**
+ * Close a running job that stopped because its lesson was cancelled or replaced, so it is
+ * not recovered and run again
+ */
+export async function cancelRunningLessonJob(jobId: string, reason: string): Promise<void> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('lesson_jobs')
+    .update({
+      status: 'cancelled',
+      locked_at: null,
+      locked_by: null,
+      last_error: reason,
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('Failed to cancel lesson job:', error);
+  }
+}
+
+/**
+ * Cancel every queued or running job of a lesson. A worker running one of them
+ * notices on its next heartbeat.
+ * @returns Number of jobs cancelled
+ */
+export async function cancelLessonJobs(lessonId: string): Promise<number> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .update({
+      status: 'cancelled',
+      locked_at: null,
+      locked_by: null,
+      last_error: 'Cancelled by user',
+      completed_at: now,
+      updated_at: now
+    })
+    .eq('lesson_id', lessonId)
+    .in('status', ['queued', 'running'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel lesson jobs: ${error.message}`);
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Re-queue running jobs whose worker stopped sending heartbeats (e.g. the server restarted)
+ * @returns Number of jobs recovered
+ */
+export async function recoverStaleLessonJobs(): Promise<number> {
+  const supabase = createServiceClient();
+  const staleBefore = new Date(Date.now() - LESSON_JOB_LEASE_MS).toISOString();
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .update({
+      status: 'queued',
+      run_at: now,
+      locked_at: null,
+      locked_by: null,
+      last_error: 'Worker stopped before the job finished',
+      updated_at: now
+    })
+    .eq('status', 'running')
+    .lt('locked_at', staleBefore)
+    .select('id');
+
+  if (error) {
+    console.error('Failed to recover stale lesson jobs:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
+
+export async function getLatestLessonJob(lessonId: string): Promise<LessonJob | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .select('*')
+    .eq('lesson_id', lessonId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch lesson job:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Latest job of each lesson, by lesson id. Lessons without a job are missing from the map.
+ */
+export async function getLatestLessonJobs(lessonIds: string[]): Promise<Map<string, LessonJob>> {
+  const supabase = createServiceClient();
+  const jobs = new Map<string, LessonJob>();
+
+  const { data, error } = await supabase
+    .from('lesson_jobs')
+    .select('*')
+    .in('lesson_id', lessonIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch lesson jobs:', error);
+    return jobs;
+  }
+
+  for (const job of (data || []) as LessonJob[]) {
+    if (!jobs.has(job.lesson_id)) {
+      jobs.set(job.lesson_id, job);
+    }
+  }
+
+  return jobs;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { validateLessonOptions } from './lesson-options';
+
+describe('validateLessonOptions', () => {
+  it('accepts valid options and leaves out the ones not given', () => {
+    expect(validateLessonOptions({})).toBeNull();
+    expect(validateLessonOptions({
+      gradeLevel: 3,
+      sections: 4,
+      learningStyle: 'reading and visual',
+      includeExamples: false,
+      includeExercises: true,
+      language: 'fr'
+    })).toBeNull();
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(validateLessonOptions({ sections: '4' })).toBe('sections must be a positive integer');
+    expect(validateLessonOptions({ includeExamples: 'false' })).toBe('includeExamples must be a boolean');
+    expect(validateLessonOptions({ includeExercises: 0 })).toBe('includeExercises must be a boolean');
+  });
+
+  it('rejects values outside the allowed ones', () => {
+    expect(validateLessonOptions({ gradeLevel: '12' })).toMatch(/^gradeLevel must be one of/);
+    expect(validateLessonOptions({ sections: 0 })).toBe('sections must be a positive integer');
+    expect(validateLessonOptions({ learningStyle: 'video' })).toMatch(/^learningStyle must be one of/);
+    expect(validateLessonOptions({ language: 'de' })).toMatch(/^language must be one of/);
+  });
+});
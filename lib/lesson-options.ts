@@ -0,0 +1,34 @@
+import { type LessonGenerationOptions } from '@/lib/llm';
+import { isLessonLanguage, LESSON_LANGUAGES } from '@/lib/llm/languages';
+
+export const GRADE_LEVELS = ['2', '3', '4', '5', '6', '7', '8'];
+export const LEARNING_STYLES = ['reading and visual', 'reading'];
+
+/**
+ * Check the lesson options a request sets, leaving out the ones it doesn't.
+ * gradeLevel may be given as a number; everything else must have its stored type.
+ * @returns The problem with the first invalid option, or null if they are all valid
+ */
+export function validateLessonOptions(options: Partial<Record<keyof LessonGenerationOptions, unknown>>): string | null {
+  const { gradeLevel, sections, learningStyle, includeExamples, includeExercises, language } = options;
+
+  if (gradeLevel !== undefined && !GRADE_LEVELS.includes(String(gradeLevel))) {
+    return `gradeLevel must be one of ${GRADE_LEVELS.join(', ')}`;
+  }
+  if (sections !== undefined && (!Number.isInteger(sections) || (sections as number) < 1)) {
+    return 'sections must be a positive integer';
+  }
+  if (learningStyle !== undefined && !LEARNING_STYLES.includes(learningStyle as string)) {
+    return `learningStyle must be one of ${LEARNING_STYLES.join(', ')}`;
+  }
+  if (includeExamples !== undefined && typeof includeExamples !== 'boolean') {
+    return 'includeExamples must be a boolean';
+  }
+  if (includeExercises !== undefined && typeof includeExercises !== 'boolean') {
+    return 'includeExercises must be a boolean';
+  }
+  if (language !== undefined && !isLessonLanguage(language)) {
+    return `language must be one of ${Object.keys(LESSON_LANGUAGES).join(', ')}`;
+  }
+  return null;
+}
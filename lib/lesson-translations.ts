@@ -0,0 +1,295 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { copyLessonImages, deleteAllLessonImages, rewriteLessonImageUrls } from '@/lib/supabase/storage';
+import { createLessonVersion } from '@/lib/lesson-versions';
+import { LessonTracer } from '@/lib/tracing';
+import { getDefaultProvider, translateLessonText, type LessonGenerationOptions } from '@/lib/llm';
+import { emitLessonEvent } from '@/lib/lesson-events';
+import { LESSON_CANCELLED_MESSAGE, type LessonGenerationHooks } from '@/lib/lesson-generation';
+import { type LessonJobPayload } from '@/lib/lesson-jobs';
+import { getLessonLanguage, getVisualAidPattern, isLessonLanguage, type LessonLanguage } from '@/lib/llm/languages';
+import {
+  convertStructureToMarkdown,
+  generateLessonTypeScriptComponent,
+  type LessonSection,
+  type LessonStructure
+} from '@/lib/lesson-typescript-generator';
+
+export interface LessonTranslation {
+  id: string;
+  title: string;
+  language: LessonLanguage;
+  status: 'generating' | 'generated' | 'error' | 'cancelled';
+  original: boolean; // The lesson the others were translated from
+}
+
+/**
+ * The columns of a lesson row that translation reads
+ */
+export interface TranslatableLesson {
+  id: string;
+  outline: string;
+  lesson_structure: LessonStructure;
+  generated_images: { url: string; prompt: string }[] | null;
+  generation_options: (Omit<LessonGenerationOptions, 'outline' | 'language'> & { language?: string }) | null;
+  translation_of: string | null;
+}
+
+// Section types whose content is media or code rather than prose
+const UNTRANSLATED_SECTION_TYPES = new Set<LessonSection['type']>(['code', 'image', 'svg']);
+
+// Code, image references and embedded media are sent to the model as placeholders and put back afterwards
+const PROTECTED_PATTERN = /```[\s\S]*?```|`[^`\n]+`|!\[[^\]]*\]\([^)]*\)|\[IMAGE:[^\]]+\]|<svg[\s\S]*?<\/svg>/g;
+const PLACEHOLDER_PATTERN = /\[\[KEEP-(\d+)\]\]/g;
+
+/**
+ * Language a stored lesson is written in; lessons without one are English
+ */
+export function getStoredLessonLanguage(lesson: { generation_options?: { language?: string } | null }): LessonLanguage {
+  const language = lesson.generation_options?.language;
+  return isLessonLanguage(language) ? language : 'en';
+}
+
+/**
+ * Every lesson linked to this one by translation, including itself, original first.
+ * Translations always point at the original, so a translation of a translation joins the same group.
+ */
+export async function getLessonTranslations(lessonId: string): Promise<LessonTranslation[]> {
+  const supabase = createServiceClient();
+
+  const { data: lesson, error } = await supabase
+    .from('lessons')
+    .select('id, translation_of')
+    .eq('id', lessonId)
+    .maybeSingle();
+
+  if (error || !lesson) {
+    if (error) {
+      console.error('Failed to fetch lesson translations:', error);
+    }
+    return [];
+  }
+
+  const originalId = lesson.translation_of || lesson.id;
+  const { data: lessons, error: groupError } = await supabase
+    .from('lessons')
+    .select('id, title, status, generation_options')
+    .or(`id.eq.${originalId},translation_of.eq.${originalId}`)
+    .order('created_at', { ascending: true });
+
+  if (groupError) {
+    console.error('Failed to fetch lesson translations:', groupError);
+    return [];
+  }
+
+  return (lessons || [])
+    .map(linked => ({
+      id: linked.id,
+      title: linked.title,
+      language: getStoredLessonLanguage(linked),
+      status: linked.status,
+      original: linked.id === originalId
+    }))
+    .sort((a, b) => Number(b.original) - Number(a.original));
+}
+
+function protectText(text: string): { text: string; kept: string[] } {
+  const kept: string[] = [];
+  const protectedText = text.replace(PROTECTED_PATTERN, match => `[[KEEP-${kept.push(match) - 1}]]`);
+  return { text: protectedText, kept };
+}
+
+/**
+ * Put the protected parts back. Placeholders the model dropped are appended,
+ * ones it invented are removed.
+ */
+function restoreText(translated: string, kept: string[]): string {
+  const restored = new Set<number>();
+  let content = translated.replace(PLACEHOLDER_PATTERN, (_, index) => {
+    const i = Number(index);
+    if (i >= kept.length || restored.has(i)) {
+      return '';
+    }
+    restored.add(i);
+    return kept[i];
+  });
+
+  kept.forEach((part, i) => {
+    if (!restored.has(i)) {
+      content = `${content.trimEnd()}\n\n${part}`;
+    }
+  });
+
+  return content.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Strip a code fence the model wrapped its whole answer in
+ */
+function unwrapFence(content: string): string {
+  const fenced = content.trim().match(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/);
+  return fenced ? fenced[1].trim() : content.trim();
+}
+
+/**
+ * Translate a lesson's title and sections one call at a time into a translation lesson that was
+ * created in 'generating' status. Run by the lesson worker for jobs with translateFrom set; errors
+ * are re-thrown so it can decide whether to retry. Code, [IMAGE:...] references and media are kept
+ * as they are; images are copied into the translation's storage folder. The calls are recorded on
+ * one trace of the source lesson.
+ * @param lessonId The translation lesson to fill in
+ * @param payload Job payload; language is the target language and translateFrom the source lesson
+ */
+export async function translateLesson(
+  lessonId: string,
+  payload: LessonJobPayload,
+  hooks: LessonGenerationHooks = {}
+) {
+  const { signal } = hooks;
+  // Regeneration stores English as no language, like new lessons
+  const targetLanguage = getStoredLessonLanguage({ generation_options: payload });
+  if (!payload.translateFrom) {
+    throw new Error('Translation job needs a source lesson');
+  }
+
+  const supabase = createServiceClient();
+  const { data: source, error: sourceError } = await supabase
+    .from('lessons')
+    .select('id, outline, lesson_structure, generated_images, generation_options, translation_of')
+    .eq('id', payload.translateFrom)
+    .maybeSingle<TranslatableLesson>();
+
+  if (sourceError || !source?.lesson_structure) {
+    throw new Error(`Lesson to translate not found: ${sourceError?.message || payload.translateFrom}`);
+  }
+
+  const structure = source.lesson_structure;
+  const sourceLanguage = getStoredLessonLanguage(source);
+  const gradeLevel = source.generation_options?.gradeLevel;
+
+  const tracer = new LessonTracer(source.id);
+  await tracer.startTrace({ operation: 'translate', sourceLanguage, targetLanguage, translationId: lessonId });
+
+  // Keep using the provider that answered last so the lesson reads consistently
+  let provider = payload.provider || getDefaultProvider();
+  let model: string | undefined;
+  const translate = async (text: string, lessonTitle?: string) => {
+    if (signal?.aborted) {
+      throw new Error(LESSON_CANCELLED_MESSAGE);
+    }
+    const { text: protectedText, kept } = protectText(text);
+    const translation = await translateLessonText(
+      { text: protectedText, targetLanguage, sourceLanguage, lessonTitle, gradeLevel },
+      { provider },
+      tracer,
+      { signal }
+    );
+    provider = translation.provider;
+    model = translation.model;
+    return restoreText(unwrapFence(translation.content), kept);
+  };
+
+  let imagesCopied = false;
+  try {
+    await hooks.onStage?.('llm');
+    const title = (await translate(structure.title)).replace(/^#+\s*/, '').split('\n')[0].trim() || structure.title;
+
+    const sections: LessonSection[] = [];
+    for (const section of [...structure.sections].sort((a, b) => a.order - b.order)) {
+      if (UNTRANSLATED_SECTION_TYPES.has(section.type)) {
+        sections.push(section);
+        continue;
+      }
+
+      const translated = await translate(section.title ? `## ${section.title}\n\n${section.content}` : section.content, title);
+      const heading = section.title ? translated.match(/^#{1,6}\s+(.+)\n*/) : null;
+      const content = heading ? translated.substring(heading[0].length).trim() : translated;
+      const hints = [...content.matchAll(getVisualAidPattern(targetLanguage))].map(match => match[1].replace(/[*_]/g, '').trim());
+
+      sections.push({
+        ...section,
+        ...(section.title ? { title: heading ? heading[1].trim() : section.title } : {}),
+        content,
+        ...(section.metadata?.visualAidHints ? { metadata: { ...section.metadata, visualAidHints: hints } } : {})
+      });
+    }
+    emitLessonEvent(lessonId, 'llm_completed', 85, 'Lesson translated', { provider, sections: sections.length });
+
+    const now = new Date().toISOString();
+    const translatedStructure: LessonStructure = rewriteLessonImageUrls({
+      ...structure,
+      id: lessonId,
+      title,
+      sections,
+      metadata: {
+        ...structure.metadata,
+        createdAt: now,
+        updatedAt: now,
+        language: targetLanguage,
+        direction: getLessonLanguage(targetLanguage).direction
+      }
+    }, source.id, lessonId);
+
+    await hooks.onStage?.('typescript');
+    const tsResult = generateLessonTypeScriptComponent(translatedStructure);
+    if (!tsResult.success) {
+      throw new Error(`Failed to generate TypeScript for translation: ${tsResult.errors?.join(', ')}`);
+    }
+    emitLessonEvent(lessonId, 'typescript_built', 92, 'Lesson component built');
+
+    await hooks.onStage?.('images');
+    imagesCopied = true;
+    if (!await copyLessonImages(source.id, lessonId)) {
+      throw new Error('Failed to copy lesson images');
+    }
+
+    if (signal?.aborted) {
+      throw new Error(LESSON_CANCELLED_MESSAGE);
+    }
+    await hooks.onStage?.('saving');
+    // Only a translation that is still generating is saved, so a cancellation is not overwritten
+    const { data: lesson, error: saveError } = await supabase
+      .from('lessons')
+      .update({
+        title,
+        status: 'generated',
+        content: convertStructureToMarkdown(translatedStructure),
+        typescript_code: tsResult.tsCode,
+        javascript_code: tsResult.jsCode,
+        lesson_structure: translatedStructure,
+        generated_images: rewriteLessonImageUrls(source.generated_images, source.id, lessonId),
+        provider_used: provider,
+        model_used: model || null,
+        error_code: null,
+        error_message: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', lessonId)
+      .eq('status', 'generating')
+      .select('id')
+      .maybeSingle();
+
+    if (saveError) {
+      throw new Error(`Failed to save translation: ${saveError.message}`);
+    }
+
+    if (!lesson) {
+      throw new Error(LESSON_CANCELLED_MESSAGE);
+    }
+
+    await createLessonVersion(lessonId, 'translate');
+    await tracer.completeTrace({ translationId: lessonId, title }, provider);
+    emitLessonEvent(lessonId, 'completed', 100, 'Translation ready', { title });
+
+    return { lessonId, provider };
+  } catch (error) {
+    if (imagesCopied) {
+      await deleteAllLessonImages(lessonId);
+    }
+    if (signal?.aborted || (error instanceof Error && error.message === LESSON_CANCELLED_MESSAGE)) {
+      await tracer.cancelTrace();
+    } else {
+      await tracer.failTrace(error instanceof Error ? error.message : 'Unknown error');
+    }
+    throw error;
+  }
+}
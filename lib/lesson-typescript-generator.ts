@@ -5,6 +5,8 @@
 
 import { sanitizeInput, validateGeneratedCode } from './secure-typescript-utils';
 import { safeTranspile, createSecureTypeScriptConfig } from './secure-typescript-loader';
+import { getLessonLanguage, getVisualAidPattern, stripTitlePrefix, type LessonLanguage } from './llm/languages';
+import { renderStructuredSectionContent, type StructuredLesson } from './llm/lesson-schema';
 
 // Lesson structure interfaces
 export interface LessonSection {
@@ -42,14 +44,19 @@ export interface LessonStructure {
     updatedAt: string;
     imageGenerationFailed?: boolean;
     imageGenerationError?: string;
+    language?: LessonLanguage; // Missing for lessons written before languages were supported (English)
+    direction?: 'ltr' | 'rtl';
     [key: string]: any; // Allow additional metadata fields
   };
 }
 
 /**
  * Parses markdown content from LLM into structured lesson format
+ * @param language Language the lesson was written in; used to clean up the title and find
+ * translated Visual Aid hints
  */
-export function parseMarkdownToStructure(markdownContent: string, lessonId: string): LessonStructure {
+export function parseMarkdownToStructure(markdownContent: string, lessonId: string, language?: LessonLanguage): LessonStructure {
+  const languageInfo = getLessonLanguage(language);
   const lines = markdownContent.split('\n');
   const sections: LessonSection[] = [];
   const media: LessonMedia[] = [];
@@ -60,9 +67,9 @@ export function parseMarkdownToStructure(markdownContent: string, lessonId: stri
   let codeBlockContent: string[] = [];
   let codeBlockLanguage = '';
 
-  // Extract title (first H1)
+  // Extract title (first H1), without a "Lesson:" style label in any language
   const titleMatch = markdownContent.match(/^#\s+(.+)$/m);
-  const title = titleMatch ? titleMatch[1] : 'Untitled Lesson';
+  const title = titleMatch ? stripTitlePrefix(titleMatch[1].replace(/\*\*/g, ''), languageInfo.code) : languageInfo.untitled;
 
   // Note: We no longer extract subtitle separately to prevent duplication
   // All H2 headers will be treated as sections consistently
@@ -183,6 +190,17 @@ export function parseMarkdownToStructure(markdownContent: string, lessonId: stri
     });
   }
 
+  // Record the Visual Aid hints of each section (labels may be translated) so images can be matched to them
+  for (const section of sections) {
+    if (section.type === 'code') continue;
+    const hints = [...section.content.matchAll(getVisualAidPattern(languageInfo.code))]
+      .map(match => match[1].replace(/[*_]/g, '').trim())
+      .filter(hint => hint.length > 0);
+    if (hints.length > 0) {
+      section.metadata = { ...section.metadata, visualAidHints: hints };
+    }
+  }
+
   return {
     id: lessonId,
     title,
@@ -191,7 +209,53 @@ export function parseMarkdownToStructure(markdownContent: string, lessonId: stri
     media,
     metadata: {
       createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+      updatedAt: new Date().toISOString(),
+      language: languageInfo.code,
+      direction: languageInfo.direction
+    }
+  };
+}
+
+/**
+ * Builds the lesson structure from a lesson written in JSON mode. Sections map one to one,
+ * with the same ids, Visual Aid lines and metadata the markdown parser would give them.
+ */
+export function structuredLessonToStructure(lesson: StructuredLesson, lessonId: string, language?: LessonLanguage): LessonStructure {
+  const languageInfo = getLessonLanguage(language);
+
+  const sections = lesson.sections.map((section, order): LessonSection => {
+    const metadata: NonNullable<LessonSection['metadata']> = {};
+    if (section.type === 'code') {
+      metadata.language = section.language || 'plaintext';
+    }
+    if (section.type === 'list') {
+      metadata.listType = /^\s*\d+\./.test(section.content) ? 'ordered' : 'unordered';
+    }
+    if (section.visualAid) {
+      metadata.visualAidHints = [section.visualAid.replace(/[*_]/g, '').trim()];
+    }
+
+    return {
+      id: `${section.type === 'code' ? 'code' : 'section'}-${order}`,
+      type: section.type,
+      ...(section.title ? { title: section.title } : {}),
+      content: renderStructuredSectionContent(section),
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+      editable: true,
+      order
+    };
+  });
+
+  return {
+    id: lessonId,
+    title: stripTitlePrefix(lesson.title.replace(/^#+\s*/, '').replace(/\*\*/g, ''), languageInfo.code),
+    sections,
+    media: [],
+    metadata: {
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      language: languageInfo.code,
+      direction: languageInfo.direction
     }
   };
 }
@@ -576,6 +640,24 @@ export function updateLessonSection(
   };
 }
 
+/**
+ * Keeps the [IMAGE:...] references of a section when its text is rewritten.
+ * References the new text dropped are appended, ones it invented are removed.
+ */
+export function preserveImageReferences(originalContent: string, newContent: string): string {
+  const originalRefs = [...originalContent.matchAll(/\[IMAGE:([^\]]+)\]/g)].map(match => match[0]);
+
+  let content = newContent.replace(/\[IMAGE:([^\]]+)\]/g, ref => originalRefs.includes(ref) ? ref : '');
+
+  for (const ref of originalRefs) {
+    if (!content.includes(ref)) {
+      content = `${content.trimEnd()}\n\n${ref}`;
+    }
+  }
+
+  return content.replace(/\n{3,}/g, '\n\n').trim();
+}
+
 /**
  * Adds media to the lesson structure
  */
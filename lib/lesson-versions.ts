@@ -0,0 +1,276 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { type LessonSection, type LessonStructure } from '@/lib/lesson-typescript-generator';
+import { getCurrentUser } from '@/lib/auth-utils';
+
+export type LessonVersionSource = 'llm' | 'edit' | 'regenerate' | 'restore' | 'clone' | 'translate';
+
+export interface LessonSnapshot {
+  title: string | null;
+  content: string | null;
+  lesson_structure: LessonStructure | null;
+  typescript_code: string | null;
+  javascript_code: string | null;
+  generated_images: { url: string; prompt: string }[] | null;
+}
+
+export interface LessonVersion extends LessonSnapshot {
+  id: string;
+  lesson_id: string;
+  version_number: number;
+  source: LessonVersionSource;
+  author: string | null;
+  created_at: string;
+}
+
+export type LessonVersionSummary = Pick<LessonVersion, 'id' | 'lesson_id' | 'version_number' | 'source' | 'author' | 'title' | 'created_at'>;
+
+export type SectionChange = 'title' | 'content' | 'type' | 'order';
+
+export interface SectionDiff {
+  sectionId: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  changes: SectionChange[];
+  before?: LessonSection;
+  after?: LessonSection;
+}
+
+export interface LessonVersionDiff {
+  title: { before: string | null; after: string | null } | null;
+  sections: SectionDiff[];
+  media: { added: string[]; removed: string[] };
+  summary: { added: number; removed: number; modified: number; unchanged: number };
+}
+
+const SNAPSHOT_COLUMNS = 'title, content, lesson_structure, typescript_code, javascript_code, generated_images';
+const SUMMARY_COLUMNS = 'id, lesson_id, version_number, source, author, title, created_at';
+
+/**
+ * Author recorded on versions created from a request. Falls back to 'anonymous' until auth is wired up.
+ */
+export async function getVersionAuthor(): Promise<string> {
+  const user = await getCurrentUser();
+  return user?.email || user?.id || 'anonymous';
+}
+
+/**
+ * Read the current state of a lesson as a snapshot
+ */
+export async function getLessonSnapshot(lessonId: string): Promise<LessonSnapshot | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lessons')
+    .select(SNAPSHOT_COLUMNS)
+    .eq('id', lessonId)
+    .single();
+
+  if (error) {
+    console.error('Failed to fetch lesson snapshot:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Store the current state of a lesson as its next version.
+ * Call this after every write to lesson content.
+ */
+export async function createLessonVersion(
+  lessonId: string,
+  source: LessonVersionSource,
+  author: string | null = null
+): Promise<LessonVersion | null> {
+  const supabase = createServiceClient();
+  const snapshot = await getLessonSnapshot(lessonId);
+
+  if (!snapshot) {
+    return null;
+  }
+
+  // Two concurrent writers can pick the same number; the unique constraint rejects
+  // the loser, which then retries with the next one
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest } = await supabase
+      .from('lesson_versions')
+      .select('version_number')
+      .eq('lesson_id', lessonId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('lesson_versions')
+      .insert({
+        lesson_id: lessonId,
+        version_number: (latest?.version_number || 0) + 1,
+        source,
+        author,
+        ...snapshot
+      })
+      .select()
+      .single();
+
+    if (!error) {
+      return data;
+    }
+
+    // 23505 = unique_violation
+    if (error.code !== '23505') {
+      console.error('Failed to create lesson version:', error);
+      return null;
+    }
+  }
+
+  console.error('Failed to create lesson version: version number conflict');
+  return null;
+}
+
+export async function countLessonVersions(lessonId: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { count, error } = await supabase
+    .from('lesson_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('lesson_id', lessonId);
+
+  if (error) {
+    console.error('Failed to count lesson versions:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+export async function listLessonVersions(lessonId: string): Promise<LessonVersionSummary[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lesson_versions')
+    .select(SUMMARY_COLUMNS)
+    .eq('lesson_id', lessonId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch lesson versions:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function getLessonVersion(lessonId: string, versionId: string): Promise<LessonVersion | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('lesson_versions')
+    .select('*')
+    .eq('lesson_id', lessonId)
+    .eq('id', versionId)
+    .single();
+
+  if (error) {
+    console.error('Failed to fetch lesson version:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Write a stored version back to the lesson and record the rollback as a new version
+ */
+export async function restoreLessonVersion(
+  lessonId: string,
+  versionId: string,
+  author: string | null = null
+): Promise<LessonVersion | null> {
+  const version = await getLessonVersion(lessonId, versionId);
+  if (!version) {
+    return null;
+  }
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('lessons')
+    .update({
+      status: 'generated',
+      error_code: null,
+      error_message: null,
+      title: version.title,
+      content: version.content,
+      lesson_structure: version.lesson_structure,
+      typescript_code: version.typescript_code,
+      javascript_code: version.javascript_code,
+      generated_images: version.generated_images || [],
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', lessonId);
+
+  if (error) {
+    throw new Error(`Failed to restore lesson version: ${error.message}`);
+  }
+
+  return createLessonVersion(lessonId, 'restore', author);
+}
+
+/**
+ * Section-level diff between two lesson structures. Sections are matched by id.
+ */
+export function diffLessonStructures(
+  before: LessonSnapshot,
+  after: LessonSnapshot
+): LessonVersionDiff {
+  const beforeSections = before.lesson_structure?.sections || [];
+  const afterSections = after.lesson_structure?.sections || [];
+  const beforeById = new Map(beforeSections.map(section => [section.id, section]));
+  const afterById = new Map(afterSections.map(section => [section.id, section]));
+
+  const sections: SectionDiff[] = [];
+
+  for (const section of afterSections) {
+    const previous = beforeById.get(section.id);
+    if (!previous) {
+      sections.push({ sectionId: section.id, status: 'added', changes: [], after: section });
+      continue;
+    }
+
+    const changes: SectionChange[] = [];
+    if ((previous.title || '') !== (section.title || '')) changes.push('title');
+    if (previous.content !== section.content) changes.push('content');
+    if (previous.type !== section.type) changes.push('type');
+    if (previous.order !== section.order) changes.push('order');
+
+    sections.push({
+      sectionId: section.id,
+      status: changes.length > 0 ? 'modified' : 'unchanged',
+      changes,
+      before: previous,
+      after: section
+    });
+  }
+
+  for (const section of beforeSections) {
+    if (!afterById.has(section.id)) {
+      sections.push({ sectionId: section.id, status: 'removed', changes: [], before: section });
+    }
+  }
+
+  const beforeMedia = new Set((before.lesson_structure?.media || []).map(media => media.id));
+  const afterMedia = new Set((after.lesson_structure?.media || []).map(media => media.id));
+
+  return {
+    title: before.title !== after.title ? { before: before.title, after: after.title } : null,
+    sections,
+    media: {
+      added: [...afterMedia].filter(id => !beforeMedia.has(id)),
+      removed: [...beforeMedia].filter(id => !afterMedia.has(id))
+    },
+    summary: {
+      added: sections.filter(section => section.status === 'added').length,
+      removed: sections.filter(section => section.status === 'removed').length,
+      modified: sections.filter(section => section.status === 'modified').length,
+      unchanged: sections.filter(section => section.status === 'unchanged').length
+    }
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Lesson Generation Worker
+ *
+ * Polls the lesson_jobs table, claims due jobs and runs the generation or translation pipeline.
+ * - Records the current stage on the job row (doubles as a lease heartbeat)
+ * - Retries failed attempts with exponential backoff
+ * - Re-queues jobs abandoned by this or another process, on startup and then periodically
+ * - Aborts a running job when its lesson is cancelled
+ * - Releases the next lessons of a batch as its running lessons finish
+ */
+
+import os from 'os';
+import { createServiceClient } from '@/lib/supabase/server';
+import { logServerError, logServerMessage } from '@/lib/sentry';
+import { generateLessonContentWithLLM, LESSON_CANCELLED_MESSAGE } from '@/lib/lesson-generation';
+import { translateLesson } from '@/lib/lesson-translations';
+import { emitLessonEvent } from '@/lib/lesson-events';
+import { classifyLessonError, type LessonError } from '@/lib/lesson-errors';
+import { resumeLessonBatches, startNextBatchLessons, startNextBatchLessonsFor } from '@/lib/lesson-batches';
+import {
+  cancelRunningLessonJob,
+  claimNextLessonJob,
+  completeLessonJob,
+  failLessonJob,
+  heartbeatLessonJob,
+  recoverStaleLessonJobs,
+  updateLessonJobStage,
+  enqueueLessonJob,
+  LESSON_JOB_LEASE_MS,
+  type LessonJob,
+  type LessonJobPayload,
+  type LessonJobStage
+} from '@/lib/lesson-jobs';
+
+const POLL_INTERVAL_MS = 5000;
+const RECOVERY_INTERVAL_MS = LESSON_JOB_LEASE_MS / 2;
+const HEARTBEAT_INTERVAL_MS = LESSON_JOB_LEASE_MS / 4;
+const WORKER_ID = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface WorkerState {
+  started: boolean;
+  activeJobs: number;
+  polling: boolean;
+  lastRecoveryAt: number;
+  timer?: ReturnType<typeof setInterval>;
+  controllers: Map<string, AbortController>; // Running jobs in this process, by lesson id
+}
+
+// Kept on globalThis so dev-mode module reloads don't start a second loop
+const globalForWorker = globalThis as typeof globalThis & { __lessonWorker?: WorkerState };
+const state: WorkerState = globalForWorker.__lessonWorker ??= {
+  started: false,
+  activeJobs: 0,
+  polling: false,
+  lastRecoveryAt: 0,
+  controllers: new Map()
+};
+
+function getConcurrency(): number {
+  const configured = parseInt(process.env.LESSON_WORKER_CONCURRENCY || '2');
+  return Number.isFinite(configured) && configured > 0 ? configured : 2;
+}
+
+/**
+ * Start the background poll loop. Safe to call more than once.
+ */
+export function startLessonWorker(): void {
+  if (state.started) {
+    return;
+  }
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY || !process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    logServerMessage("Lesson worker not started - Supabase environment variables not configured", "warning");
+    return;
+  }
+
+  state.started = true;
+  logServerMessage("Starting lesson generation worker", "info", {
+    workerId: WORKER_ID,
+    concurrency: getConcurrency()
+  });
+
+  recoverInterruptedJobs()
+    .then(() => resumeLessonBatches())
+    .then(released => {
+      if (released > 0) {
+        logServerMessage("Released waiting batch lessons", "info", { released });
+      }
+    })
+    .catch(error => logServerError(error as Error, { operation: "resume_lesson_batches" }))
+    .finally(() => kickLessonWorker());
+
+  state.timer = setInterval(() => {
+    // Jobs abandoned by another instance are picked up without waiting for a restart here
+    if (Date.now() - state.lastRecoveryAt >= RECOVERY_INTERVAL_MS) {
+      void recoverInterruptedJobs().finally(() => kickLessonWorker());
+    } else {
+      kickLessonWorker();
+    }
+  }, POLL_INTERVAL_MS);
+  // Don't keep the process alive just for polling
+  state.timer.unref?.();
+}
+
+/**
+ * Re-queue running jobs whose worker stopped sending heartbeats
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  state.lastRecoveryAt = Date.now();
+  const recovered = await recoverStaleLessonJobs();
+  if (recovered > 0) {
+    logServerMessage("Re-queued interrupted lesson jobs", "info", { recovered });
+  }
+}
+
+/**
+ * Enqueue a generation job for a lesson and wake the worker
+ */
+export async function queueLessonGeneration(lessonId: string, payload: LessonJobPayload): Promise<LessonJob> {
+  const job = await enqueueLessonJob(lessonId, payload);
+
+  emitLessonEvent(lessonId, 'queued', 0, 'Waiting for a worker');
+  startLessonWorker();
+  kickLessonWorker();
+
+  return job;
+}
+
+/**
+ * Queue the next waiting lessons of a batch and wake the worker
+ * @returns Number of lessons queued
+ */
+export async function queueNextBatchLessons(batchId: string): Promise<number> {
+  const queued = await startNextBatchLessons(batchId);
+
+  if (queued > 0) {
+    startLessonWorker();
+    kickLessonWorker();
+  }
+
+  return queued;
+}
+
+/**
+ * Abort the generation of a lesson if it is running in this process.
+ * Jobs running elsewhere stop on their next heartbeat once the job row is cancelled.
+ * @returns true if a running job was aborted here
+ */
+export function cancelLessonGeneration(lessonId: string): boolean {
+  const controller = state.controllers.get(lessonId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort();
+  return true;
+}
+
+/**
+ * Poll for work immediately instead of waiting for the next interval
+ */
+export function kickLessonWorker(): void {
+  void pollLessonJobs();
+}
+
+async function pollLessonJobs(): Promise<void> {
+  if (state.polling) {
+    return;
+  }
+
+  state.polling = true;
+  try {
+    while (state.activeJobs < getConcurrency()) {
+      const job = await claimNextLessonJob(WORKER_ID);
+      if (!job) {
+        break;
+      }
+
+      state.activeJobs++;
+      void runLessonJob(job)
+        .then(() => startNextBatchLessonsFor(job.lesson_id))
+        .catch(error => logServerError(error as Error, { operation: "start_next_batch_lessons", lessonId: job.lesson_id }))
+        .finally(() => {
+          state.activeJobs--;
+          kickLessonWorker();
+        });
+    }
+  } catch (error) {
+    logServerError(error as Error, { operation: "poll_lesson_jobs", workerId: WORKER_ID });
+  } finally {
+    state.polling = false;
+  }
+}
+
+async function runLessonJob(job: LessonJob): Promise<void> {
+  logServerMessage("Running lesson job", "info", {
+    jobId: job.id,
+    lessonId: job.lesson_id,
+    attempt: job.attempts,
+    maxAttempts: job.max_attempts
+  });
+
+  // A job recovered after crashing the process on its last attempt should not run forever
+  if (job.attempts > job.max_attempts) {
+    await failLessonJob(job, job.last_error || 'Maximum attempts exceeded');
+    await markLessonFailed(job.lesson_id, {
+      code: 'max_attempts_exceeded',
+      message: job.last_error ? `Maximum attempts exceeded. Last error: ${job.last_error}` : 'Maximum attempts exceeded'
+    });
+    emitLessonEvent(job.lesson_id, 'failed', 100, 'Lesson generation failed', {
+      error: 'Maximum attempts exceeded',
+      errorCode: 'max_attempts_exceeded'
+    });
+    return;
+  }
+
+  emitLessonEvent(job.lesson_id, 'started', 5, job.attempts > 1 ? `Starting attempt ${job.attempts}` : 'Starting generation', {
+    attempt: job.attempts,
+    maxAttempts: job.max_attempts
+  });
+
+  const controller = new AbortController();
+  state.controllers.set(job.lesson_id, controller);
+
+  const heartbeat = setInterval(() => {
+    void heartbeatLessonJob(job.id).then(running => {
+      // The job row was cancelled, possibly from another process
+      if (!running) {
+        controller.abort();
+      }
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let ownershipLost = false;
+
+  try {
+    const hooks = {
+      onStage: async (stage: LessonJobStage) => {
+        if (!await updateLessonJobStage(job.id, stage, WORKER_ID)) {
+          // Cancelled, or recovered as stale and possibly running elsewhere by now
+          ownershipLost = true;
+          controller.abort();
+          throw new Error(LESSON_CANCELLED_MESSAGE);
+        }
+      },
+      signal: controller.signal
+    };
+    if (job.payload.translateFrom) {
+      await translateLesson(job.lesson_id, job.payload, hooks);
+    } else {
+      await generateLessonContentWithLLM(job.lesson_id, job.payload, hooks);
+    }
+    await completeLessonJob(job.id);
+
+    logServerMessage("Lesson job completed", "info", { jobId: job.id, lessonId: job.lesson_id });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // The job row and the lesson belong to whoever took the job over
+    if (ownershipLost) {
+      logServerMessage("Lesson job no longer owned by this worker, stopping", "warning", { jobId: job.id, lessonId: job.lesson_id });
+      return;
+    }
+
+    if (controller.signal.aborted || errorMessage === LESSON_CANCELLED_MESSAGE) {
+      logServerMessage("Lesson job cancelled", "info", { jobId: job.id, lessonId: job.lesson_id });
+      // Also thrown when the lesson was no longer generating at save time; the job must not be recovered and run again
+      await cancelRunningLessonJob(job.id, controller.signal.aborted ? 'Cancelled by user' : LESSON_CANCELLED_MESSAGE);
+      emitLessonEvent(job.lesson_id, 'cancelled', 100, 'Lesson generation cancelled');
+      return;
+    }
+
+    const willRetry = await failLessonJob(job, errorMessage);
+
+    logServerMessage(willRetry ? "Lesson job failed, will retry" : "Lesson job failed permanently", "warning", {
+      jobId: job.id,
+      lessonId: job.lesson_id,
+      attempt: job.attempts,
+      error: errorMessage
+    });
+
+    if (willRetry) {
+      emitLessonEvent(job.lesson_id, 'retrying', 0, `Attempt ${job.attempts} failed, retrying shortly`, {
+        attempt: job.attempts,
+        error: errorMessage
+      });
+    } else {
+      const lessonError = classifyLessonError(error);
+      await markLessonFailed(job.lesson_id, lessonError);
+      emitLessonEvent(job.lesson_id, 'failed', 100, 'Lesson generation failed', {
+        error: errorMessage,
+        errorCode: lessonError.code
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    state.controllers.delete(job.lesson_id);
+  }
+}
+
+async function markLessonFailed(lessonId: string, lessonError: LessonError): Promise<void> {
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from("lessons")
+    .update({
+      status: "error",
+      error_code: lessonError.code,
+      error_message: lessonError.message,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", lessonId)
+    .eq("status", "generating");
+
+  if (error) {
+    logServerError(error as Error, { operation: "mark_lesson_failed", lessonId });
+  }
+}
@@ -1,6 +1,6 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { 
-  SYSTEM_PROMPT, 
+  getSystemPrompt, 
   getUserPrompt, 
   extractTitle, 
   extractKeyConcepts, 
@@ -8,6 +8,8 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
 
 // Initialize Anthropic client lazily to avoid errors when API key is not set
 function getAnthropicClient() {
@@ -16,9 +18,12 @@ function getAnthropicClient() {
   }
   return new Anthropic({
     apiKey: process.env.ANTHROPIC_API_KEY,
+    maxRetries: 0, // Retried in the LLM layer so each attempt is traced
   });
 }
 
+export const ANTHROPIC_DEFAULTS: ProviderDefaults = { model: 'claude-3-5-sonnet-20241022', temperature: 0.7, maxTokens: 4000 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -26,41 +31,77 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
 }
 
-export async function generateLessonWithAnthropic(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function completeWithAnthropic(request: CompletionRequest): Promise<CompletionResult> {
+  const anthropic = getAnthropicClient();
+  const params = {
+    model: request.model || ANTHROPIC_DEFAULTS.model,
+    max_tokens: request.maxTokens || ANTHROPIC_DEFAULTS.maxTokens,
+    temperature: request.temperature ?? ANTHROPIC_DEFAULTS.temperature,
+    ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+    messages: [
+      { role: "user" as const, content: request.userPrompt }
+    ]
+  };
+
+  if (request.onChunk) {
+    const stream = await anthropic.messages.create({ ...params, stream: true }, { signal: request.signal });
+    const { content, model, usage } = await collectStream(
+      stream,
+      event => event.type === 'content_block_delta' && event.delta.type === 'text_delta' ? event.delta.text : null,
+      request.onChunk,
+      // Input tokens arrive with message_start, output tokens with the final message_delta
+      event => event.type === 'message_start'
+        ? { model: event.message.model, promptTokens: event.message.usage.input_tokens }
+        : event.type === 'message_delta'
+          ? { completionTokens: event.usage.output_tokens }
+          : null
+    );
+    if (!content) {
+      throw new Error('No content generated by Anthropic');
+    }
+    return { content, model: model || params.model, usage };
+  }
+
+  const message = await anthropic.messages.create(params, { signal: request.signal });
+
+  const content = message.content[0];
+  if (content.type !== 'text') {
+    throw new Error('Unexpected response type from Anthropic');
+  }
+
+  if (!content.text) {
+    throw new Error('No content generated by Anthropic');
+  }
+
+  return {
+    content: content.text,
+    model: message.model || params.model,
+    usage: toTokenUsage(message.usage?.input_tokens, message.usage?.output_tokens)
+  };
+}
+
+export async function generateLessonWithAnthropic(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
   } = options;
 
-  const systemPrompt = SYSTEM_PROMPT;
+  const systemPrompt = getSystemPrompt(options.language);
   const userPrompt = getUserPrompt(options);
 
   try {
-    const anthropic = getAnthropicClient();
-    const message = await anthropic.messages.create({
-      model: "claude-3-5-sonnet-20241022",
-      max_tokens: 4000,
-      temperature: 0.7,
-      system: systemPrompt,
-      messages: [
-        { role: "user", content: userPrompt }
-      ]
-    });
-
-    const content = message.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Anthropic');
-    }
-
-    const lessonContent = content.text;
-    if (!lessonContent) {
-      throw new Error('No content generated by Anthropic');
-    }
+    const { content: lessonContent, model, usage } = await completeWithAnthropic({ systemPrompt, userPrompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(lessonContent);
+    const title = extractTitle(lessonContent, options.language);
     const keyConcepts = extractKeyConcepts(lessonContent);
     const prerequisites = extractPrerequisites(lessonContent);
     const estimatedSections = countSectionsFromContent(lessonContent);
@@ -71,10 +112,21 @@ export async function generateLessonWithAnthropic(options: LessonGenerationOptio
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Anthropic API error:', error);
-    throw new Error(`Failed to generate lesson: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const anthropicProvider: TextProvider = {
+  name: 'anthropic',
+  capabilities: { streaming: true, json: false },
+  isAvailable: () => !!process.env.ANTHROPIC_API_KEY,
+  defaults: ANTHROPIC_DEFAULTS,
+  generate: generateLessonWithAnthropic,
+  complete: completeWithAnthropic
+};
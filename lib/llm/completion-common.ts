@@ -0,0 +1,129 @@
+/**
+ * Provider-agnostic text completion request.
+ * Lesson generation and smaller edits (e.g. a single section) are both built on this.
+ */
+export interface CompletionRequest extends ProviderCallOptions {
+  systemPrompt?: string;
+  userPrompt: string;
+  json?: boolean; // Ask for a JSON-only response; only for providers with the json capability
+}
+
+/**
+ * Model and sampling settings of a provider call. Unset values fall back to the
+ * provider's defaults.
+ */
+export interface ModelSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number; // Abort each attempt after this long
+}
+
+/**
+ * Settings a provider uses when a call doesn't set them
+ */
+export interface ProviderDefaults {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs?: number; // DEFAULT_TIMEOUT_MS (see ./registry) when unset
+}
+
+/**
+ * Per-call options every provider accepts alongside its prompt
+ */
+export interface ProviderCallOptions extends Omit<ModelSettings, 'timeoutMs'> {
+  signal?: AbortSignal; // Aborts the in-flight provider request
+  onChunk?: (chunk: string) => void; // When set, the provider streams and reports each markdown chunk
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string; // Model the provider actually called
+  usage?: TokenUsage; // As reported by the provider; missing when it reports none
+}
+
+export interface StreamResult {
+  content: string;
+  model?: string; // As reported in the stream
+  usage?: TokenUsage;
+}
+
+/**
+ * What a stream chunk may report besides text
+ */
+export interface StreamChunkMetadata {
+  model?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+}
+
+/**
+ * Token usage from the counts a provider reports; undefined if it reported none
+ */
+export function toTokenUsage(promptTokens?: number | null, completionTokens?: number | null): TokenUsage | undefined {
+  if (promptTokens == null && completionTokens == null) {
+    return undefined;
+  }
+  return {
+    prompt_tokens: promptTokens || 0,
+    completion_tokens: completionTokens || 0,
+    total_tokens: (promptTokens || 0) + (completionTokens || 0)
+  };
+}
+
+/**
+ * Signal that aborts when the given signal does or after timeoutMs, whichever comes first
+ */
+export function withTimeout(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+  if (!timeoutMs) {
+    return signal;
+  }
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Single prompt for providers that don't support system/user message separation
+ */
+export function toCombinedPrompt(request: CompletionRequest): string {
+  return request.systemPrompt ? `${request.systemPrompt}\n\n${request.userPrompt}` : request.userPrompt;
+}
+
+/**
+ * Collect a streamed completion, reporting each non-empty piece as it arrives.
+ * Providers report the model and usage in one or more chunks (usage usually in
+ * the last); values seen later override earlier ones.
+ */
+export async function collectStream<T>(
+  stream: AsyncIterable<T>,
+  getText: (chunk: T) => string | null | undefined,
+  onChunk: (chunk: string) => void,
+  getMetadata?: (chunk: T) => StreamChunkMetadata | null | undefined
+): Promise<StreamResult> {
+  let content = '';
+  let model: string | undefined;
+  let promptTokens: number | undefined;
+  let completionTokens: number | undefined;
+
+  for await (const chunk of stream) {
+    const text = getText(chunk);
+    if (text) {
+      content += text;
+      onChunk(text);
+    }
+
+    const metadata = getMetadata?.(chunk);
+    if (metadata?.model) model = metadata.model;
+    if (metadata?.promptTokens != null) promptTokens = metadata.promptTokens;
+    if (metadata?.completionTokens != null) completionTokens = metadata.completionTokens;
+  }
+
+  return { content, model, usage: toTokenUsage(promptTokens, completionTokens) };
+}
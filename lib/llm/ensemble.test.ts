@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getCandidateLabel,
+  getEnsembleSize,
+  getJudgeCriteria,
+  parseJudgeScores,
+  pickWinner,
+  type EnsembleCandidate,
+  type JudgeCriterion
+} from './ensemble';
+
+const CRITERIA: JudgeCriterion[] = ['grade_appropriateness', 'structure', 'accuracy', 'exercise_quality'];
+
+function judgeAnswer(candidates: unknown[]): string {
+  return JSON.stringify({ candidates });
+}
+
+function scores(grade: unknown, structure: unknown, accuracy: unknown, exercises: unknown) {
+  return { grade_appropriateness: grade, structure, accuracy, exercise_quality: exercises };
+}
+
+describe('parseJudgeScores', () => {
+  it('totals the scores of each candidate', () => {
+    const parsed = parseJudgeScores(judgeAnswer([
+      { label: 'A', scores: scores(4, 5, 3, 4), rationale: ' Clear and correct ' },
+      { label: 'B', scores: scores(2, 3, 3, 2) }
+    ]), ['A', 'B'], CRITERIA);
+
+    expect(parsed.get('A')).toEqual({ scores: scores(4, 5, 3, 4), total: 16, rationale: 'Clear and correct' });
+    expect(parsed.get('B')).toEqual({ scores: scores(2, 3, 3, 2), total: 10 });
+  });
+
+  it('finds the JSON inside surrounding text and code fences', () => {
+    const content = `Here are my scores:\n\`\`\`json\n${judgeAnswer([{ label: 'A', scores: scores(3, 3, 3, 3) }])}\n\`\`\``;
+
+    expect(parseJudgeScores(content, ['A'], CRITERIA).get('A')?.total).toBe(12);
+  });
+
+  it('rounds and clamps scores to the rubric range', () => {
+    const parsed = parseJudgeScores(judgeAnswer([
+      { label: 'A', scores: scores(4.6, 9, -2, '3') }
+    ]), ['A'], CRITERIA);
+
+    expect(parsed.get('A')?.scores).toEqual(scores(5, 5, 1, 3));
+  });
+
+  it('leaves a candidate missing a criterion unscored', () => {
+    const parsed = parseJudgeScores(judgeAnswer([
+      { label: 'A', scores: { grade_appropriateness: 4, structure: 4, accuracy: 4 } }
+    ]), ['A'], CRITERIA);
+
+    expect(parsed.has('A')).toBe(false);
+  });
+
+  it('only requires the criteria that apply', () => {
+    const criteria = getJudgeCriteria(false);
+    const parsed = parseJudgeScores(judgeAnswer([
+      { label: 'A', scores: { grade_appropriateness: 4, structure: 4, accuracy: 4 } }
+    ]), ['A'], criteria);
+
+    expect(parsed.get('A')?.total).toBe(12);
+  });
+
+  it('normalises labels and ignores unknown and repeated ones', () => {
+    const parsed = parseJudgeScores(judgeAnswer([
+      { label: ' b ', scores: scores(5, 5, 5, 5) },
+      { label: 'B', scores: scores(1, 1, 1, 1) },
+      { label: 'C', scores: scores(5, 5, 5, 5) }
+    ]), ['A', 'B'], CRITERIA);
+
+    expect([...parsed.keys()]).toEqual(['B']);
+    expect(parsed.get('B')?.total).toBe(20);
+  });
+
+  it('returns no scores for answers that are not judge JSON', () => {
+    expect(parseJudgeScores('I cannot decide.', ['A'], CRITERIA).size).toBe(0);
+    expect(parseJudgeScores('{ "candidates": [ { "label": "A", }', ['A'], CRITERIA).size).toBe(0);
+    expect(parseJudgeScores('{"winner": "A"}', ['A'], CRITERIA).size).toBe(0);
+  });
+});
+
+describe('pickWinner', () => {
+  function candidate(label: string, total?: number): EnsembleCandidate {
+    return { label, provider: `provider-${label}`, ...(total !== undefined ? { score: { scores: {}, total } } : {}) };
+  }
+
+  it('picks the highest total', () => {
+    expect(pickWinner([candidate('A', 12), candidate('B', 17), candidate('C', 15)])).toBe('B');
+  });
+
+  it('gives ties to the earlier candidate', () => {
+    expect(pickWinner([candidate('A', 15), candidate('B', 15)])).toBe('A');
+  });
+
+  it('skips unscored candidates', () => {
+    expect(pickWinner([candidate('A'), candidate('B', 8)])).toBe('B');
+  });
+
+  it('returns null when nothing was scored', () => {
+    expect(pickWinner([candidate('A'), candidate('B')])).toBeNull();
+    expect(pickWinner([])).toBeNull();
+  });
+});
+
+describe('ensemble settings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the ensemble between two and three candidates', () => {
+    vi.stubEnv('LLM_ENSEMBLE_SIZE', '5');
+    expect(getEnsembleSize()).toBe(3);
+
+    vi.stubEnv('LLM_ENSEMBLE_SIZE', '1');
+    expect(getEnsembleSize()).toBe(2);
+
+    vi.stubEnv('LLM_ENSEMBLE_SIZE', 'many');
+    expect(getEnsembleSize()).toBe(3);
+  });
+
+  it('leaves exercise quality out for lessons without exercises', () => {
+    expect(getJudgeCriteria(true)).toContain('exercise_quality');
+    expect(getJudgeCriteria(false)).not.toContain('exercise_quality');
+  });
+
+  it('labels candidates with letters', () => {
+    expect([0, 1, 2].map(getCandidateLabel)).toEqual(['A', 'B', 'C']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Ensemble lesson generation
+ *
+ * For important lessons, two or three providers each write a candidate in parallel and a
+ * judge scores every candidate against a rubric; the highest total wins. Candidates are
+ * shown to the judge under letters rather than provider names so it can't favour a provider.
+ */
+
+export const JUDGE_CRITERIA = {
+  grade_appropriateness: 'Vocabulary, explanations and difficulty suit the grade level',
+  structure: 'Clear sections in a logical order, with objectives and a summary',
+  accuracy: 'Facts, definitions, worked examples and answers are correct',
+  exercise_quality: 'Exercises practise the lesson content at the right level and vary in difficulty'
+} as const;
+
+export type JudgeCriterion = keyof typeof JUDGE_CRITERIA;
+
+export const JUDGE_MIN_SCORE = 1;
+export const JUDGE_MAX_SCORE = 5;
+
+export interface CandidateScore {
+  scores: Partial<Record<JudgeCriterion, number>>;
+  total: number;
+  rationale?: string;
+}
+
+export interface EnsembleCandidate {
+  label: string; // Letter the candidate was shown to the judge under
+  provider: string;
+  model?: string;
+  title?: string;
+  error?: string; // Set when the provider failed to write a candidate
+  score?: CandidateScore;
+}
+
+export interface EnsembleResult {
+  candidates: EnsembleCandidate[];
+  criteria: JudgeCriterion[];
+  judge_provider?: string;
+  judge_error?: string; // The first candidate is kept when judging fails
+  winner: string | null; // Label of the kept candidate, null if every provider failed
+}
+
+export function getEnsembleSize(): number {
+  const size = parseInt(process.env.LLM_ENSEMBLE_SIZE || '3');
+  return Number.isFinite(size) ? Math.min(Math.max(size, 2), 3) : 3;
+}
+
+/**
+ * Criteria that apply to a lesson; exercises are only judged when the lesson has them
+ */
+export function getJudgeCriteria(includeExercises: boolean = true): JudgeCriterion[] {
+  return (Object.keys(JUDGE_CRITERIA) as JudgeCriterion[])
+    .filter(criterion => includeExercises || criterion !== 'exercise_quality');
+}
+
+export function getCandidateLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Read the judge's scores per candidate label. Scores are rounded and clamped to the
+ * rubric range; a candidate missing any criterion is left unscored.
+ */
+export function parseJudgeScores(content: string, labels: string[], criteria: JudgeCriterion[]): Map<string, CandidateScore> {
+  const scores = new Map<string, CandidateScore>();
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return scores;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.substring(start, end + 1));
+  } catch {
+    return scores;
+  }
+
+  const entries = (parsed as { candidates?: unknown })?.candidates;
+  if (!Array.isArray(entries)) {
+    return scores;
+  }
+
+  for (const entry of entries) {
+    const label = String(entry?.label || '').trim().toUpperCase();
+    if (!labels.includes(label) || scores.has(label)) {
+      continue;
+    }
+
+    const candidateScores: Partial<Record<JudgeCriterion, number>> = {};
+    for (const criterion of criteria) {
+      const value = parseFloat(String(entry?.scores?.[criterion]));
+      if (Number.isFinite(value)) {
+        candidateScores[criterion] = Math.min(Math.max(Math.round(value), JUDGE_MIN_SCORE), JUDGE_MAX_SCORE);
+      }
+    }
+    if (Object.keys(candidateScores).length < criteria.length) {
+      continue;
+    }
+
+    scores.set(label, {
+      scores: candidateScores,
+      total: Object.values(candidateScores).reduce((sum, value) => sum + value, 0),
+      ...(typeof entry?.rationale === 'string' && entry.rationale.trim() ? { rationale: entry.rationale.trim() } : {})
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Label of the scored candidate with the highest total. Ties go to the earlier candidate,
+ * which is the provider higher in the priority order. Null if no candidate was scored.
+ */
+export function pickWinner(candidates: EnsembleCandidate[]): string | null {
+  let winner: EnsembleCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.score && (!winner?.score || candidate.score.total > winner.score.total)) {
+      winner = candidate;
+    }
+  }
+  return winner?.label || null;
+}
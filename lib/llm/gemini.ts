@@ -1,6 +1,6 @@
 import { GoogleGenAI } from '@google/genai';
 import { 
-  SYSTEM_PROMPT, 
+  getSystemPrompt, 
   getUserPrompt, 
   extractTitle, 
   extractKeyConcepts, 
@@ -8,6 +8,8 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toCombinedPrompt, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
 
 // Initialize Gemini client lazily to avoid errors when API key is not set
 function getGeminiClient() {
@@ -17,6 +19,9 @@ function getGeminiClient() {
   return new GoogleGenAI({ apiKey: process.env.GOOGLE_API_KEY });
 }
 
+// Gemini's own default temperature and output limit
+export const GEMINI_DEFAULTS: ProviderDefaults = { model: 'gemini-2.0-flash-exp', temperature: 1, maxTokens: 8192 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -24,45 +29,87 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
 }
 
-export async function generateLessonWithGemini(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function completeWithGemini(request: CompletionRequest): Promise<CompletionResult> {
+  const ai = getGeminiClient();
+
+  const params = {
+    model: request.model || GEMINI_DEFAULTS.model,
+    contents: toCombinedPrompt(request),
+    config: {
+      abortSignal: request.signal,
+      temperature: request.temperature ?? GEMINI_DEFAULTS.temperature,
+      maxOutputTokens: request.maxTokens || GEMINI_DEFAULTS.maxTokens,
+      ...(request.json ? { responseMimeType: 'application/json' } : {}),
+    },
+  };
+
+  if (request.onChunk) {
+    const stream = await ai.models.generateContentStream(params);
+    const { content, model, usage } = await collectStream(
+      stream,
+      chunk => chunk.text,
+      request.onChunk,
+      chunk => ({
+        model: chunk.modelVersion,
+        promptTokens: chunk.usageMetadata?.promptTokenCount,
+        completionTokens: chunk.usageMetadata?.candidatesTokenCount
+      })
+    );
+    if (!content) {
+      throw new Error('No content generated by Gemini');
+    }
+    return { content, model: model || params.model, usage };
+  }
+
+  const response = await ai.models.generateContent(params);
+
+  // Extract content from Gemini response
+  let content: string = '';
+
+  if (response.candidates && response.candidates.length > 0) {
+    const candidate = response.candidates[0];
+    if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
+      const part = candidate.content.parts[0];
+      if (part.text) {
+        content = part.text;
+      }
+    }
+  }
+
+  if (!content) {
+    console.error('Unexpected response structure:', JSON.stringify(response, null, 2));
+    throw new Error('No content generated by Gemini');
+  }
+
+  return {
+    content,
+    model: response.modelVersion || params.model,
+    usage: toTokenUsage(response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount)
+  };
+}
+
+export async function generateLessonWithGemini(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
   } = options;
 
-  const systemPrompt = SYSTEM_PROMPT;
+  const systemPrompt = getSystemPrompt(options.language);
   const userPrompt = getUserPrompt(options);
 
   try {
-    const ai = getGeminiClient();
-    
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-exp",
-      contents: `${systemPrompt}\n\n${userPrompt}`,
-    });
-    
-    // Extract content from Gemini response
-    let content: string = '';
-    
-    if (response.candidates && response.candidates.length > 0) {
-      const candidate = response.candidates[0];
-      if (candidate.content && candidate.content.parts && candidate.content.parts.length > 0) {
-        const part = candidate.content.parts[0];
-        if (part.text) {
-          content = part.text;
-        }
-      }
-    }
-
-    if (!content) {
-      console.error('Unexpected response structure:', JSON.stringify(response, null, 2));
-      throw new Error('No content generated by Gemini');
-    }
+    const { content, model, usage } = await completeWithGemini({ systemPrompt, userPrompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -73,10 +120,21 @@ export async function generateLessonWithGemini(options: LessonGenerationOptions)
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Gemini API error:', error);
-    throw new Error(`Failed to generate lesson with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const geminiProvider: TextProvider = {
+  name: 'gemini',
+  capabilities: { streaming: true, json: true },
+  isAvailable: () => !!process.env.GOOGLE_API_KEY,
+  defaults: GEMINI_DEFAULTS,
+  generate: generateLessonWithGemini,
+  complete: completeWithGemini
+};
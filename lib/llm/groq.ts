@@ -1,6 +1,6 @@
 import Groq from 'groq-sdk';
 import { 
-  SYSTEM_PROMPT, 
+  getSystemPrompt, 
   getUserPrompt, 
   extractTitle, 
   extractKeyConcepts, 
@@ -8,6 +8,8 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
 
 // Initialize Groq client lazily to avoid errors when API key is not set
 function getGroqClient() {
@@ -16,9 +18,13 @@ function getGroqClient() {
   }
   return new Groq({
     apiKey: process.env.GROQ_API_KEY,
+    maxRetries: 0, // Retried in the LLM layer so each attempt is traced
   });
 }
 
+// llama-3.1-8b-instant is the current free model on Groq
+export const GROQ_DEFAULTS: ProviderDefaults = { model: 'llama-3.1-8b-instant', temperature: 0.7, maxTokens: 4000 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -26,36 +32,73 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
 }
 
-export async function generateLessonWithGroq(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function completeWithGroq(request: CompletionRequest): Promise<CompletionResult> {
+  const groq = getGroqClient();
+  const params = {
+    model: request.model || GROQ_DEFAULTS.model,
+    messages: [
+      ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+      { role: "user" as const, content: request.userPrompt }
+    ],
+    max_tokens: request.maxTokens || GROQ_DEFAULTS.maxTokens,
+    temperature: request.temperature ?? GROQ_DEFAULTS.temperature,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+
+  if (request.onChunk) {
+    const stream = await groq.chat.completions.create({ ...params, stream: true }, { signal: request.signal });
+    const { content, model, usage } = await collectStream(
+      stream,
+      chunk => chunk.choices[0]?.delta?.content,
+      request.onChunk,
+      chunk => ({
+        model: chunk.model,
+        promptTokens: chunk.x_groq?.usage?.prompt_tokens,
+        completionTokens: chunk.x_groq?.usage?.completion_tokens
+      })
+    );
+    if (!content) {
+      throw new Error('No content generated by Groq');
+    }
+    return { content, model: model || params.model, usage };
+  }
+
+  const completion = await groq.chat.completions.create(params, { signal: request.signal });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content generated by Groq');
+  }
+
+  return {
+    content,
+    model: completion.model || params.model,
+    usage: toTokenUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens)
+  };
+}
+
+export async function generateLessonWithGroq(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
   } = options;
 
-  const systemPrompt = SYSTEM_PROMPT;
+  const systemPrompt = getSystemPrompt(options.language);
   const userPrompt = getUserPrompt(options);
 
   try {
-    const groq = getGroqClient();
-    const completion = await groq.chat.completions.create({
-      model: "llama-3.1-8b-instant", // Updated to current free model on Groq
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      max_tokens: 4000,
-      temperature: 0.7,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content generated by Groq');
-    }
+    const { content, model, usage } = await completeWithGroq({ systemPrompt, userPrompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -66,10 +109,21 @@ export async function generateLessonWithGroq(options: LessonGenerationOptions):
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Groq API error:', error);
-    throw new Error(`Failed to generate lesson with Groq: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson with Groq: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const groqProvider: TextProvider = {
+  name: 'groq',
+  capabilities: { streaming: true, json: true },
+  isAvailable: () => !!process.env.GROQ_API_KEY,
+  defaults: GROQ_DEFAULTS,
+  generate: generateLessonWithGroq,
+  complete: completeWithGroq
+};
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type LLMCall } from '@/lib/tracing';
+import {
+  allowProviderRequest,
+  canRequestProvider,
+  getFinalAttempts,
+  getProviderHealth,
+  recordProviderFailure,
+  recordProviderSuccess
+} from './health';
+
+vi.mock('@/lib/supabase/server', () => ({ createServiceClient: vi.fn() }));
+
+const COOLDOWN_MS = 300 * 1000;
+
+function resetHealth() {
+  delete (globalThis as { __providerHealth?: unknown }).__providerHealth;
+}
+
+function call(provider: string, success: boolean, attempt?: number): LLMCall {
+  return { provider, success, attempt, timestamp: new Date(0).toISOString() } as LLMCall;
+}
+
+describe('provider circuit breaker', () => {
+  beforeEach(() => {
+    resetHealth();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('stays closed below the failure threshold', () => {
+    recordProviderFailure('groq', 'boom', 0);
+    recordProviderFailure('groq', 'boom', 1);
+
+    expect(getProviderHealth('groq', 2).state).toBe('closed');
+    expect(allowProviderRequest('groq', 2)).toBe(true);
+  });
+
+  it('opens after consecutive failures and skips the provider during the cooldown', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+
+    const health = getProviderHealth('groq', 3);
+    expect(health.state).toBe('open');
+    expect(health.retryAt).toBe(2 + COOLDOWN_MS);
+    expect(allowProviderRequest('groq', 3)).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    recordProviderFailure('groq', 'boom', 0);
+    recordProviderFailure('groq', 'boom', 1);
+    recordProviderSuccess('groq', 2);
+    recordProviderFailure('groq', 'boom', 3);
+
+    expect(getProviderHealth('groq', 4)).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('lets a single probe through once the cooldown ends', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+    const probeAt = 2 + COOLDOWN_MS;
+
+    expect(getProviderHealth('groq', probeAt).state).toBe('half_open');
+    expect(canRequestProvider('groq', probeAt)).toBe(true);
+    expect(allowProviderRequest('groq', probeAt)).toBe(true);
+    expect(allowProviderRequest('groq', probeAt + 1)).toBe(false);
+  });
+
+  it('does not claim the probe when only checking', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+    const probeAt = 2 + COOLDOWN_MS;
+
+    expect(canRequestProvider('groq', probeAt)).toBe(true);
+    expect(canRequestProvider('groq', probeAt)).toBe(true);
+    expect(allowProviderRequest('groq', probeAt)).toBe(true);
+  });
+
+  it('gives up on a probe that never reported back after one cooldown', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+    const probeAt = 2 + COOLDOWN_MS;
+    allowProviderRequest('groq', probeAt);
+
+    expect(allowProviderRequest('groq', probeAt + COOLDOWN_MS)).toBe(true);
+  });
+
+  it('closes the circuit when the probe succeeds', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+    const probeAt = 2 + COOLDOWN_MS;
+    allowProviderRequest('groq', probeAt);
+    recordProviderSuccess('groq', probeAt + 1);
+
+    expect(getProviderHealth('groq', probeAt + 2)).toMatchObject({ state: 'closed', consecutiveFailures: 0, probeStartedAt: null });
+  });
+
+  it('reopens the circuit when the probe fails', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+    const probeAt = 2 + COOLDOWN_MS;
+    allowProviderRequest('groq', probeAt);
+    recordProviderFailure('groq', 'still down', probeAt + 1);
+
+    const health = getProviderHealth('groq', probeAt + 2);
+    expect(health).toMatchObject({ state: 'open', lastError: 'still down', retryAt: probeAt + 1 + COOLDOWN_MS });
+  });
+
+  it('reads the threshold and cooldown from the environment', () => {
+    vi.stubEnv('LLM_CIRCUIT_FAILURE_THRESHOLD', '1');
+    vi.stubEnv('LLM_CIRCUIT_COOLDOWN_SECONDS', '10');
+    recordProviderFailure('groq', 'boom', 0);
+
+    expect(getProviderHealth('groq', 1)).toMatchObject({ state: 'open', retryAt: 10000 });
+  });
+
+  it('tracks providers separately', () => {
+    [0, 1, 2].forEach(at => recordProviderFailure('groq', 'boom', at));
+
+    expect(allowProviderRequest('gemini', 3)).toBe(true);
+  });
+});
+
+describe('getFinalAttempts', () => {
+  it('drops failed attempts that were retried', () => {
+    const calls = [call('groq', false, 1), call('groq', false, 2), call('groq', true, 3)];
+
+    expect(getFinalAttempts(calls)).toEqual([calls[2]]);
+  });
+
+  it('keeps the last failed attempt of a call', () => {
+    const calls = [call('groq', false, 1), call('groq', false, 2), call('gemini', true, 1)];
+
+    expect(getFinalAttempts(calls)).toEqual([calls[1], calls[2]]);
+  });
+
+  it('counts separate calls to the same provider separately', () => {
+    const calls = [call('groq', false, 1), call('gemini', true, 1), call('groq', false, 1)];
+
+    expect(getFinalAttempts(calls)).toEqual(calls);
+  });
+
+  it('treats calls without an attempt number as first attempts', () => {
+    const calls = [call('groq', false), call('groq', true, 2)];
+
+    expect(getFinalAttempts(calls)).toEqual([calls[1]]);
+  });
+});
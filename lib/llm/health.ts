@@ -0,0 +1,219 @@
+/**
+ * LLM Provider Health
+ *
+ * A circuit breaker per provider. After LLM_CIRCUIT_FAILURE_THRESHOLD consecutive
+ * failures a provider's circuit opens and it is skipped for LLM_CIRCUIT_COOLDOWN_SECONDS.
+ * Once the cooldown ends the circuit is half-open: one request is let through as a
+ * probe, and its outcome closes the circuit again or starts a new cooldown.
+ * State lives in this process and is seeded from the LLM calls of recent lesson traces.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import { type LLMCall } from '@/lib/tracing';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: number | null; // Epoch ms
+  lastSuccessAt: number | null;
+  retryAt: number | null; // When an open circuit lets a probe through
+  probeStartedAt: number | null; // Set while a half-open probe is in flight
+}
+
+export function getCircuitSettings() {
+  const threshold = parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3');
+  const cooldownSeconds = parseInt(process.env.LLM_CIRCUIT_COOLDOWN_SECONDS || '300');
+  const seedMinutes = parseInt(process.env.LLM_HEALTH_SEED_MINUTES || '60');
+  return {
+    failureThreshold: threshold > 0 ? threshold : 3,
+    cooldownMs: (cooldownSeconds > 0 ? cooldownSeconds : 300) * 1000,
+    seedWindowMs: (seedMinutes >= 0 ? seedMinutes : 60) * 60 * 1000
+  };
+}
+
+// Kept on globalThis so dev-mode module reloads don't forget provider failures
+const globalForHealth = globalThis as typeof globalThis & {
+  __providerHealth?: Map<string, ProviderHealth>;
+  __providerHealthSeed?: Promise<void>;
+};
+
+function getHealthMap(): Map<string, ProviderHealth> {
+  return globalForHealth.__providerHealth ??= new Map();
+}
+
+function getHealth(provider: string): ProviderHealth {
+  const health = getHealthMap();
+  let entry = health.get(provider);
+  if (!entry) {
+    entry = {
+      provider,
+      state: 'closed',
+      consecutiveFailures: 0,
+      lastError: null,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      retryAt: null,
+      probeStartedAt: null
+    };
+    health.set(provider, entry);
+  }
+  return entry;
+}
+
+/**
+ * Health of a provider as of now; an open circuit whose cooldown has ended reads as half-open
+ */
+export function getProviderHealth(provider: string, now: number = Date.now()): ProviderHealth {
+  const entry = getHealth(provider);
+  if (entry.state === 'open' && entry.retryAt !== null && entry.retryAt <= now) {
+    entry.state = 'half_open';
+    entry.probeStartedAt = null;
+  }
+  return { ...entry };
+}
+
+/**
+ * Whether a request could be sent to the provider now, without claiming a half-open probe.
+ * A probe that never reported back is given up after one cooldown.
+ */
+export function canRequestProvider(provider: string, now: number = Date.now()): boolean {
+  const { state, probeStartedAt } = getProviderHealth(provider, now);
+
+  if (state === 'closed') {
+    return true;
+  }
+  if (state === 'open') {
+    return false;
+  }
+  return probeStartedAt === null || now - probeStartedAt >= getCircuitSettings().cooldownMs;
+}
+
+/**
+ * Whether a request may be sent to the provider now. For a half-open circuit this claims
+ * the single probe.
+ */
+export function allowProviderRequest(provider: string, now: number = Date.now()): boolean {
+  if (!canRequestProvider(provider, now)) {
+    return false;
+  }
+  const entry = getHealth(provider);
+  if (entry.state === 'half_open') {
+    entry.probeStartedAt = now;
+  }
+  return true;
+}
+
+export function recordProviderSuccess(provider: string, at: number = Date.now()) {
+  const entry = getHealth(provider);
+  entry.state = 'closed';
+  entry.consecutiveFailures = 0;
+  entry.retryAt = null;
+  entry.probeStartedAt = null;
+  entry.lastSuccessAt = Math.max(entry.lastSuccessAt || 0, at);
+}
+
+/**
+ * Count a failed call. Cancelled calls are not failures of the provider and should not be recorded.
+ */
+export function recordProviderFailure(provider: string, error: string, at: number = Date.now()) {
+  const { failureThreshold, cooldownMs } = getCircuitSettings();
+  const entry = getHealth(provider);
+
+  entry.consecutiveFailures += 1;
+  entry.lastError = error;
+  entry.lastFailureAt = Math.max(entry.lastFailureAt || 0, at);
+  entry.probeStartedAt = null;
+
+  // A failed probe reopens the circuit straight away
+  if (entry.state === 'half_open' || entry.consecutiveFailures >= failureThreshold) {
+    if (entry.state !== 'open') {
+      console.warn(`Circuit for LLM provider ${provider} opened after ${entry.consecutiveFailures} consecutive failures`);
+    }
+    entry.state = 'open';
+    entry.retryAt = at + cooldownMs;
+  }
+}
+
+/**
+ * The calls of one trace without the failed attempts that were retried. Each retry is
+ * recorded as its own call, but a call only counts once towards the circuit, with its outcome.
+ */
+export function getFinalAttempts(calls: LLMCall[]): LLMCall[] {
+  return calls.filter((call, index) => {
+    if (call.success) {
+      return true;
+    }
+    const next = calls.slice(index + 1).find(later => later.provider === call.provider);
+    return next?.attempt !== (call.attempt || 1) + 1;
+  });
+}
+
+async function seedProviderHealth() {
+  const { seedWindowMs } = getCircuitSettings();
+  if (seedWindowMs === 0) {
+    return;
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('lesson_traces')
+    .select('status, llm_calls')
+    .gte('created_at', new Date(Date.now() - seedWindowMs).toISOString());
+
+  if (error) {
+    console.error('Failed to seed provider health from lesson traces:', error);
+    return;
+  }
+
+  // Failures of cancelled traces are mostly the cancellation itself
+  const calls = (data || [])
+    .flatMap(trace => getFinalAttempts((trace.llm_calls || []) as LLMCall[])
+      .filter(call => call.success || trace.status !== 'cancelled'))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const call of calls) {
+    const at = new Date(call.timestamp).getTime();
+    if (call.success) {
+      recordProviderSuccess(call.provider, at);
+    } else {
+      recordProviderFailure(call.provider, call.error || 'Unknown error', at);
+    }
+  }
+}
+
+/**
+ * Seed the health state from recent traces, once per process
+ */
+export function loadProviderHealth(): Promise<void> {
+  return globalForHealth.__providerHealthSeed ??= seedProviderHealth().catch(error => {
+    console.error('Failed to seed provider health:', error);
+  });
+}
+
+/**
+ * Health of the given providers with times as ISO strings, for the health endpoint
+ */
+export async function getProviderHealthReport(providers: string[]) {
+  await loadProviderHealth();
+
+  const now = Date.now();
+  const toIso = (time: number | null) => time === null ? null : new Date(time).toISOString();
+
+  return providers.map(provider => {
+    const health = getProviderHealth(provider, now);
+    return {
+      provider,
+      state: health.state,
+      healthy: health.state === 'closed',
+      consecutiveFailures: health.consecutiveFailures,
+      lastError: health.lastError,
+      lastFailureAt: toIso(health.lastFailureAt),
+      lastSuccessAt: toIso(health.lastSuccessAt),
+      retryAt: health.state === 'open' ? toIso(health.retryAt) : null
+    };
+  });
+}
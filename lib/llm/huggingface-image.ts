@@ -34,7 +34,7 @@ export class HuggingFaceImageProvider implements ImageProvider {
     return !!this.apiKey;
   }
   
-  async generateImage(prompt: string, tracer?: ImageTracer): Promise<string> {
+  async generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
     try {
       if (!this.apiKey) {
         throw new Error('HUGGINGFACE_API_KEY environment variable is not set');
@@ -75,6 +75,7 @@ export class HuggingFaceImageProvider implements ImageProvider {
                 'Content-Type': 'application/json',
               },
               body: JSON.stringify(requestData),
+              signal,
             }
           );
           
@@ -162,6 +163,9 @@ export class HuggingFaceImageProvider implements ImageProvider {
           }
           
         } catch (error: any) {
+          if (signal?.aborted) {
+            throw error;
+          }
           lastError = error;
           const errorMsg = error?.message || error?.toString() || 'Unknown error';
           const attemptDuration = Date.now() - attemptStartTime;
@@ -7,6 +7,8 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toCombinedPrompt, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
 
 // Initialize Hugging Face client lazily to avoid errors when API key is not set
 function getHuggingFaceClient() {
@@ -16,6 +18,8 @@ function getHuggingFaceClient() {
   return new HfInference(process.env.HUGGINGFACE_API_KEY);
 }
 
+export const HUGGINGFACE_DEFAULTS: ProviderDefaults = { model: 'meta-llama/Llama-2-7b-chat-hf', temperature: 0.7, maxTokens: 2000 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -23,9 +27,55 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
+}
+
+export async function completeWithHuggingFace(request: CompletionRequest): Promise<CompletionResult> {
+  const hf = getHuggingFaceClient();
+  // Use a good open-source model for text generation
+  const args = {
+    model: request.model || HUGGINGFACE_DEFAULTS.model,
+    inputs: toCombinedPrompt(request),
+    parameters: {
+      max_new_tokens: request.maxTokens || HUGGINGFACE_DEFAULTS.maxTokens,
+      temperature: request.temperature ?? HUGGINGFACE_DEFAULTS.temperature,
+      do_sample: true,
+      return_full_text: false,
+      details: true // Reports the number of generated tokens
+    }
+  };
+
+  if (request.onChunk) {
+    const stream = hf.textGenerationStream(args, { signal: request.signal });
+    // The final chunk reports how many tokens were generated; prompt tokens are not reported
+    const { content, usage } = await collectStream(
+      stream,
+      chunk => chunk.token.special ? null : chunk.token.text,
+      request.onChunk,
+      chunk => ({ completionTokens: chunk.details?.generated_tokens })
+    );
+    if (!content) {
+      throw new Error('No content generated by Hugging Face');
+    }
+    return { content, model: args.model, usage };
+  }
+
+  const result = await hf.textGeneration(args, { signal: request.signal });
+
+  const content = result.generated_text;
+  if (!content) {
+    throw new Error('No content generated by Hugging Face');
+  }
+
+  return { content, model: args.model, usage: toTokenUsage(null, result.details?.generated_tokens) };
 }
 
-export async function generateLessonWithHuggingFace(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function generateLessonWithHuggingFace(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
@@ -34,26 +84,10 @@ export async function generateLessonWithHuggingFace(options: LessonGenerationOpt
   const prompt = getCombinedPrompt(options);
 
   try {
-    const hf = getHuggingFaceClient();
-    // Use a good open-source model for text generation
-    const result = await hf.textGeneration({
-      model: "meta-llama/Llama-2-7b-chat-hf", // Updated to working model
-      inputs: prompt,
-      parameters: {
-        max_new_tokens: 2000,
-        temperature: 0.7,
-        do_sample: true,
-        return_full_text: false
-      }
-    });
-
-    const content = result.generated_text;
-    if (!content) {
-      throw new Error('No content generated by Hugging Face');
-    }
+    const { content, model, usage } = await completeWithHuggingFace({ userPrompt: prompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -64,10 +98,21 @@ export async function generateLessonWithHuggingFace(options: LessonGenerationOpt
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Hugging Face API error:', error);
-    throw new Error(`Failed to generate lesson with Hugging Face: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson with Hugging Face: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const huggingFaceProvider: TextProvider = {
+  name: 'huggingface',
+  capabilities: { streaming: true, json: false },
+  isAvailable: () => !!process.env.HUGGINGFACE_API_KEY,
+  defaults: HUGGINGFACE_DEFAULTS,
+  generate: generateLessonWithHuggingFace,
+  complete: completeWithHuggingFace
+};
@@ -1,5 +1,6 @@
 import { logServerMessage, logServerError } from '@/lib/sentry';
 import { ImageTracer } from '@/lib/image-tracing';
+import { getLessonLanguage, getVisualAidPattern, type LessonLanguage } from './languages';
 
 /**
  * Generated image with metadata
@@ -15,19 +16,41 @@ export interface GeneratedImage {
  */
 export interface ImageProvider {
   name: string;
-  generateImage(prompt: string, tracer?: ImageTracer): Promise<string>;
+  generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string>;
   isAvailable(): boolean;
 }
 
 // Export types and interfaces
 export type { GeneratedImage as GeneratedImageType, ImageProvider as ImageProviderType };
 
+/**
+ * Wait between polls or rate-limited requests, stopping early if the signal aborts
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Image generation was cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Image generation was cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Find all Visual Aid suggestions in the content
  * Returns an array of suggestions with their text and the exact matched line
  * Enforces a maximum of 3 suggestions as per the prompt requirement
+ * @param language Language of the lesson; its translated Visual Aid labels are matched too
  */
-export function findVisualAidSuggestions(content: string): { 
+export function findVisualAidSuggestions(content: string, language?: LessonLanguage): { 
   text: string; 
   matchedLine: string;
 }[] {
@@ -36,7 +59,7 @@ export function findVisualAidSuggestions(content: string): {
   
   // Consolidated pattern that matches all variations of Visual Aid suggestions
   // This single pattern handles both **Visual Aid Suggestion:** and Visual Aid Suggestion:** formats
-  const pattern = /(?:\*\*)?Visual Aid Suggestion[:\s]*(?:\*\*)?\s*([^\n]+)/gi;
+  const pattern = getVisualAidPattern(language);
   
   const matches = [...content.matchAll(pattern)];
   
@@ -195,16 +218,20 @@ export function createEducationalImagePrompt(
 /**
  * Extract key concepts and create image generation prompts from lesson content
  * @param content The full lesson content in markdown format
+ * @param language Language the lesson is written in (English when omitted)
  * @returns Array of prompts for image generation with section targets
  * If Visual Aid hints are found, returns one prompt per hint (no limit).
  * If no Visual Aid hints, returns prompts for sections 2 and 3 (2 images).
  */
 export async function extractImagePromptsFromContent(
-  content: string
+  content: string,
+  language?: LessonLanguage
 ): Promise<{ prompt: string; visualAidLine: string }[]> {
   try {
+    const languageInfo = getLessonLanguage(language);
     logServerMessage('Extracting image prompts from content', 'info', { 
-      contentLength: content.length
+      contentLength: content.length,
+      language: languageInfo.code
     });
     
     // Split content into sections by headers (## or ###)
@@ -216,12 +243,12 @@ export async function extractImagePromptsFromContent(
         index: i,
         length: s.length,
         firstLine: s.split('\n')[0].substring(0, 60),
-        hasVisualAid: /Visual Aid/i.test(s)
+        hasVisualAid: getVisualAidPattern(language, 'i').test(s)
       }))
     });
     
     // PRIORITY: Look for Visual Aid suggestions across all sections
-    const visualAidSuggestions = findVisualAidSuggestions(content);
+    const visualAidSuggestions = findVisualAidSuggestions(content, language);
     
     logServerMessage('Found Visual Aid suggestions', 'info', {
       count: visualAidSuggestions.length,
@@ -270,6 +297,11 @@ export async function extractImagePromptsFromContent(
           const allConcepts = [visualAidPrompt, ...sectionConcepts];
           finalPrompt = createEducationalImagePrompt(allConcepts, index === 0 ? 'introduction' : 'details');
         }
+
+        // Hints in other languages are passed on as written; keep any text in the picture in that language too
+        if (languageInfo.code !== 'en') {
+          finalPrompt += `. Any labels or text in the image are in ${languageInfo.name}`;
+        }
         
         // Fix section index mapping: split()[0] is content before first ##,
         // but lessonStructure.sections[0] is the first ## section
@@ -320,12 +352,16 @@ export async function extractImagePromptsFromContent(
  * @param prompts Array of prompts with their positions
  * @param provider Image generation provider
  * @param tracer Optional ImageTracer for logging
+ * @param onImageGenerated Optional callback invoked as each image finishes
+ * @param signal Optional AbortSignal to cancel in-flight requests
  * @returns Array of generated images
  */
 export async function generateImagesInParallel(
   prompts: { prompt: string; visualAidLine: string }[],
   provider: ImageProvider,
-  tracer?: ImageTracer
+  tracer?: ImageTracer,
+  onImageGenerated?: (image: GeneratedImage) => void,
+  signal?: AbortSignal
 ): Promise<GeneratedImage[]> {
   try {
     logServerMessage(`Generating ${prompts.length} images in parallel with ${provider.name}`, 'info', { 
@@ -335,12 +371,14 @@ export async function generateImagesInParallel(
     
     const imagePromises = prompts.map(async ({ prompt, visualAidLine }) => {
       try {
-        const base64Data = await provider.generateImage(prompt, tracer);
-        return {
+        const base64Data = await provider.generateImage(prompt, tracer, signal);
+        const image = {
           base64Data,
           prompt,
           visualAidLine
         };
+        onImageGenerated?.(image);
+        return image;
       } catch (error) {
         logServerError(error as Error, { 
           operation: 'parallel_image_generation', 
@@ -353,6 +391,9 @@ export async function generateImagesInParallel(
     });
     
     const results = await Promise.all(imagePromises);
+    if (signal?.aborted) {
+      throw new Error('Image generation was cancelled');
+    }
     const successfulImages: GeneratedImage[] = results.filter((img) => img !== null) as GeneratedImage[];
     
     logServerMessage('Parallel image generation complete', 'info', { 
@@ -5,6 +5,7 @@
  * 1. Pollinations.ai (FREE, no API key)
  * 2. ImageRouter.io (requires IMAGEROUTERIO_API_KEY)
  * 3. Hugging Face (requires HUGGINGFACE_API_KEY)
+ * With IMAGE_MOCK=true only the mock provider is used, which returns placeholder images offline.
  */
 
 import { logServerMessage, logServerError } from '@/lib/sentry';
@@ -20,6 +21,7 @@ import {
 import { createPollinationsProvider } from './pollinations-image';
 import { createImageRouterProvider } from './imagerouter-image';
 import { createHuggingFaceProvider } from './huggingface-image';
+import { createMockImageProvider } from './mock-image';
 
 // Re-export types and functions for use by other modules
 export type { GeneratedImage };
@@ -30,6 +32,13 @@ export { extractImagePromptsFromContent };
  */
 function getAvailableProviders(): ImageProvider[] {
   const providers: ImageProvider[] = [];
+
+  // The mock replaces every real provider so nothing goes over the network
+  const mockProvider = createMockImageProvider();
+  if (mockProvider.isAvailable()) {
+    logServerMessage('Using mock image provider (IMAGE_MOCK=true)', 'info');
+    return [mockProvider];
+  }
   
   // Priority order: Pollinations → ImageRouter → Hugging Face
   const pollinationsProvider = createPollinationsProvider();
@@ -79,9 +88,10 @@ function getAvailableProviders(): ImageProvider[] {
  * Generate a single image using the first available provider with automatic fallback
  * @param prompt The text prompt describing the image
  * @param tracer Optional ImageTracer for logging
+ * @param signal Optional AbortSignal to cancel in-flight requests
  * @returns Base64 encoded image data
  */
-export async function generateImage(prompt: string, tracer?: ImageTracer): Promise<string> {
+export async function generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
   const providers = getAvailableProviders();
   
   if (providers.length === 0) {
@@ -99,11 +109,14 @@ export async function generateImage(prompt: string, tracer?: ImageTracer): Promi
   for (const provider of providers) {
     try {
       logServerMessage(`Trying image generation with ${provider.name}`, 'info');
-      const result = await provider.generateImage(prompt, tracer);
+      const result = await provider.generateImage(prompt, tracer, signal);
       
       logServerMessage(`✓ Successfully generated image with ${provider.name}`, 'info');
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       lastError = error as Error;
       logServerMessage(`Provider ${provider.name} failed, trying next...`, 'warning', {
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -125,13 +138,19 @@ export async function generateImage(prompt: string, tracer?: ImageTracer): Promi
  * Generate multiple images in parallel using the first available provider
  * @param prompts Array of prompts with their positions and optional Visual Aid line
  * @param tracer Optional ImageTracer for logging
+ * @param onImageGenerated Optional callback invoked as each image finishes
+ * @param signal Optional AbortSignal to cancel in-flight requests
+ * @param preferredProvider Optional provider name to try first; the others remain fallbacks
  * @returns Array of generated images
  */
 export async function generateImagesInParallel(
   prompts: { prompt: string; visualAidLine: string }[],
-  tracer?: ImageTracer
+  tracer?: ImageTracer,
+  onImageGenerated?: (image: GeneratedImage) => void,
+  signal?: AbortSignal,
+  preferredProvider?: string
 ): Promise<GeneratedImage[]> {
-  const providers = getAvailableProviders();
+  const providers = getAvailableProviders().sort((a, b) => Number(b.name === preferredProvider) - Number(a.name === preferredProvider));
   
   if (providers.length === 0) {
     throw new Error('No image generation providers available. Please set at least one API key: IMAGEROUTERIO_API_KEY or HUGGINGFACE_API_KEY');
@@ -149,7 +168,7 @@ export async function generateImagesInParallel(
     try {
       logServerMessage(`Attempting parallel generation with ${provider.name}`, 'info');
       
-      const images = await generateImagesInParallelCommon(prompts, provider, tracer);
+      const images = await generateImagesInParallelCommon(prompts, provider, tracer, onImageGenerated, signal);
       
       if (images.length > 0) {
         logServerMessage(`✓ Successfully generated ${images.length} images with ${provider.name}`, 'info');
@@ -160,6 +179,9 @@ export async function generateImagesInParallel(
       logServerMessage(`Provider ${provider.name} returned 0 images, trying next...`, 'warning');
       continue;
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       lastError = error as Error;
       logServerMessage(`Provider ${provider.name} failed, trying next...`, 'warning', {
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -192,3 +214,17 @@ export function getAvailableProviderNames(): string[] {
   return getAvailableProviders().map(p => p.name);
 }
 
+/**
+ * Every image provider in priority order and whether it can be used now.
+ * With IMAGE_MOCK=true only the mock is available.
+ */
+export function getImageProviderStatus(): { name: string; available: boolean }[] {
+  const available = getAvailableProviderNames();
+  const providers = [
+    createMockImageProvider(),
+    createPollinationsProvider(),
+    createImageRouterProvider(),
+    createHuggingFaceProvider()
+  ];
+  return providers.map(provider => ({ name: provider.name, available: available.includes(provider.name) }));
+}
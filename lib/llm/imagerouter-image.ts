@@ -24,7 +24,7 @@ export class ImageRouterProvider implements ImageProvider {
     return !!this.apiKey;
   }
   
-  async generateImage(prompt: string, tracer?: ImageTracer): Promise<string> {
+  async generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
     try {
       if (!this.apiKey) {
         throw new Error('IMAGEROUTERIO_API_KEY environment variable is not set');
@@ -57,7 +57,8 @@ export class ImageRouterProvider implements ImageProvider {
           'Authorization': `Bearer ${this.apiKey}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestData)
+        body: JSON.stringify(requestData),
+        signal
       });
       
       if (!response.ok) {
@@ -93,7 +94,7 @@ export class ImageRouterProvider implements ImageProvider {
         // Image URL - need to fetch it
         logServerMessage('ImageRouter returned URL, fetching image', 'info', { url: result.url });
         
-        const imageResponse = await fetch(result.url);
+        const imageResponse = await fetch(result.url, { signal });
         if (!imageResponse.ok) {
           throw new Error(`Failed to fetch image from URL: ${imageResponse.status}`);
         }
@@ -1,19 +1,112 @@
-import { generateLessonWithOpenAI, type GeneratedLesson } from './openai';
-import { type LessonGenerationOptions } from './prompts';
-import { generateLessonWithAnthropic } from './anthropic';
-import { generateLessonWithGroq } from './groq';
-import { generateLessonWithGemini } from './gemini';
-import { generateLessonWithHuggingFace } from './huggingface';
-import { generateLessonWithOllama } from './ollama';
-import { generateLessonWithQwen } from './qwen';
+import { type GeneratedLesson } from './openai';
+import {
+  SECTION_SYSTEM_PROMPT,
+  JUDGE_SYSTEM_PROMPT,
+  TRANSLATION_SYSTEM_PROMPT,
+  UNIT_SPLIT_SYSTEM_PROMPT,
+  extractTitle,
+  getJudgePrompt,
+  getLessonRepairPrompt,
+  getSectionRegenerationPrompt,
+  getStructuredLessonPrompt,
+  getStructuredSystemPrompt,
+  getTranslationPrompt,
+  getUnitSplitPrompt,
+  parseUnitLessonOutlines,
+  type LessonGenerationOptions,
+  type SectionRegenerationOptions,
+  type TranslationOptions,
+  type UnitLessonOutline,
+  type UnitSplitOptions
+} from './prompts';
+import { withTimeout, type CompletionRequest, type CompletionResult, type ModelSettings, type ProviderCallOptions } from './completion-common';
+import { getModelSettings, getProvider, getProviderPriority, getRegisteredProviders, type ResolvedModelSettings, type TextProvider } from './registry';
+import { parseStructuredLesson, structuredLessonToMarkdown } from './lesson-schema';
+import { calculateCost } from './pricing';
 import { LessonTracer } from '@/lib/tracing';
+import { emitLessonEvent } from '@/lib/lesson-events';
+import { allowProviderRequest, canRequestProvider, loadProviderHealth, recordProviderFailure, recordProviderSuccess } from './health';
+import { getRetryDelay, waitForRetry } from './retry';
+import {
+  getCandidateLabel,
+  getEnsembleSize,
+  getJudgeCriteria,
+  parseJudgeScores,
+  pickWinner,
+  type EnsembleCandidate,
+  type EnsembleResult,
+  type JudgeCriterion
+} from './ensemble';
 
-export type LLMProvider = 'openai' | 'anthropic' | 'groq' | 'gemini' | 'huggingface' | 'ollama' | 'qwen';
+export type LLMProvider = string; // Name of a provider in the registry (see ./registry)
 
-export interface LLMConfig {
+/**
+ * Provider and settings for a request. The model only applies to the requested provider;
+ * temperature, max tokens and timeout apply to every provider tried.
+ */
+export interface LLMConfig extends ModelSettings {
   provider: LLMProvider;
   apiKey?: string;
   fallbackProvider?: LLMProvider;
+  structuredOutput?: boolean; // Ask JSON-capable providers for a structured lesson; defaults to LLM_STRUCTURED_OUTPUT=true
+  ensemble?: boolean; // Write candidates with several providers and keep the one the judge scores best
+}
+
+/**
+ * Settings for one provider attempt: the provider's configured settings, then the
+ * settings of the kind of call (e.g. a shorter max tokens for a section), then the request's
+ */
+function resolveCallSettings(provider: LLMProvider, config: LLMConfig, callSettings: ModelSettings = {}): ResolvedModelSettings {
+  const { model, temperature, maxTokens, timeoutMs } = config;
+  return getModelSettings(provider, callSettings, {
+    model: provider === config.provider ? model : undefined,
+    temperature,
+    maxTokens,
+    timeoutMs
+  });
+}
+
+/**
+ * Request details recorded on the trace for a call made with these settings
+ */
+function toTraceRequest(prompt: string, settings: ResolvedModelSettings | null, model?: string, json: boolean = false) {
+  return {
+    prompt,
+    model: model || settings?.model,
+    temperature: settings?.temperature,
+    max_tokens: settings?.maxTokens,
+    timeout_ms: settings?.timeoutMs,
+    ...(json ? { response_format: 'json' as const } : {})
+  };
+}
+
+/**
+ * Call options for one provider attempt: the resolved settings, streaming only if the
+ * provider supports it, and a signal that also aborts when the timeout passes
+ */
+function toProviderCallOptions(
+  callOptions: ProviderCallOptions,
+  settings: ResolvedModelSettings,
+  streaming: boolean
+): ProviderCallOptions {
+  const { timeoutMs, ...modelSettings } = settings;
+  return {
+    ...callOptions,
+    ...modelSettings,
+    onChunk: streaming ? callOptions.onChunk : undefined,
+    signal: withTimeout(callOptions.signal, timeoutMs)
+  };
+}
+
+/**
+ * Name a timeout as such; providers only report that the request was aborted.
+ * Other errors are returned as they are.
+ */
+function toCallError(error: unknown, provider: LLMProvider, settings: ResolvedModelSettings | null, signal?: AbortSignal): unknown {
+  if (settings?.timeoutMs && !signal?.aborted && error instanceof Error && /abort|timeout/i.test(`${error.name} ${error.message}`)) {
+    return new Error(`${provider} did not respond within ${settings.timeoutMs}ms`);
+  }
+  return error;
 }
 
 export async function generateLesson(
@@ -26,9 +119,15 @@ export async function generateLesson(
 export async function generateLessonWithTracing(
   options: LessonGenerationOptions,
   config: LLMConfig = { provider: getDefaultProvider() },
-  lessonId?: string
+  lessonId?: string,
+  callOptions: ProviderCallOptions = {}
 ): Promise<GeneratedLesson> {
   const { provider } = config;
+  const { signal } = callOptions;
+
+  if (config.ensemble) {
+    return generateLessonWithEnsemble(options, config, lessonId, callOptions);
+  }
   
   // Initialize tracer if lessonId is provided
   const tracer = lessonId ? new LessonTracer(lessonId) : null;
@@ -56,75 +155,298 @@ export async function generateLessonWithTracing(
     console.log(`Available fallback providers: ${fallbackProviders.join(', ')}`);
   }
 
-  // Try primary provider
-  try {
-    const result = await callProviderWithTracing(primaryProvider, options, tracer);
-    if (tracer) {
-      await tracer.completeTrace(result, primaryProvider, fallbackProviders);
+  await loadProviderHealth();
+
+  // Try the primary provider, then the fallbacks in order, skipping providers whose circuit is open
+  let lastError: unknown;
+  let attempted = 0;
+  const skippedProviders: LLMProvider[] = [];
+  for (const candidate of [primaryProvider, ...fallbackProviders]) {
+    if (!allowProviderRequest(candidate)) {
+      console.log(`Skipping provider ${candidate}: circuit is open`);
+      skippedProviders.push(candidate);
+      continue;
     }
-    return result;
-  } catch (error) {
-    console.error(`Error with primary provider ${primaryProvider}:`, error);
-    
-    // Try fallback providers in order
-    for (const fallbackProvider of fallbackProviders) {
-      try {
-        console.log(`Trying fallback provider: ${fallbackProvider}`);
-        const result = await callProviderWithTracing(fallbackProvider, options, tracer);
-        if (tracer) {
-          await tracer.completeTrace(result, fallbackProvider, fallbackProviders);
+
+    try {
+      if (lessonId) {
+        if (attempted === 0) {
+          emitLessonEvent(lessonId, 'llm_started', 10, `Writing lesson with ${candidate}`, { provider: candidate });
+        } else {
+          emitLessonEvent(lessonId, 'provider_fallback', 15, `Falling back to ${candidate}`, {
+            provider: candidate,
+            error: lastError instanceof Error ? lastError.message : 'Unknown error'
+          });
         }
-        return result;
-      } catch (fallbackError) {
-        console.error(`Fallback provider ${fallbackProvider} also failed:`, fallbackError);
-        // Continue to next fallback provider
       }
+      attempted++;
+      const result = await callProviderWithTracing(candidate, options, tracer, callOptions, config, lessonId);
+      if (tracer) {
+        await tracer.completeTrace(result, candidate, fallbackProviders);
+      }
+      if (lessonId) {
+        emitLessonEvent(lessonId, 'llm_completed', 40, 'Lesson text written', { provider: candidate });
+      }
+      return result;
+    } catch (error) {
+      console.error(`Provider ${candidate} failed:`, error);
+      if (signal?.aborted) {
+        await tracer?.cancelTrace();
+        throw new Error('Lesson generation was cancelled');
+      }
+      lastError = error;
+      // Continue to next fallback provider
     }
-    
-    // If all providers fail, update tracer and throw error
-    const errorMessage = `All LLM providers failed. Last error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-    if (tracer) {
-      await tracer.failTrace(errorMessage);
+  }
+  
+  // If all providers fail, update tracer and throw error
+  const errorMessage = attempted === 0
+    ? `All LLM providers are unhealthy (${skippedProviders.join(', ')}). Try again later`
+    : `All LLM providers failed. Last error: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`;
+  if (tracer) {
+    await tracer.failTrace(errorMessage);
+  }
+  throw new Error(errorMessage);
+}
+
+/**
+ * Write candidates with the first LLM_ENSEMBLE_SIZE (2 or 3) healthy providers in parallel
+ * and keep the one the judge scores best (see ./ensemble). Candidates aren't streamed, since
+ * their drafts would interleave. With fewer than two healthy providers the lesson is written
+ * the usual way; if judging fails the first candidate is kept. Every candidate and judge call
+ * is recorded on the trace along with the scores.
+ */
+async function generateLessonWithEnsemble(
+  options: LessonGenerationOptions,
+  config: LLMConfig,
+  lessonId?: string,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
+  const { signal } = callOptions;
+  const availableProviders = getAvailableProviders();
+  const primaryProvider = availableProviders.includes(config.provider) ? config.provider : availableProviders[0];
+
+  await loadProviderHealth();
+
+  // Check before claiming: a half-open circuit's probe is only taken once the ensemble
+  // goes ahead, so the single-provider fallback can still use it
+  const eligible = [primaryProvider, ...availableProviders.filter(p => p !== primaryProvider)]
+    .filter(candidate => canRequestProvider(candidate))
+    .slice(0, getEnsembleSize());
+
+  if (eligible.length < 2) {
+    console.log(`Ensemble needs two healthy providers, writing the lesson with ${eligible[0] || primaryProvider} only`);
+    return generateLessonWithTracing(options, { ...config, ensemble: false }, lessonId, callOptions);
+  }
+
+  // Nothing runs between the check and the claim, so every eligible provider is claimed
+  eligible.forEach(candidate => allowProviderRequest(candidate));
+  const providers = eligible;
+
+  const tracer = lessonId ? new LessonTracer(lessonId) : null;
+  if (tracer) {
+    await tracer.startTrace({ ...options, ensemble: providers });
+  }
+  if (lessonId) {
+    emitLessonEvent(lessonId, 'llm_started', 10, `Writing ${providers.length} candidate lessons with ${providers.join(', ')}`, { providers });
+  }
+
+  const results = await Promise.allSettled(
+    providers.map(provider => callProviderWithTracing(provider, options, tracer, { signal }, config))
+  );
+  if (signal?.aborted) {
+    await tracer?.cancelTrace();
+    throw new Error('Lesson generation was cancelled');
+  }
+
+  const candidates: EnsembleCandidate[] = results.map((result, index) => ({
+    label: getCandidateLabel(index),
+    provider: providers[index],
+    ...(result.status === 'fulfilled'
+      ? { model: result.value.model, title: result.value.title }
+      : { error: result.reason instanceof Error ? result.reason.message : 'Unknown error' })
+  }));
+  const lessons = new Map<string, GeneratedLesson>();
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      lessons.set(candidates[index].label, result.value);
     }
+  });
+
+  const criteria = getJudgeCriteria(options.includeExercises);
+  const written = candidates.filter(candidate => lessons.has(candidate.label));
+  if (written.length === 0) {
+    const errorMessage = `All LLM providers failed. Last error: ${candidates[candidates.length - 1].error}`;
+    tracer?.setEnsemble({ candidates, criteria, winner: null });
+    await tracer?.failTrace(errorMessage);
     throw new Error(errorMessage);
   }
+
+  const ensemble: EnsembleResult = { candidates, criteria, winner: written[0].label };
+  if (written.length > 1) {
+    const judgement = await judgeCandidates(options, written, lessons, criteria, primaryProvider, config, tracer, signal);
+    if (signal?.aborted) {
+      await tracer?.cancelTrace();
+      throw new Error('Lesson generation was cancelled');
+    }
+    if ('error' in judgement) {
+      ensemble.judge_error = judgement.error;
+    } else {
+      ensemble.judge_provider = judgement.provider;
+      ensemble.winner = pickWinner(candidates) || ensemble.winner;
+    }
+  }
+
+  const winner = candidates.find(candidate => candidate.label === ensemble.winner) || written[0];
+  const result = lessons.get(winner.label)!;
+  console.log(`Ensemble kept candidate ${winner.label} from ${winner.provider}`, ensemble.judge_error ? `(judging failed: ${ensemble.judge_error})` : '');
+
+  if (tracer) {
+    tracer.setEnsemble(ensemble);
+    await tracer.completeTrace(result, winner.provider, providers.filter(provider => provider !== winner.provider));
+  }
+  if (lessonId) {
+    emitLessonEvent(lessonId, 'llm_completed', 40, `Lesson text written, kept the candidate from ${winner.provider}`, {
+      provider: winner.provider,
+      ...(winner.score ? { score: winner.score.total } : {})
+    });
+  }
+  return result;
 }
 
+/**
+ * Have the judge score the written candidates, setting `score` on each one it rated.
+ * LLM_ENSEMBLE_JUDGE picks the judge, else the requested provider judges; other healthy
+ * providers are tried in turn if it fails or its response can't be read.
+ */
+async function judgeCandidates(
+  options: LessonGenerationOptions,
+  candidates: EnsembleCandidate[],
+  lessons: Map<string, GeneratedLesson>,
+  criteria: JudgeCriterion[],
+  primaryProvider: LLMProvider,
+  config: LLMConfig,
+  tracer: LessonTracer | null,
+  signal?: AbortSignal
+): Promise<{ provider: LLMProvider } | { error: string }> {
+  const labels = candidates.map(candidate => candidate.label);
+  const request: CompletionRequest = {
+    systemPrompt: JUDGE_SYSTEM_PROMPT,
+    userPrompt: getJudgePrompt(
+      options,
+      candidates.map(candidate => ({ label: candidate.label, content: lessons.get(candidate.label)!.content })),
+      criteria
+    ),
+    maxTokens: 1500,
+    signal
+  };
+
+  const availableProviders = getAvailableProviders();
+  const requestedJudge = process.env.LLM_ENSEMBLE_JUDGE;
+  const judge = requestedJudge && availableProviders.includes(requestedJudge) ? requestedJudge : primaryProvider;
+  const judgeConfig = { ...config, provider: judge };
+
+  let lastError = 'No healthy provider to judge with';
+  for (const provider of [judge, ...availableProviders.filter(p => p !== judge)]) {
+    if (!allowProviderRequest(provider)) {
+      continue;
+    }
+    try {
+      const json = getProvider(provider)?.capabilities.json || false;
+      const result = await withRetries(provider, signal, attempt => attemptCompletion(provider, { ...request, json }, judgeConfig, tracer, attempt));
+      const scores = parseJudgeScores(result.content, labels, criteria);
+      if (scores.size === 0) {
+        lastError = `Could not read scores from the ${provider} judge`;
+        continue;
+      }
+      for (const candidate of candidates) {
+        const score = scores.get(candidate.label);
+        if (score) {
+          candidate.score = score;
+        }
+      }
+      return { provider };
+    } catch (error) {
+      if (signal?.aborted) {
+        return { error: 'Judging was cancelled' };
+      }
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+  return { error: lastError };
+}
+
+/**
+ * Write the lesson with one provider, retrying transient errors (see ./retry).
+ * Every attempt is recorded on the tracer; the provider's health is updated once
+ * with the final outcome.
+ * @param lessonId Set when the attempts stream into the lesson's draft, which each retry starts over
+ */
 async function callProviderWithTracing(
   provider: LLMProvider, 
   options: LessonGenerationOptions, 
-  tracer: LessonTracer | null
+  tracer: LessonTracer | null,
+  callOptions: ProviderCallOptions = {},
+  config: LLMConfig = { provider },
+  lessonId?: string
+): Promise<GeneratedLesson> {
+  // A streamed attempt that failed partway has already sent its chunks; 'retrying' clears
+  // the stored draft and tells the subscribers to clear theirs
+  const onRetry = lessonId
+    ? (attempt: number, delay: number, error: unknown) => emitLessonEvent(lessonId, 'retrying', 0,
+        `${provider} attempt ${attempt} failed, retrying in ${Math.ceil(delay / 1000)}s`, {
+          provider,
+          attempt,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+    : undefined;
+
+  return withRetries(provider, callOptions.signal, attempt => attemptLesson(provider, options, tracer, callOptions, config, attempt), onRetry);
+}
+
+/**
+ * One attempt at writing the lesson with a provider
+ */
+async function attemptLesson(
+  provider: LLMProvider,
+  options: LessonGenerationOptions,
+  tracer: LessonTracer | null,
+  callOptions: ProviderCallOptions,
+  config: LLMConfig,
+  attempt: number
 ): Promise<GeneratedLesson> {
   const startTime = Date.now();
+  const prompt = `Generate lesson: ${options.outline}`;
+  let settings: ResolvedModelSettings | null = null;
   
   try {
-    let result: GeneratedLesson;
-    
-    switch (provider) {
-      case 'openai':
-        result = await generateLessonWithOpenAI(options);
-        break;
-      case 'anthropic':
-        result = await generateLessonWithAnthropic(options);
-        break;
-      case 'groq':
-        result = await generateLessonWithGroq(options);
-        break;
-      case 'gemini':
-        result = await generateLessonWithGemini(options);
-        break;
-      case 'huggingface':
-        result = await generateLessonWithHuggingFace(options);
-        break;
-      case 'ollama':
-        result = await generateLessonWithOllama(options);
-        break;
-      case 'qwen':
-        result = await generateLessonWithQwen(options);
-        break;
-      default:
-        throw new Error(`Unsupported LLM provider: ${provider}`);
+    const implementation = getProvider(provider);
+    if (!implementation) {
+      throw new Error(`Unsupported LLM provider: ${provider}`);
+    }
+    settings = resolveCallSettings(provider, config);
+
+    if (wantsStructuredOutput(config, implementation)) {
+      const structured = await generateStructuredLesson(
+        implementation,
+        options,
+        tracer,
+        toProviderCallOptions(callOptions, settings, false),
+        settings,
+        attempt
+      );
+      if (structured) {
+        return { ...structured, provider };
+      }
+      console.warn(`${provider} did not return a valid lesson object, falling back to markdown`);
     }
+
+    // Providers that can't stream still write the lesson, just without progress chunks
+    let result = await implementation.generate(
+      options,
+      toProviderCallOptions(callOptions, settings, implementation.capabilities.streaming)
+    );
+    result = { ...result, provider };
     
     const duration = Date.now() - startTime;
     
@@ -132,20 +454,13 @@ async function callProviderWithTracing(
     if (tracer) {
       tracer.addLLMCall({
         provider,
-        request: {
-          prompt: `Generate lesson: ${options.outline}`,
-          model: 'default',
-          temperature: 0.7,
-          max_tokens: 4000
-        },
+        attempt,
+        request: toTraceRequest(prompt, settings, result.model),
         response: {
           content: result.content,
-          usage: {
-            prompt_tokens: 0, // These would need to be extracted from actual API responses
-            completion_tokens: 0,
-            total_tokens: 0
-          }
+          usage: result.usage
         },
+        cost_usd: calculateCost(result.model, result.usage),
         duration_ms: duration,
         success: true
       });
@@ -154,90 +469,351 @@ async function callProviderWithTracing(
     return result;
   } catch (error) {
     const duration = Date.now() - startTime;
+    const callError = toCallError(error, provider, settings, callOptions.signal);
     
     // Add failed LLM call to tracer
     if (tracer) {
       tracer.addLLMCall({
         provider,
-        request: {
-          prompt: `Generate lesson: ${options.outline}`,
-          model: 'default',
-          temperature: 0.7,
-          max_tokens: 4000
-        },
+        attempt,
+        request: toTraceRequest(prompt, settings),
         duration_ms: duration,
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: callError instanceof Error ? callError.message : 'Unknown error'
       });
     }
     
-    throw error;
+    throw callError;
   }
 }
 
-export function getAvailableProviders(): LLMProvider[] {
-  const providers: LLMProvider[] = [];
-  
-  // Google first (AI Studio)
-  if (process.env.GOOGLE_API_KEY) {
-    providers.push('gemini');
+/**
+ * Run attempts against a provider until one succeeds, the error isn't worth retrying or
+ * the retries run out, waiting between attempts and calling onRetry before each wait.
+ * Attempts are numbered from 1. The
+ * provider's circuit breaker sees one success or failure, not each attempt; cancelled
+ * calls count as neither.
+ */
+async function withRetries<T>(
+  provider: LLMProvider,
+  signal: AbortSignal | undefined,
+  run: (attempt: number) => Promise<T>,
+  onRetry?: (attempt: number, delay: number, error: unknown) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await run(attempt);
+      recordProviderSuccess(provider);
+      return result;
+    } catch (error) {
+      const delay = signal?.aborted ? null : getRetryDelay(error, attempt - 1);
+      if (delay === null) {
+        if (!signal?.aborted) {
+          recordProviderFailure(provider, error instanceof Error ? error.message : 'Unknown error');
+        }
+        throw error;
+      }
+
+      console.warn(`${provider} attempt ${attempt} failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+      onRetry?.(attempt, delay, error);
+      await waitForRetry(delay, signal);
+    }
   }
-  
-  // Groq second
-  if (process.env.GROQ_API_KEY) {
-    providers.push('groq');
+}
+
+/**
+ * Whether to ask this provider for the lesson as JSON. Providers without a JSON mode
+ * always write markdown.
+ */
+function wantsStructuredOutput(config: LLMConfig, implementation: TextProvider): boolean {
+  const enabled = config.structuredOutput ?? process.env.LLM_STRUCTURED_OUTPUT === 'true';
+  return enabled && implementation.capabilities.json;
+}
+
+/**
+ * Write a lesson in JSON mode. A response that fails validation is sent back once with its
+ * errors for a corrected version; returns null if that is invalid too, so the caller can fall
+ * back to markdown. Each call is recorded on the tracer; errors are thrown for the caller to record.
+ */
+async function generateStructuredLesson(
+  implementation: TextProvider,
+  options: LessonGenerationOptions,
+  tracer: LessonTracer | null,
+  callOptions: ProviderCallOptions,
+  settings: ResolvedModelSettings,
+  attempt: number
+): Promise<GeneratedLesson | null> {
+  const systemPrompt = getStructuredSystemPrompt(options.language);
+  let userPrompt = getStructuredLessonPrompt(options);
+
+  for (let round = 0; round < 2; round++) {
+    const startTime = Date.now();
+    const result = await implementation.complete({ systemPrompt, userPrompt, json: true, ...callOptions });
+    const { lesson, errors, repaired } = parseStructuredLesson(result.content);
+
+    tracer?.addLLMCall({
+      provider: implementation.name,
+      attempt,
+      request: toTraceRequest(
+        round === 0 ? `Generate lesson (JSON): ${options.outline}` : `Repair lesson JSON: ${options.outline}`,
+        settings,
+        result.model,
+        true
+      ),
+      response: { content: result.content, usage: result.usage },
+      cost_usd: calculateCost(result.model, result.usage),
+      duration_ms: Date.now() - startTime,
+      success: true,
+      ...(lesson ? {} : { validation_errors: errors })
+    });
+
+    if (lesson) {
+      if (repaired.length > 0) {
+        console.log(`Repaired lesson JSON from ${implementation.name}: ${repaired.join('; ')}`);
+      }
+      const content = structuredLessonToMarkdown(lesson);
+      return {
+        title: extractTitle(content, options.language),
+        content,
+        estimatedSections: lesson.sections.length,
+        gradeLevel: options.gradeLevel || '2',
+        keyConcepts: lesson.keyConcepts,
+        prerequisites: lesson.prerequisites,
+        model: result.model,
+        usage: result.usage,
+        structured: lesson
+      };
+    }
+
+    console.warn(`Invalid lesson JSON from ${implementation.name}: ${errors.join('; ')}`);
+    userPrompt = getLessonRepairPrompt(options, result.content, errors);
   }
-  
-  // Qwen third
-  if (process.env.HUGGINGFACE_API_KEY) {
-    providers.push('qwen');
+
+  return null;
+}
+
+export interface GeneratedSection {
+  content: string;
+  provider: LLMProvider;
+}
+
+/**
+ * Rewrite a single lesson section with automatic provider fallback.
+ * The surrounding sections are sent as context so the new text fits in.
+ */
+export async function generateSectionWithTracing(
+  options: SectionRegenerationOptions,
+  config: LLMConfig = { provider: getDefaultProvider() },
+  lessonId?: string,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedSection> {
+  const tracer = lessonId ? new LessonTracer(lessonId) : null;
+  if (tracer) {
+    await tracer.startTrace({ operation: 'regenerate_section', ...options });
   }
-  
-  // Other free providers
-  if (process.env.HUGGINGFACE_API_KEY) {
-    providers.push('huggingface');
+
+  const { result, provider } = await completeWithFallback({
+    systemPrompt: SECTION_SYSTEM_PROMPT,
+    userPrompt: getSectionRegenerationPrompt(options),
+    maxTokens: 1500,
+    ...callOptions
+  }, config, tracer, 'Section generation was cancelled');
+
+  return { content: result.content, provider };
+}
+
+export interface Translation {
+  content: string;
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Translate a lesson title or section with automatic provider fallback.
+ * A lesson is translated in several calls recorded on one trace, so the caller
+ * completes the trace once every part is done.
+ */
+export async function translateLessonText(
+  options: TranslationOptions,
+  config: LLMConfig = { provider: getDefaultProvider() },
+  tracer: LessonTracer | null = null,
+  callOptions: ProviderCallOptions = {}
+): Promise<Translation> {
+  const { result, provider } = await completeWithFallback({
+    systemPrompt: TRANSLATION_SYSTEM_PROMPT,
+    userPrompt: getTranslationPrompt(options),
+    maxTokens: 2000,
+    ...callOptions
+  }, config, tracer, 'Translation was cancelled', false);
+
+  return { content: result.content, provider, model: result.model };
+}
+
+export interface UnitSplit {
+  lessons: UnitLessonOutline[];
+  provider: LLMProvider;
+}
+
+/**
+ * Split a unit outline into lesson outlines with automatic provider fallback
+ */
+export async function splitUnitOutline(
+  options: UnitSplitOptions,
+  config: LLMConfig = { provider: getDefaultProvider() },
+  callOptions: ProviderCallOptions = {}
+): Promise<UnitSplit> {
+  const { result, provider } = await completeWithFallback({
+    systemPrompt: UNIT_SPLIT_SYSTEM_PROMPT,
+    userPrompt: getUnitSplitPrompt(options),
+    maxTokens: 1500,
+    ...callOptions
+  }, config, null, 'Unit split was cancelled');
+
+  const lessons = parseUnitLessonOutlines(result.content);
+  if (lessons.length === 0) {
+    throw new Error(`Could not read lesson outlines from the ${provider} response`);
   }
-  
-  // Check if Ollama is running locally
-  if (process.env.OLLAMA_URL || process.env.NODE_ENV === 'development') {
-    providers.push('ollama');
+
+  return {
+    lessons: options.lessonCount ? lessons.slice(0, options.lessonCount) : lessons,
+    provider
+  };
+}
+
+/**
+ * Send a completion request to the requested provider, falling back to the other
+ * available providers in order, skipping providers whose circuit is open and retrying transient errors.
+ * Each attempt is recorded on the tracer if given;
+ * the trace is completed on success unless `completeTrace` is false.
+ */
+async function completeWithFallback(
+  request: CompletionRequest,
+  config: LLMConfig,
+  tracer: LessonTracer | null,
+  cancelledMessage: string,
+  completeTrace: boolean = true
+): Promise<{ result: CompletionResult; provider: LLMProvider }> {
+  const availableProviders = getAvailableProviders();
+  if (availableProviders.length === 0) {
+    const error = 'No LLM providers configured. Please set OPENAI_API_KEY or ANTHROPIC_API_KEY';
+    if (tracer) {
+      await tracer.failTrace(error);
+    }
+    throw new Error(error);
   }
-  
-  // Paid providers (as fallback)
-  if (process.env.OPENAI_API_KEY) {
-    providers.push('openai');
+
+  const primaryProvider = availableProviders.includes(config.provider) ? config.provider : availableProviders[0];
+  const providers = [primaryProvider, ...availableProviders.filter(p => p !== primaryProvider)];
+
+  await loadProviderHealth();
+
+  let lastError: unknown;
+  let attempted = 0;
+  for (const provider of providers) {
+    if (!allowProviderRequest(provider)) {
+      continue;
+    }
+    attempted++;
+    try {
+      const result = await withRetries(provider, request.signal, attempt => attemptCompletion(provider, request, config, tracer, attempt));
+      if (tracer && completeTrace) {
+        await tracer.completeTrace(result, provider, providers.slice(1));
+      }
+      return { result, provider };
+    } catch (error) {
+      console.error(`Completion with ${provider} failed:`, error);
+      if (request.signal?.aborted) {
+        await tracer?.cancelTrace();
+        throw new Error(cancelledMessage);
+      }
+      lastError = error;
+    }
   }
-  
-  if (process.env.ANTHROPIC_API_KEY) {
-    providers.push('anthropic');
+
+  const errorMessage = attempted === 0
+    ? `All LLM providers are unhealthy (${providers.join(', ')}). Try again later`
+    : `All LLM providers failed. Last error: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`;
+  if (tracer) {
+    await tracer.failTrace(errorMessage);
   }
-  
-  return providers;
+  throw new Error(errorMessage);
 }
 
-export function getDefaultProvider(): LLMProvider {
-  const available = getAvailableProviders();
-  
-  // Priority order: Google → Groq → Qwen → others
-  const priorityProviders: LLMProvider[] = ['gemini', 'groq', 'qwen', 'huggingface', 'ollama', 'openai', 'anthropic'];
-  
-  // Try providers in priority order
-  for (const provider of priorityProviders) {
-    if (available.includes(provider)) {
-      return provider;
+/**
+ * One attempt at a completion with a provider, recorded on the tracer if given
+ */
+async function attemptCompletion(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  config: LLMConfig,
+  tracer: LessonTracer | null,
+  attempt: number
+): Promise<CompletionResult> {
+  const startTime = Date.now();
+  let settings: ResolvedModelSettings | null = null;
+  try {
+    const implementation = getProvider(provider);
+    if (!implementation) {
+      throw new Error(`Unsupported LLM provider: ${provider}`);
     }
+    settings = resolveCallSettings(provider, config, { maxTokens: request.maxTokens });
+    const result = await implementation.complete({
+      ...request,
+      ...toProviderCallOptions(request, settings, implementation.capabilities.streaming)
+    });
+    tracer?.addLLMCall({
+      provider,
+      attempt,
+      request: toTraceRequest(request.userPrompt, settings, result.model),
+      response: { content: result.content, usage: result.usage },
+      cost_usd: calculateCost(result.model, result.usage),
+      duration_ms: Date.now() - startTime,
+      success: true
+    });
+    return result;
+  } catch (error) {
+    const callError = toCallError(error, provider, settings, request.signal);
+    tracer?.addLLMCall({
+      provider,
+      attempt,
+      request: toTraceRequest(request.userPrompt, settings),
+      duration_ms: Date.now() - startTime,
+      success: false,
+      error: callError instanceof Error ? callError.message : 'Unknown error'
+    });
+    throw callError;
   }
-  
-  return available[0] || 'gemini' as LLMProvider; // Default to Gemini (Google AI Studio)
+}
+
+/**
+ * Names of the registered providers that are configured, in priority order
+ */
+export function getAvailableProviders(): LLMProvider[] {
+  return getRegisteredProviders()
+    .filter(provider => provider.isAvailable())
+    .map(provider => provider.name);
+}
+
+export function getDefaultProvider(): LLMProvider {
+  return getAvailableProviders()[0] || getProviderPriority()[0];
 }
 
 // Re-export types and functions for convenience
-export type { LessonGenerationOptions } from './prompts';
+export type { CourseContext, LessonGenerationOptions, SectionRegenerationOptions, TranslationOptions, UnitLessonOutline, UnitSplitOptions } from './prompts';
+export type { CompletionRequest, CompletionResult, ModelSettings, ProviderCallOptions, ProviderDefaults, TokenUsage } from './completion-common';
+export { calculateCost, MODEL_PRICES } from './pricing';
+export type { LessonLanguage } from './languages';
 export type { GeneratedLesson } from './openai';
+export type { StructuredLesson, StructuredLessonSection } from './lesson-schema';
+export type { CandidateScore, EnsembleCandidate, EnsembleResult, JudgeCriterion } from './ensemble';
+export type { ProviderCapabilities, ResolvedModelSettings, TextProvider } from './registry';
+export { getModelSettings, getProvider, getRegisteredProviders, registerProvider } from './registry';
 export { generateLessonWithOpenAI } from './openai';
+export { generateLessonWithOpenAICompatible } from './openai-compatible';
 export { generateLessonWithAnthropic } from './anthropic';
 export { generateLessonWithGroq } from './groq';
 export { generateLessonWithGemini } from './gemini';
 export { generateLessonWithHuggingFace } from './huggingface';
 export { generateLessonWithOllama } from './ollama';
 export { generateLessonWithQwen } from './qwen';
+export { generateLessonWithMock } from './mock';
@@ -0,0 +1,93 @@
+/**
+ * Languages lessons can be written in.
+ * Kept free of server imports so client components can use it.
+ */
+export type LessonLanguage = 'en' | 'es' | 'fr' | 'ar';
+
+export interface LessonLanguageInfo {
+  code: LessonLanguage;
+  name: string; // English name, used in prompts
+  nativeName: string; // Shown to teachers
+  direction: 'ltr' | 'rtl';
+  visualAidLabels: string[]; // Regex sources for how models translate "Visual Aid Suggestion"
+  titlePrefixes: string[]; // Regex sources for labels models put before the title, e.g. "Lesson:"
+  untitled: string;
+}
+
+export const DEFAULT_LESSON_LANGUAGE: LessonLanguage = 'en';
+
+export const LESSON_LANGUAGES: Record<LessonLanguage, LessonLanguageInfo> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    direction: 'ltr',
+    visualAidLabels: [],
+    titlePrefixes: ['Lesson(?: Title)?'],
+    untitled: 'Untitled Lesson'
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    direction: 'ltr',
+    visualAidLabels: ['Sugerencia (?:de )?(?:ayuda|apoyo) visual', 'Ayuda visual'],
+    titlePrefixes: ['Lecci[oó]n', 'T[ií]tulo(?: de la lecci[oó]n)?'],
+    untitled: 'Lección sin título'
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    direction: 'ltr',
+    visualAidLabels: ["Suggestion d['’]aide visuelle", 'Aide visuelle(?: sugg[ée]r[ée]e)?', 'Suggestion visuelle'],
+    titlePrefixes: ['Le[çc]on', 'Titre(?: de la le[çc]on)?'],
+    untitled: 'Leçon sans titre'
+  },
+  ar: {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    direction: 'rtl',
+    visualAidLabels: ['اقتراح (?:وسيلة|مساعدة) (?:بصرية|مرئية)', 'وسيلة (?:بصرية|مرئية) مقترحة', 'وسيلة (?:بصرية|مرئية)'],
+    titlePrefixes: ['الدرس', 'درس', 'عنوان الدرس', 'العنوان'],
+    untitled: 'درس بدون عنوان'
+  }
+};
+
+export function isLessonLanguage(code: unknown): code is LessonLanguage {
+  return typeof code === 'string' && code in LESSON_LANGUAGES;
+}
+
+/**
+ * Language info for a stored language code; English for missing or unknown codes
+ */
+export function getLessonLanguage(code?: string | null): LessonLanguageInfo {
+  return isLessonLanguage(code) ? LESSON_LANGUAGES[code] : LESSON_LANGUAGES[DEFAULT_LESSON_LANGUAGE];
+}
+
+export function getTextDirection(code?: string | null): 'ltr' | 'rtl' {
+  return getLessonLanguage(code).direction;
+}
+
+/**
+ * Matches a Visual Aid hint line and captures its description. The English label is
+ * always accepted because models often keep it even when writing another language;
+ * translated labels must be followed by a colon so ordinary sentences don't match.
+ */
+export function getVisualAidPattern(code?: string | null, flags: string = 'gi'): RegExp {
+  const translated = getLessonLanguage(code).visualAidLabels;
+  const label = translated.length > 0
+    ? `(?:Visual Aid Suggestion[:\\s]*|(?:${translated.join('|')})(?:\\*\\*)?\\s*[:：])`
+    : 'Visual Aid Suggestion[:\\s]*';
+  return new RegExp(`(?:\\*\\*)?${label}(?:\\*\\*)?\\s*([^\\n]+)`, flags);
+}
+
+/**
+ * Remove a leading "Lesson:" style label (in the lesson's language or English) from a title
+ */
+export function stripTitlePrefix(title: string, code?: string | null): string {
+  const prefixes = [...new Set([...LESSON_LANGUAGES.en.titlePrefixes, ...getLessonLanguage(code).titlePrefixes])];
+  const stripped = title.replace(new RegExp(`^(?:${prefixes.join('|')})\\s*\\d*\\s*[:：\\-–—]\\s*`, 'i'), '').trim();
+  return stripped || title.trim();
+}
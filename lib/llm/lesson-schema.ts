@@ -0,0 +1,203 @@
+/**
+ * Structured (JSON) lesson output
+ *
+ * Providers with a JSON mode can return a lesson as an object instead of a markdown
+ * document. The object is validated here, with small mistakes repaired locally, and
+ * rendered back to markdown for storage, drafts and image prompts.
+ */
+
+export const STRUCTURED_SECTION_TYPES = ['text', 'list', 'exercise', 'callout', 'table', 'code'] as const;
+
+export type StructuredSectionType = typeof STRUCTURED_SECTION_TYPES[number];
+
+export interface StructuredLessonSection {
+  type: StructuredSectionType;
+  title?: string;
+  content: string; // Markdown, or the code itself for code sections
+  language?: string; // Programming language of a code section
+  visualAid?: string; // Description of an image that would help here; not kept for code sections
+}
+
+export interface StructuredLesson {
+  title: string;
+  keyConcepts: string[];
+  prerequisites: string[];
+  sections: StructuredLessonSection[];
+}
+
+export interface StructuredLessonValidation {
+  lesson: StructuredLesson | null; // Null when the output could not be repaired
+  errors: string[];
+  repaired: string[]; // Problems fixed locally
+}
+
+/**
+ * JSON Schema of a structured lesson, described to the model in the prompt
+ */
+export const STRUCTURED_LESSON_SCHEMA = {
+  type: 'object',
+  required: ['title', 'sections'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    keyConcepts: { type: 'array', items: { type: 'string' } },
+    prerequisites: { type: 'array', items: { type: 'string' } },
+    sections: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['type', 'content'],
+        properties: {
+          type: { enum: [...STRUCTURED_SECTION_TYPES] },
+          title: { type: 'string' },
+          content: { type: 'string', minLength: 1 },
+          language: { type: 'string' },
+          visualAid: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+// Models sometimes keep the markdown label in the visualAid field
+const VISUAL_AID_LABEL = /^(?:\*\*)?Visual Aid Suggestion:?(?:\*\*)?\s*/i;
+
+/**
+ * The JSON object in a model response, without a code fence or text around it
+ */
+function extractJsonObject(content: string): string | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start !== -1 && end > start ? content.substring(start, end + 1) : null;
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value.filter(item => typeof item === 'string' || typeof item === 'number').map(item => String(item).trim()).filter(Boolean);
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse and validate a structured lesson response. Missing or unknown section types
+ * become 'text', empty sections are dropped and missing lists become empty; anything
+ * else that doesn't match the schema is reported as an error.
+ */
+export function parseStructuredLesson(content: string): StructuredLessonValidation {
+  const errors: string[] = [];
+  const repaired: string[] = [];
+
+  const json = extractJsonObject(content);
+  if (!json) {
+    return { lesson: null, errors: ['Response does not contain a JSON object'], repaired };
+  }
+
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { lesson: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`], repaired };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { lesson: null, errors: ['Response is not a JSON object'], repaired };
+  }
+
+  const title = toOptionalString(value.title);
+  if (!title) {
+    errors.push('"title" must be a non-empty string');
+  }
+
+  const keyConcepts = toStringList(value.keyConcepts);
+  if (!keyConcepts) {
+    errors.push('"keyConcepts" must be an array of strings');
+  }
+  const prerequisites = toStringList(value.prerequisites);
+  if (!prerequisites) {
+    errors.push('"prerequisites" must be an array of strings');
+  }
+
+  const sections: StructuredLessonSection[] = [];
+  if (!Array.isArray(value.sections)) {
+    errors.push('"sections" must be an array');
+  } else {
+    value.sections.forEach((item: unknown, index: number) => {
+      if (typeof item !== 'object' || item === null) {
+        errors.push(`sections[${index}] must be an object`);
+        return;
+      }
+      const section = item as Record<string, unknown>;
+
+      let type = section.type as StructuredSectionType;
+      if (!STRUCTURED_SECTION_TYPES.includes(type)) {
+        repaired.push(`sections[${index}].type "${String(section.type)}" replaced with "text"`);
+        type = 'text';
+      }
+
+      // Code keeps the indentation of its first line
+      const rawContent = typeof section.content === 'string' ? section.content : '';
+      const sectionContent = type === 'code' ? rawContent.replace(/^\s*\n|\s+$/g, '') : rawContent.trim();
+      if (!sectionContent.trim()) {
+        repaired.push(`Dropped sections[${index}] without content`);
+        return;
+      }
+
+      sections.push({
+        type,
+        title: toOptionalString(section.title),
+        content: sectionContent,
+        language: type === 'code' ? toOptionalString(section.language) : undefined,
+        visualAid: type === 'code' ? undefined : toOptionalString(section.visualAid)?.replace(VISUAL_AID_LABEL, '') || undefined
+      });
+    });
+
+    if (sections.length === 0) {
+      errors.push('"sections" must contain at least one section with content');
+    }
+  }
+
+  if (errors.length > 0 || !title || !keyConcepts || !prerequisites) {
+    return { lesson: null, errors, repaired };
+  }
+
+  return { lesson: { title, keyConcepts, prerequisites, sections }, errors, repaired };
+}
+
+/**
+ * The Visual Aid line written for a section, in the format image generation looks for
+ */
+export function toVisualAidLine(visualAid: string): string {
+  return `**Visual Aid Suggestion:** ${visualAid}`;
+}
+
+/**
+ * Section content as it appears in the lesson, with its Visual Aid line
+ */
+export function renderStructuredSectionContent(section: StructuredLessonSection): string {
+  return section.visualAid ? `${section.content}\n\n${toVisualAidLine(section.visualAid)}` : section.content;
+}
+
+/**
+ * Markdown document of a structured lesson, in the shape the markdown mode produces
+ */
+export function structuredLessonToMarkdown(lesson: StructuredLesson): string {
+  let markdown = `# ${lesson.title}\n\n`;
+
+  for (const section of lesson.sections) {
+    if (section.title) {
+      markdown += `## ${section.title}\n\n`;
+    }
+    markdown += section.type === 'code'
+      ? `\`\`\`${section.language || ''}\n${section.content}\n\`\`\`\n\n`
+      : `${renderStructuredSectionContent(section)}\n\n`;
+  }
+
+  return markdown.trim() + '\n';
+}
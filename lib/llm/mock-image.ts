@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { logServerMessage } from '@/lib/sentry';
+import { ImageTracer } from '@/lib/image-tracing';
+import { ImageProvider } from './image-generation-common';
+
+const PLACEHOLDER_SIZE = 256;
+const BORDER_WIDTH = 8;
+
+// CRC-32 table for PNG chunk checksums
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * A solid square PNG with a darker border, its color derived from the prompt
+ * so each prompt gets the same placeholder every time
+ */
+export function createPlaceholderPng(prompt: string): Buffer {
+  const [r, g, b] = createHash('sha256').update(prompt).digest();
+  // Keep the fill light so it reads as a placeholder
+  const fill = [128 + (r >> 1), 128 + (g >> 1), 128 + (b >> 1)];
+  const border = fill.map(value => value - 96);
+
+  const rowLength = PLACEHOLDER_SIZE * 3 + 1;
+  const pixels = Buffer.alloc(rowLength * PLACEHOLDER_SIZE);
+  for (let y = 0; y < PLACEHOLDER_SIZE; y++) {
+    pixels[y * rowLength] = 0; // No filter
+    for (let x = 0; x < PLACEHOLDER_SIZE; x++) {
+      const edge = Math.min(x, y, PLACEHOLDER_SIZE - 1 - x, PLACEHOLDER_SIZE - 1 - y) < BORDER_WIDTH;
+      const color = edge ? border : fill;
+      pixels.set(color, y * rowLength + 1 + x * 3);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(PLACEHOLDER_SIZE, 0);
+  header.writeUInt32BE(PLACEHOLDER_SIZE, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Truecolor RGB
+  // Compression, filter and interlace methods stay 0
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(pixels)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Mock Image Generation Provider
+ * Returns placeholder PNGs without any network calls, so lessons with images can be
+ * generated offline. Enabled with IMAGE_MOCK=true, in which case it is the only provider used.
+ */
+export class MockImageProvider implements ImageProvider {
+  name = 'mock';
+
+  isAvailable(): boolean {
+    return process.env.IMAGE_MOCK === 'true';
+  }
+
+  async generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
+    if (signal?.aborted) {
+      throw new Error('Image generation was cancelled');
+    }
+
+    const startTime = Date.now();
+    const base64Data = createPlaceholderPng(prompt).toString('base64');
+
+    logServerMessage('Generated placeholder image with mock provider', 'info', {
+      prompt: prompt.substring(0, 100),
+      dataSize: base64Data.length
+    });
+
+    if (tracer) {
+      tracer.addImageGenerationAttempt({
+        model: 'mock-placeholder',
+        prompt,
+        request: { prompt, model: 'mock-placeholder', options: { width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE } },
+        response: { success: true, dataSize: base64Data.length },
+        duration_ms: Date.now() - startTime,
+        success: true
+      });
+    }
+
+    return base64Data;
+  }
+}
+
+/**
+ * Create and return a mock image provider instance
+ */
+export function createMockImageProvider(): MockImageProvider {
+  return new MockImageProvider();
+}
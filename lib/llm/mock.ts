@@ -0,0 +1,298 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  JUDGE_SYSTEM_PROMPT,
+  SECTION_SYSTEM_PROMPT,
+  TRANSLATION_SYSTEM_PROMPT,
+  UNIT_SPLIT_SYSTEM_PROMPT,
+  getSystemPrompt,
+  getUserPrompt,
+  extractTitle,
+  extractKeyConcepts,
+  extractPrerequisites,
+  countSectionsFromContent,
+  type LessonGenerationOptions
+} from './prompts';
+import { toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type ProviderCallOptions } from './completion-common';
+import { getModelSettings, getProvider, getProviderPriority, type TextProvider } from './registry';
+import type { GeneratedLesson } from './openai';
+import { JUDGE_CRITERIA, JUDGE_MAX_SCORE } from './ensemble';
+
+/**
+ * Mock LLM provider for running the lesson pipeline offline.
+ *
+ * LLM_MOCK_MODE selects what it answers with:
+ * - fixed: deterministic lessons built from the request, no network
+ * - record: forwards each request to a real provider (LLM_MOCK_RECORD_PROVIDER, or the first
+ *   available one) and saves the response as a fixture
+ * - replay: answers from saved fixtures and fails for requests without one
+ * Fixtures are JSON files in LLM_MOCK_FIXTURES_DIR (default fixtures/llm), named by a hash of the prompts.
+ */
+
+export type MockMode = 'fixed' | 'record' | 'replay';
+
+export const MOCK_DEFAULTS: ProviderDefaults = { model: 'mock-lesson', temperature: 0, maxTokens: 4000 };
+
+interface LLMFixture {
+  key: string;
+  provider: string; // Provider that answered when the fixture was recorded
+  recordedAt: string;
+  request: { systemPrompt?: string; userPrompt: string; json?: boolean };
+  response: CompletionResult;
+}
+
+export function getMockMode(): MockMode | null {
+  const mode = process.env.LLM_MOCK_MODE;
+  return mode === 'fixed' || mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_MOCK_FIXTURES_DIR || 'fixtures/llm');
+}
+
+/**
+ * Fixture key of a request: the prompts and response format, not the sampling settings
+ */
+function getFixtureKey(request: CompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.systemPrompt || '', request.userPrompt, !!request.json]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+async function readFixture(key: string): Promise<LLMFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(getFixturesDir(), `${key}.json`), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(fixture: LLMFixture) {
+  await fs.mkdir(getFixturesDir(), { recursive: true });
+  await fs.writeFile(path.join(getFixturesDir(), `${fixture.key}.json`), JSON.stringify(fixture, null, 2) + '\n');
+}
+
+/**
+ * Provider that answers while recording: the configured one, else the first available real provider
+ */
+function getRecordProvider(): TextProvider {
+  const name = process.env.LLM_MOCK_RECORD_PROVIDER
+    || getProviderPriority().find(candidate => candidate !== mockProvider.name && getProvider(candidate)?.isAvailable());
+  const provider = name ? getProvider(name) : undefined;
+  if (!provider || provider.name === mockProvider.name) {
+    throw new Error('No LLM provider to record from. Configure one or set LLM_MOCK_RECORD_PROVIDER');
+  }
+  return provider;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * The lesson the mock writes in fixed mode. Depends only on the options, so the same
+ * request always produces the same lesson; "reading and visual" lessons get 3 Visual Aid hints.
+ */
+export function getMockLessonMarkdown(options: LessonGenerationOptions): string {
+  const {
+    outline,
+    gradeLevel = '2',
+    sections = 4,
+    learningStyle = 'reading',
+    includeExamples = true,
+    includeExercises = true
+  } = options;
+
+  const topic = outline.trim().split('\n')[0].replace(/[.!?]+$/, '') || 'Mock lesson';
+  const visualAids = learningStyle === 'reading and visual'
+    ? [
+        `A colorful diagram giving an overview of ${topic}`,
+        `A labeled illustration showing the main parts of ${topic}`,
+        `A simple chart showing how the ideas of ${topic} connect`
+      ]
+    : [];
+
+  const parts = [
+    `# ${capitalize(topic)}`,
+    `## Learning Objectives\n\n- Explain what ${topic} means\n- Describe the key ideas of ${topic}\n- Use ${topic} in a real-world example`
+  ];
+
+  for (let i = 0; i < Math.max(sections, 1); i++) {
+    let body = `This section explains part ${i + 1} of ${topic} for grade ${gradeLevel} students. **Key concept ${i + 1}** builds on what came before.`;
+    if (includeExamples) {
+      body += `\n\nFor example, a student can notice ${topic} in everyday life and describe it in their own words.`;
+    }
+    if (visualAids[i]) {
+      body += `\n\n**Visual Aid Suggestion:** ${visualAids[i]}`;
+    }
+    parts.push(`## Part ${i + 1}: Key Concept ${i + 1}\n\n${body}`);
+  }
+
+  if (includeExercises) {
+    parts.push(`## Practice Exercises\n\n1. Describe ${topic} in one sentence.\n2. Give an example of ${topic} from your day.\n3. Explain how the key concepts fit together.`);
+  }
+
+  parts.push(`## Summary\n\nYou learned the key ideas of ${topic} and how to use them. Next, try explaining ${topic} to a friend.`);
+
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * The part of a prompt between two markers
+ */
+function between(text: string, start: string, end?: string): string {
+  const from = text.indexOf(start);
+  if (from === -1) {
+    return '';
+  }
+  const rest = text.substring(from + start.length);
+  const to = end ? rest.indexOf(end) : -1;
+  return (to === -1 ? rest : rest.substring(0, to)).trim();
+}
+
+/**
+ * Fixed-mode answer to a completion, by the kind of request its system prompt marks
+ */
+function getFixedCompletion(request: CompletionRequest): string {
+  const { systemPrompt, userPrompt } = request;
+
+  if (systemPrompt === SECTION_SYSTEM_PROMPT) {
+    // Keep the section as it was, including its [IMAGE:...] lines
+    return between(userPrompt, 'Section to rewrite', '\n\nNext section').replace(/^[^\n]*:\n/, '') || 'Rewritten section.';
+  }
+
+  if (systemPrompt === TRANSLATION_SYSTEM_PROMPT) {
+    // Echo the text so every placeholder survives
+    return userPrompt.replace(/^[\s\S]*?Translate the following from .+? into .+?:\n\n/, '');
+  }
+
+  if (systemPrompt === UNIT_SPLIT_SYSTEM_PROMPT) {
+    const topics = between(userPrompt, 'Unit outline:\n', '\n\nSplit this unit')
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean);
+    const count = parseInt(userPrompt.match(/into exactly (\d+) lessons/)?.[1] || '') || Math.max(topics.length, 3);
+    return JSON.stringify(Array.from({ length: count }, (_, i) => {
+      const topic = topics[i] || `${topics[0] || 'Unit'} (part ${i + 1})`;
+      return { title: `Lesson ${i + 1}: ${capitalize(topic)}`, outline: topic };
+    }));
+  }
+
+  if (systemPrompt === JUDGE_SYSTEM_PROMPT) {
+    // Every candidate scores the same, so the first (highest priority) one is kept
+    const labels = [...userPrompt.matchAll(/^### Candidate ([A-Z])$/gm)].map(match => match[1]);
+    return JSON.stringify({
+      candidates: labels.map(label => ({
+        label,
+        scores: Object.fromEntries(Object.keys(JUDGE_CRITERIA).map(criterion => [criterion, JUDGE_MAX_SCORE - 1])),
+        rationale: 'Mock judgement'
+      }))
+    });
+  }
+
+  return getMockLessonMarkdown({ outline: userPrompt.match(/outline: "([^"]+)"/)?.[1] || 'Mock lesson' });
+}
+
+/**
+ * Report content through onChunk a paragraph at a time, like a streaming provider
+ */
+function streamContent(content: string, onChunk?: (chunk: string) => void) {
+  if (!onChunk) {
+    return;
+  }
+  for (const chunk of content.split(/(?<=\n\n)/)) {
+    onChunk(chunk);
+  }
+}
+
+/**
+ * A fixed-mode answer, streamed if requested, with rough token counts so totals show up in traces
+ */
+function toFixedResult(prompt: string, content: string, callOptions: ProviderCallOptions): CompletionResult {
+  if (callOptions.signal?.aborted) {
+    throw new Error('Mock request was aborted');
+  }
+  streamContent(content, callOptions.onChunk);
+  return {
+    content,
+    model: callOptions.model || MOCK_DEFAULTS.model,
+    usage: toTokenUsage(Math.ceil(prompt.length / 4), Math.ceil(content.length / 4))
+  };
+}
+
+export async function completeWithMock(request: CompletionRequest): Promise<CompletionResult> {
+  const mode = getMockMode();
+  if (!mode) {
+    throw new Error('LLM_MOCK_MODE environment variable is not set');
+  }
+
+  if (mode === 'fixed') {
+    return toFixedResult(`${request.systemPrompt || ''}${request.userPrompt}`, getFixedCompletion(request), request);
+  }
+
+  const key = getFixtureKey(request);
+
+  if (mode === 'replay') {
+    const fixture = await readFixture(key);
+    if (!fixture) {
+      throw new Error(`No LLM fixture for this request (${key}). Record one with LLM_MOCK_MODE=record`);
+    }
+    streamContent(fixture.response.content, request.onChunk);
+    return fixture.response;
+  }
+
+  // Record with the real provider's own model settings rather than the mock's
+  const provider = getRecordProvider();
+  const { model, temperature, maxTokens } = getModelSettings(provider.name);
+  const response = await provider.complete({ ...request, model, temperature, maxTokens });
+  await writeFixture({
+    key,
+    provider: provider.name,
+    recordedAt: new Date().toISOString(),
+    request: { systemPrompt: request.systemPrompt, userPrompt: request.userPrompt, json: request.json },
+    response: { content: response.content, model: response.model, usage: response.usage }
+  });
+  return response;
+}
+
+export async function generateLessonWithMock(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
+  const { gradeLevel = '2' } = options;
+
+  try {
+    // Recorded lessons use the system/user prompts every chat provider gets
+    const { content, model, usage } = getMockMode() === 'fixed'
+      ? toFixedResult(getUserPrompt(options), getMockLessonMarkdown(options), callOptions)
+      : await completeWithMock({ systemPrompt: getSystemPrompt(options.language), userPrompt: getUserPrompt(options), ...callOptions });
+
+    return {
+      title: extractTitle(content, options.language),
+      content,
+      estimatedSections: countSectionsFromContent(content),
+      gradeLevel,
+      keyConcepts: extractKeyConcepts(content),
+      prerequisites: extractPrerequisites(content),
+      model,
+      usage
+    };
+  } catch (error) {
+    console.error('Mock provider error:', error);
+    throw new Error(`Failed to generate lesson with mock provider: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+export const mockProvider: TextProvider = {
+  name: 'mock',
+  capabilities: { streaming: true, json: false },
+  isAvailable: () => getMockMode() !== null,
+  defaults: MOCK_DEFAULTS,
+  generate: generateLessonWithMock,
+  complete: completeWithMock
+};
@@ -6,6 +6,12 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toCombinedPrompt, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions, type StreamResult } from './completion-common';
+import type { TextProvider } from './registry';
+
+// A free local model
+// Local models on modest hardware can take minutes for a whole lesson
+export const OLLAMA_DEFAULTS: ProviderDefaults = { model: 'llama3.1:8b', temperature: 0.7, maxTokens: 2000, timeoutMs: 300000 };
 
 export interface GeneratedLesson {
   title: string;
@@ -14,9 +20,96 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
+}
+
+/**
+ * Ollama streams newline-delimited JSON objects, one per generated token batch
+ */
+interface OllamaResponseLine {
+  model?: string;
+  response?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
-export async function generateLessonWithOllama(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+async function* readJsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<OllamaResponseLine> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer);
+  }
+}
+
+export async function completeWithOllama(request: CompletionRequest): Promise<CompletionResult> {
+  // Check if Ollama is running locally
+  const ollamaUrl = process.env.OLLAMA_URL || 'http://localhost:11434';
+  const model = request.model || OLLAMA_DEFAULTS.model;
+
+  const response = await fetch(`${ollamaUrl}/api/generate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      prompt: toCombinedPrompt(request),
+      stream: !!request.onChunk,
+      ...(request.json ? { format: 'json' } : {}),
+      options: {
+        temperature: request.temperature ?? OLLAMA_DEFAULTS.temperature,
+        num_predict: request.maxTokens || OLLAMA_DEFAULTS.maxTokens
+      }
+    }),
+    signal: request.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+  }
+
+  // The last line of a stream (or the whole response) carries the token counts
+  const result: StreamResult = request.onChunk && response.body
+    ? await collectStream(readJsonLines(response.body), line => line.response, request.onChunk, line => ({
+        model: line.model,
+        promptTokens: line.prompt_eval_count,
+        completionTokens: line.eval_count
+      }))
+    : await response.json().then((data: OllamaResponseLine) => ({
+        content: data.response || '',
+        model: data.model,
+        usage: toTokenUsage(data.prompt_eval_count, data.eval_count)
+      }));
+
+  if (!result.content) {
+    throw new Error('No content generated by Ollama');
+  }
+
+  return { content: result.content, model: result.model || model, usage: result.usage };
+}
+
+export async function generateLessonWithOllama(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
@@ -25,38 +118,10 @@ export async function generateLessonWithOllama(options: LessonGenerationOptions)
   const prompt = getCombinedPrompt(options);
 
   try {
-    // Check if Ollama is running locally
-    const ollamaUrl = process.env.OLLAMA_URL || 'http://localhost:11434';
-    
-    const response = await fetch(`${ollamaUrl}/api/generate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama3.1:8b', // Free local model
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          num_predict: 2000
-        }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    const content = result.response;
-
-    if (!content) {
-      throw new Error('No content generated by Ollama');
-    }
+    const { content, model, usage } = await completeWithOllama({ userPrompt: prompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -67,10 +132,21 @@ export async function generateLessonWithOllama(options: LessonGenerationOptions)
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Ollama API error:', error);
-    throw new Error(`Failed to generate lesson with Ollama: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson with Ollama: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const ollamaProvider: TextProvider = {
+  name: 'ollama',
+  capabilities: { streaming: true, json: true },
+  isAvailable: () => !!process.env.OLLAMA_URL || process.env.NODE_ENV === 'development', // Assume a local server in development
+  defaults: OLLAMA_DEFAULTS,
+  generate: generateLessonWithOllama,
+  complete: completeWithOllama
+};
@@ -0,0 +1,136 @@
+import OpenAI from 'openai';
+import { 
+  getSystemPrompt, 
+  getUserPrompt, 
+  extractTitle, 
+  extractKeyConcepts, 
+  extractPrerequisites,
+  countSectionsFromContent,
+  type LessonGenerationOptions 
+} from './prompts';
+import { collectStream, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
+
+/**
+ * OpenAI-compatible provider for self-hosted servers such as vLLM and llama.cpp.
+ * Configured separately from the real OpenAI provider, so both can be in the fallback chain:
+ * OPENAI_COMPATIBLE_BASE_URL (e.g. http://localhost:8000/v1), OPENAI_COMPATIBLE_MODEL and
+ * an optional OPENAI_COMPATIBLE_API_KEY.
+ */
+function getOpenAICompatibleClient() {
+  if (!process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL environment variable is not set');
+  }
+  return new OpenAI({
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    // The SDK requires a key; servers started without one ignore it
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+    maxRetries: 0, // Retried in the LLM layer so each attempt is traced
+  });
+}
+
+// llama.cpp answers with whatever model it loaded; vLLM needs OPENAI_COMPATIBLE_MODEL set to the served model
+export const OPENAI_COMPATIBLE_DEFAULTS: ProviderDefaults = { model: 'default', temperature: 0.7, maxTokens: 4000 };
+
+export interface GeneratedLesson {
+  title: string;
+  content: string;
+  estimatedSections: number;
+  gradeLevel: string;
+  keyConcepts: string[];
+  prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
+}
+
+export async function completeWithOpenAICompatible(request: CompletionRequest): Promise<CompletionResult> {
+  const client = getOpenAICompatibleClient();
+  const params = {
+    model: request.model || OPENAI_COMPATIBLE_DEFAULTS.model,
+    messages: [
+      ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+      { role: "user" as const, content: request.userPrompt }
+    ],
+    max_tokens: request.maxTokens || OPENAI_COMPATIBLE_DEFAULTS.maxTokens,
+    temperature: request.temperature ?? OPENAI_COMPATIBLE_DEFAULTS.temperature,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+
+  if (request.onChunk) {
+    const stream = await client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    const { content, model, usage } = await collectStream(
+      stream,
+      chunk => chunk.choices[0]?.delta?.content,
+      request.onChunk,
+      chunk => ({
+        model: chunk.model,
+        promptTokens: chunk.usage?.prompt_tokens,
+        completionTokens: chunk.usage?.completion_tokens
+      })
+    );
+    if (!content) {
+      throw new Error('No content generated by the OpenAI-compatible server');
+    }
+    return { content, model: model || params.model, usage };
+  }
+
+  const completion = await client.chat.completions.create(params, { signal: request.signal });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content generated by the OpenAI-compatible server');
+  }
+
+  return {
+    content,
+    model: completion.model || params.model,
+    usage: toTokenUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens)
+  };
+}
+
+export async function generateLessonWithOpenAICompatible(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
+  const { gradeLevel = '2' } = options;
+
+  const systemPrompt = getSystemPrompt(options.language);
+  const userPrompt = getUserPrompt(options);
+
+  try {
+    const { content, model, usage } = await completeWithOpenAICompatible({ systemPrompt, userPrompt, ...callOptions });
+
+    // Extract structured information from the generated content
+    const title = extractTitle(content, options.language);
+    const keyConcepts = extractKeyConcepts(content);
+    const prerequisites = extractPrerequisites(content);
+    const estimatedSections = countSectionsFromContent(content);
+
+    return {
+      title,
+      content,
+      estimatedSections,
+      gradeLevel,
+      keyConcepts,
+      prerequisites,
+      model,
+      usage
+    };
+  } catch (error) {
+    console.error('OpenAI-compatible API error:', error);
+    throw new Error(`Failed to generate lesson: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+export const openAICompatibleProvider: TextProvider = {
+  name: 'openai-compatible',
+  capabilities: { streaming: true, json: true },
+  isAvailable: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+  defaults: OPENAI_COMPATIBLE_DEFAULTS,
+  generate: generateLessonWithOpenAICompatible,
+  complete: completeWithOpenAICompatible
+};
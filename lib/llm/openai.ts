@@ -1,6 +1,6 @@
 import OpenAI from 'openai';
 import { 
-  SYSTEM_PROMPT, 
+  getSystemPrompt, 
   getUserPrompt, 
   extractTitle, 
   extractKeyConcepts, 
@@ -8,6 +8,9 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
+import type { StructuredLesson } from './lesson-schema';
 
 // Initialize OpenAI client lazily to avoid errors when API key is not set
 function getOpenAIClient() {
@@ -16,9 +19,12 @@ function getOpenAIClient() {
   }
   return new OpenAI({
     apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0, // Retried in the LLM layer so each attempt is traced
   });
 }
 
+export const OPENAI_DEFAULTS: ProviderDefaults = { model: 'gpt-5-nano', temperature: 0.7, maxTokens: 4000 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -26,36 +32,77 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
+  structured?: StructuredLesson; // Set when the lesson was written in JSON mode
 }
 
-export async function generateLessonWithOpenAI(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function completeWithOpenAI(request: CompletionRequest): Promise<CompletionResult> {
+  const openai = getOpenAIClient();
+  const params = {
+    model: request.model || OPENAI_DEFAULTS.model,
+    messages: [
+      ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+      { role: "user" as const, content: request.userPrompt }
+    ],
+    max_tokens: request.maxTokens || OPENAI_DEFAULTS.maxTokens,
+    temperature: request.temperature ?? OPENAI_DEFAULTS.temperature,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+
+  if (request.onChunk) {
+    const stream = await openai.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    const { content, model, usage } = await collectStream(
+      stream,
+      chunk => chunk.choices[0]?.delta?.content,
+      request.onChunk,
+      chunk => ({
+        model: chunk.model,
+        promptTokens: chunk.usage?.prompt_tokens,
+        completionTokens: chunk.usage?.completion_tokens
+      })
+    );
+    if (!content) {
+      throw new Error('No content generated by OpenAI');
+    }
+    return { content, model: model || params.model, usage };
+  }
+
+  const completion = await openai.chat.completions.create(params, { signal: request.signal });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content generated by OpenAI');
+  }
+
+  return {
+    content,
+    model: completion.model || params.model,
+    usage: toTokenUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens)
+  };
+}
+
+export async function generateLessonWithOpenAI(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
   } = options;
 
-  const systemPrompt = SYSTEM_PROMPT;
+  const systemPrompt = getSystemPrompt(options.language);
   const userPrompt = getUserPrompt(options);
 
   try {
-    const openai = getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-5-nano",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      max_tokens: 4000,
-      temperature: 0.7,
-    });
-
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content generated by OpenAI');
-    }
+    const { content, model, usage } = await completeWithOpenAI({ systemPrompt, userPrompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -66,10 +113,21 @@ export async function generateLessonWithOpenAI(options: LessonGenerationOptions)
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('OpenAI API error:', error);
-    throw new Error(`Failed to generate lesson: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const openAIProvider: TextProvider = {
+  name: 'openai',
+  capabilities: { streaming: true, json: true },
+  isAvailable: () => !!process.env.OPENAI_API_KEY,
+  defaults: OPENAI_DEFAULTS,
+  generate: generateLessonWithOpenAI,
+  complete: completeWithOpenAI
+};
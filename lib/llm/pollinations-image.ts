@@ -27,7 +27,7 @@ export class PollinationsImageProvider implements ImageProvider {
     return true;
   }
   
-  async generateImage(prompt: string, tracer?: ImageTracer): Promise<string> {
+  async generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
     try {
       logServerMessage('Starting image generation with Pollinations.ai', 'info', { 
         prompt: prompt.substring(0, 100) 
@@ -54,7 +54,8 @@ export class PollinationsImageProvider implements ImageProvider {
             method: 'GET',
             headers: {
               'Accept': 'image/*'
-            }
+            },
+            signal
           });
           
           if (!response.ok) {
@@ -121,6 +122,9 @@ export class PollinationsImageProvider implements ImageProvider {
           }
           
         } catch (error: any) {
+          if (signal?.aborted) {
+            throw error;
+          }
           lastError = error;
           const errorMsg = error?.message || error?.toString() || 'Unknown error';
           const attemptDuration = Date.now() - attemptStartTime;
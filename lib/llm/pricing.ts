@@ -0,0 +1,44 @@
+import { type TokenUsage } from './completion-common';
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+/**
+ * List prices of the models the providers call. Free tiers and local models cost nothing.
+ * Providers may report a dated version (e.g. gpt-5-nano-2025-08-07), so lookups match by prefix.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'gemini-2.0-flash': { input: 0, output: 0 },
+  'meta-llama/Llama-2-7b-chat-hf': { input: 0, output: 0 },
+  'Qwen/Qwen2.5-7B-Instruct': { input: 0, output: 0 },
+  'llama3.1:8b': { input: 0, output: 0 }
+};
+
+export function getModelPrice(model: string): ModelPrice | null {
+  if (MODEL_PRICES[model]) {
+    return MODEL_PRICES[model];
+  }
+
+  // Longest matching prefix wins so a more specific entry can override a family price
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+/**
+ * Cost of a call in USD, or null if the model has no known price or no usage was reported
+ */
+export function calculateCost(model: string | undefined, usage: TokenUsage | undefined): number | null {
+  const price = model ? getModelPrice(model) : null;
+  if (!price || !usage) {
+    return null;
+  }
+
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
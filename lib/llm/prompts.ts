@@ -1,3 +1,7 @@
+import { getLessonLanguage, stripTitlePrefix, type LessonLanguage } from './languages';
+import { STRUCTURED_LESSON_SCHEMA } from './lesson-schema';
+import { JUDGE_CRITERIA, JUDGE_MAX_SCORE, JUDGE_MIN_SCORE, type JudgeCriterion } from './ensemble';
+
 export interface LessonGenerationOptions {
   outline: string;
   gradeLevel?: '2' | '3' | '4' | '5' | '6' | '7' | '8';
@@ -5,9 +9,60 @@ export interface LessonGenerationOptions {
   learningStyle?: 'reading and visual' | 'reading';
   includeExamples?: boolean;
   includeExercises?: boolean;
+  courseContext?: CourseContext; // Set when the lesson is part of a course
+  language?: LessonLanguage; // Language the lesson is written in, English when omitted
   // numberOfImages removed - images are now generated dynamically based on Visual Aid hints
 }
 
+export interface CourseContext {
+  courseTitle: string;
+  courseDescription?: string | null;
+  previousLessons: string[]; // Titles of the lessons before this one, in course order
+  nextLessons?: string[]; // Titles of the lessons after this one, in course order
+}
+
+/**
+ * Tells the model where the lesson sits in its course so it builds on the earlier lessons
+ */
+function getCourseContextInstruction(courseContext?: CourseContext): string {
+  if (!courseContext) {
+    return '';
+  }
+
+  const list = (titles: string[]) => titles.map((title, index) => `${index + 1}. ${title}`).join('\n');
+  const previous = courseContext.previousLessons.length > 0
+    ? `\nEarlier lessons in this course (students have already completed these):\n${list(courseContext.previousLessons)}\n`
+    : '\nThis is the first lesson of the course.\n';
+  const next = courseContext.nextLessons && courseContext.nextLessons.length > 0
+    ? `\nLater lessons in this course (leave these topics for them):\n${list(courseContext.nextLessons)}\n`
+    : '';
+
+  return `
+
+Course Context:
+This lesson is part of the course "${courseContext.courseTitle}".${courseContext.courseDescription ? `\nCourse description: ${courseContext.courseDescription}` : ''}
+${previous}${next}
+Build on what the earlier lessons covered instead of repeating it, and refer back to them where it helps.`;
+}
+
+/**
+ * Tells the model which language to write in. Empty for English, the prompts' own language.
+ * The Visual Aid label stays in English so hints can be found reliably.
+ */
+function getLanguageInstruction(language?: LessonLanguage, visualAids: boolean = false): string {
+  const info = getLessonLanguage(language);
+  if (info.code === 'en') {
+    return '';
+  }
+
+  return `
+
+Language:
+Write the entire lesson in ${info.name} (${info.nativeName}): the title, headings, explanations, examples, exercises and summary.${info.direction === 'rtl' ? ' The text is displayed right-to-left.' : ''}
+Keep code, formulas and [IMAGE:...] placeholders unchanged.${visualAids ? `
+Keep the label "**Visual Aid Suggestion:**" exactly as written in English, but write the description after it in ${info.name}.` : ''}`;
+}
+
 /**
  * System prompt for lesson generation
  * Used by providers that support system/user message separation (OpenAI, Anthropic, Groq, Gemini, Qwen)
@@ -33,6 +88,16 @@ Content Structure:
 
 Format the response as a complete lesson with proper markdown formatting.`;
 
+/**
+ * System prompt for a lesson in the given language
+ */
+export function getSystemPrompt(language?: LessonLanguage): string {
+  const info = getLessonLanguage(language);
+  return info.code === 'en'
+    ? SYSTEM_PROMPT
+    : `${SYSTEM_PROMPT}\n\nWrite the lesson in ${info.name} (${info.nativeName}).`;
+}
+
 /**
  * User prompt for lesson generation
  * Used by providers that support system/user message separation (OpenAI, Anthropic, Groq, Gemini, Qwen)
@@ -44,7 +109,9 @@ export function getUserPrompt(options: LessonGenerationOptions): string {
     sections = 4,
     learningStyle = 'reading',
     includeExamples = true,
-    includeExercises = true
+    includeExercises = true,
+    courseContext,
+    language
   } = options;
 
   // Add Visual Aid requirement for reading and visual learning style
@@ -73,7 +140,7 @@ Requirements:
 - Minimum number of sections: ${sections}
 - Learning Style: ${learningStyle}
 - Include Examples: ${includeExamples ? 'Yes' : 'No'}
-- Include Exercises: ${includeExercises ? 'Yes' : 'No'}${visualAidInstruction}
+- Include Exercises: ${includeExercises ? 'Yes' : 'No'}${visualAidInstruction}${getCourseContextInstruction(courseContext)}${getLanguageInstruction(language, learningStyle === 'reading and visual')}
 
 Please generate a complete lesson with:
 1. A compelling title (start with #). Dont start the title with Generated.
@@ -97,7 +164,9 @@ export function getCombinedPrompt(options: LessonGenerationOptions): string {
     sections = 4,
     learningStyle = 'reading',
     includeExamples = true,
-    includeExercises = true
+    includeExercises = true,
+    courseContext,
+    language
   } = options;
 
   // Add Visual Aid requirement for reading and visual learning style
@@ -126,7 +195,7 @@ Requirements:
 - Minimum number of sections: ${sections}
 - Learning Style: ${learningStyle}
 - Include Examples: ${includeExamples ? 'Yes' : 'No'}
-- Include Exercises: ${includeExercises ? 'Yes' : 'No'}${visualAidInstruction}
+- Include Exercises: ${includeExercises ? 'Yes' : 'No'}${visualAidInstruction}${getCourseContextInstruction(courseContext)}${getLanguageInstruction(language, learningStyle === 'reading and visual')}
 
 Please generate a complete lesson with:
 1. A compelling title (start with #). Dont start the title with Generated.
@@ -139,12 +208,287 @@ Please generate a complete lesson with:
 Format everything in proper markdown.`;
 }
 
+/**
+ * Response format for lessons written in JSON mode, added to the system prompt
+ */
+export const STRUCTURED_LESSON_INSTRUCTIONS = `Instead of a markdown document, respond with a single JSON object matching this JSON Schema:
+${JSON.stringify(STRUCTURED_LESSON_SCHEMA, null, 2)}
+
+Rules:
+- "title" is the lesson title as plain text, without a leading #
+- Each section's "content" is markdown without the section title; the first section holds the learning objectives
+- Put each code example in its own section of type "code", with the code without fences in "content" and its programming language in "language"
+- Put each Visual Aid hint in the "visualAid" field of the section it belongs to, as a plain description without the "Visual Aid Suggestion:" label
+- Keep JSON keys and section types in English
+- Do not wrap the JSON in a code fence or add any text around it`;
+
+/**
+ * System prompt for a lesson written in JSON mode
+ */
+export function getStructuredSystemPrompt(language?: LessonLanguage): string {
+  return `${getSystemPrompt(language)}\n\n${STRUCTURED_LESSON_INSTRUCTIONS}`;
+}
+
+/**
+ * User prompt for a lesson written in JSON mode: the markdown prompt, with markdown kept to the section content
+ */
+export function getStructuredLessonPrompt(options: LessonGenerationOptions): string {
+  return getUserPrompt(options).replace(
+    /Format everything in proper markdown\.$/,
+    'Respond with the lesson as a JSON object, using markdown inside the section content.'
+  );
+}
+
+/**
+ * Follow-up prompt asking the model to fix a structured lesson that failed validation
+ */
+export function getLessonRepairPrompt(options: LessonGenerationOptions, response: string, errors: string[]): string {
+  return `${getStructuredLessonPrompt(options)}
+
+Your previous response was not a valid lesson object:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${response}
+
+Respond with the corrected JSON object only.`;
+}
+
+export interface SectionContext {
+  title?: string;
+  content: string;
+}
+
+export interface SectionRegenerationOptions {
+  lessonTitle: string;
+  gradeLevel?: LessonGenerationOptions['gradeLevel'];
+  section: SectionContext & { type?: string };
+  previousSection?: SectionContext;
+  nextSection?: SectionContext;
+  instructions?: string; // Optional teacher guidance, e.g. "make it shorter"
+  language?: LessonLanguage; // Language of the lesson, English when omitted
+}
+
+/**
+ * System prompt for rewriting a single section of an existing lesson
+ */
+export const SECTION_SYSTEM_PROMPT = `You are an expert educational content creator. You rewrite one section of an existing lesson so it fits seamlessly between the sections around it.
+
+Guidelines:
+- Keep the same topic and purpose as the original section
+- Match the tone and difficulty of the surrounding sections
+- Do not repeat what the previous or next section already covers
+- Use appropriate markdown formatting, but do NOT include the section heading
+- Keep every [IMAGE:...] placeholder line exactly as written
+- Respond with the section body only, without any commentary`;
+
+/**
+ * User prompt for rewriting a single section
+ */
+export function getSectionRegenerationPrompt(options: SectionRegenerationOptions): string {
+  const {
+    lessonTitle,
+    gradeLevel = '2',
+    section,
+    previousSection,
+    nextSection,
+    instructions,
+    language
+  } = options;
+
+  const describe = (label: string, context?: SectionContext) => context
+    ? `${label}${context.title ? ` ("${context.title}")` : ''}:\n${context.content}`
+    : `${label}: (none)`;
+
+  return `Lesson title: "${lessonTitle}"
+School grade level: ${gradeLevel}
+
+${describe('Previous section', previousSection)}
+
+${describe('Section to rewrite', section)}
+
+${describe('Next section', nextSection)}
+${instructions ? `\nTeacher instructions: ${instructions}\n` : ''}
+Rewrite the "Section to rewrite" for grade ${gradeLevel}${language && language !== 'en' ? `, in ${getLessonLanguage(language).name}` : ''}. Return only its new markdown body.`;
+}
+
+export interface UnitSplitOptions {
+  unitOutline: string;
+  lessonCount?: number; // Let the model decide when omitted
+  gradeLevel?: LessonGenerationOptions['gradeLevel'];
+  language?: LessonLanguage; // Language to write the titles and outlines in
+}
+
+export interface UnitLessonOutline {
+  title: string;
+  outline: string;
+}
+
+/**
+ * System prompt for splitting a unit outline into lesson outlines
+ */
+export const UNIT_SPLIT_SYSTEM_PROMPT = `You are an expert curriculum planner. You split a unit outline into a sequence of lessons that build on each other.
+
+Guidelines:
+- Every lesson covers one focused topic from the unit
+- Order the lessons so earlier ones introduce what later ones rely on
+- Do not leave out topics from the unit and do not repeat topics across lessons
+- Write each lesson outline as one or two sentences a lesson writer can work from
+- Respond with a JSON array only, without any commentary`;
+
+/**
+ * User prompt for splitting a unit outline into lesson outlines
+ */
+export function getUnitSplitPrompt(options: UnitSplitOptions): string {
+  const { unitOutline, lessonCount, gradeLevel = '2', language } = options;
+
+  return `Unit outline:
+${unitOutline}
+
+Split this unit into ${lessonCount ? `exactly ${lessonCount}` : 'a sensible number of'} lessons for school grade ${gradeLevel}.${language && language !== 'en' ? `\nWrite the titles and outlines in ${getLessonLanguage(language).name}, keeping the JSON keys in English.` : ''}
+
+Respond with a JSON array in this exact format:
+[{"title": "Lesson title", "outline": "What the lesson covers"}]`;
+}
+
+export interface TranslationOptions {
+  text: string; // Markdown with protected parts replaced by placeholders
+  targetLanguage: LessonLanguage;
+  sourceLanguage?: LessonLanguage; // English when omitted
+  lessonTitle?: string; // Context for translating a section
+  gradeLevel?: LessonGenerationOptions['gradeLevel'];
+}
+
+/**
+ * System prompt for translating part of an existing lesson
+ */
+export const TRANSLATION_SYSTEM_PROMPT = `You are an expert translator of educational content for school children.
+
+Guidelines:
+- Translate the meaning naturally; do not translate word for word
+- Keep the reading level of the original
+- Keep the markdown formatting (headings, lists, tables, emphasis) exactly as it is
+- Keep every placeholder such as [[KEEP-0]] exactly as written and in a sensible position
+- Do not add, remove or explain content
+- Respond with the translation only, without any commentary`;
+
+/**
+ * User prompt for translating a lesson title or section
+ */
+export function getTranslationPrompt(options: TranslationOptions): string {
+  const { text, targetLanguage, sourceLanguage, lessonTitle, gradeLevel } = options;
+
+  return `${lessonTitle ? `Lesson title: "${lessonTitle}"\n` : ''}${gradeLevel ? `School grade level: ${gradeLevel}\n` : ''}
+Translate the following from ${getLessonLanguage(sourceLanguage).name} into ${getLessonLanguage(targetLanguage).name}:
+
+${text}`;
+}
+
+export interface JudgeCandidate {
+  label: string;
+  content: string; // Lesson markdown
+}
+
+/**
+ * System prompt for scoring ensemble candidates against the rubric
+ */
+export const JUDGE_SYSTEM_PROMPT = `You are an experienced teacher and curriculum reviewer. You compare candidate lessons written for the same request and score each one against a rubric.
+
+Guidelines:
+- Judge each candidate on its own merits against every criterion; do not reward length
+- Use the whole scoring range and give different scores when candidates differ in quality
+- Check facts, worked examples and answers carefully; a factual error weighs heavily on accuracy
+- Keep each rationale to one or two sentences naming the main strengths and weaknesses
+- Respond with a JSON object only, without any commentary`;
+
+/**
+ * User prompt asking the judge to score the candidates of an ensemble
+ */
+export function getJudgePrompt(options: LessonGenerationOptions, candidates: JudgeCandidate[], criteria: JudgeCriterion[]): string {
+  const { outline, gradeLevel = '2', sections = 4, learningStyle = 'reading', includeExercises = true, language } = options;
+  const example = Object.fromEntries(criteria.map(criterion => [criterion, JUDGE_MIN_SCORE]));
+
+  return `Lesson request:
+- Outline: "${outline}"
+- School grade level: ${gradeLevel}
+- Sections: ${sections}
+- Learning style: ${learningStyle}
+- Exercises: ${includeExercises ? 'requested' : 'not requested'}${language && language !== 'en' ? `\n- Language: ${getLessonLanguage(language).name}` : ''}
+
+Rubric (score each criterion from ${JUDGE_MIN_SCORE} to ${JUDGE_MAX_SCORE}):
+${criteria.map(criterion => `- ${criterion}: ${JUDGE_CRITERIA[criterion]}`).join('\n')}
+
+${candidates.map(candidate => `### Candidate ${candidate.label}\n\n${candidate.content.trim()}`).join('\n\n')}
+
+Score every candidate. Respond with a JSON object in this exact format:
+{"candidates": [{"label": "${candidates[0]?.label || 'A'}", "scores": ${JSON.stringify(example)}, "rationale": "Why it scored this way"}]}`;
+}
+
+/**
+ * Read the lesson outlines out of a unit split response. Accepts the requested JSON
+ * array (optionally wrapped in a code fence) and falls back to a numbered list.
+ */
+export function parseUnitLessonOutlines(content: string): UnitLessonOutline[] {
+  const arrayStart = content.indexOf('[');
+  const arrayEnd = content.lastIndexOf(']');
+
+  if (arrayStart !== -1 && arrayEnd > arrayStart) {
+    try {
+      const parsed = JSON.parse(content.substring(arrayStart, arrayEnd + 1));
+      if (Array.isArray(parsed)) {
+        const lessons = parsed
+          .map(item => typeof item === 'string'
+            ? { title: item.trim(), outline: item.trim() }
+            : { title: String(item?.title || '').trim(), outline: String(item?.outline || item?.title || '').trim() })
+          .filter(lesson => lesson.outline.length > 0);
+        if (lessons.length > 0) {
+          return lessons.map(lesson => ({ ...lesson, title: lesson.title || lesson.outline }));
+        }
+      }
+    } catch {
+      // Not valid JSON - try the numbered list below
+    }
+  }
+
+  return content
+    .split('\n')
+    .map(line => line.match(/^\s*\d+[.)]\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => {
+      const text = match[1].replace(/\*\*/g, '').trim();
+      const separator = text.search(/\s[-–:]\s|:\s/);
+      return separator > 0
+        ? { title: text.substring(0, separator).trim(), outline: text }
+        : { title: text, outline: text };
+    });
+}
+
 /**
  * Utility functions for extracting structured information from generated content
  */
-export function extractTitle(content: string): string {
+export function extractTitle(content: string, language?: LessonLanguage): string {
   const titleMatch = content.match(/^#\s+(.+)$/m);
-  return titleMatch ? titleMatch[1] : 'Generated Lesson';
+  return titleMatch ? stripTitlePrefix(titleMatch[1].replace(/\*\*/g, ''), language) : 'Generated Lesson';
+}
+
+/**
+ * Strip what models tend to wrap a rewritten section in: a code fence around the
+ * whole answer and a repeated section heading
+ */
+export function extractSectionBody(content: string, sectionTitle?: string): string {
+  let body = content.trim();
+
+  const fenced = body.match(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/);
+  if (fenced) {
+    body = fenced[1].trim();
+  }
+
+  const heading = body.match(/^#{1,6}\s+(.+)\n+/);
+  if (heading && (!sectionTitle || heading[1].trim().toLowerCase() === sectionTitle.trim().toLowerCase())) {
+    body = body.substring(heading[0].length).trim();
+  }
+
+  return body;
 }
 
 export function extractKeyConcepts(content: string): string[] {
@@ -1,6 +1,6 @@
 import { HfInference } from '@huggingface/inference';
 import { 
-  SYSTEM_PROMPT, 
+  getSystemPrompt, 
   getUserPrompt, 
   extractTitle, 
   extractKeyConcepts, 
@@ -8,6 +8,8 @@ import {
   countSectionsFromContent,
   type LessonGenerationOptions 
 } from './prompts';
+import { collectStream, toTokenUsage, type CompletionRequest, type CompletionResult, type ProviderDefaults, type TokenUsage, type ProviderCallOptions } from './completion-common';
+import type { TextProvider } from './registry';
 
 // Initialize Hugging Face client for Qwen models
 function getQwenClient() {
@@ -17,6 +19,9 @@ function getQwenClient() {
   return new HfInference(process.env.HUGGINGFACE_API_KEY);
 }
 
+// Qwen is used through chat completion, so the Instruct model
+export const QWEN_DEFAULTS: ProviderDefaults = { model: 'Qwen/Qwen2.5-7B-Instruct', temperature: 0.7, maxTokens: 2000 };
+
 export interface GeneratedLesson {
   title: string;
   content: string;
@@ -24,40 +29,76 @@ export interface GeneratedLesson {
   gradeLevel: string;
   keyConcepts: string[];
   prerequisites: string[];
+  model: string; // Model that wrote the lesson
+  provider?: string; // Set by generateLessonWithTracing
+  usage?: TokenUsage; // Tokens the provider reported for the call
+}
+
+export async function completeWithQwen(request: CompletionRequest): Promise<CompletionResult> {
+  const hf = getQwenClient();
+  // Use chat completion for Qwen models
+  const args = {
+    model: request.model || QWEN_DEFAULTS.model,
+    messages: [
+      ...(request.systemPrompt ? [{ role: "system", content: request.systemPrompt }] : []),
+      { role: "user", content: request.userPrompt }
+    ],
+    parameters: {
+      max_new_tokens: request.maxTokens || QWEN_DEFAULTS.maxTokens,
+      temperature: request.temperature ?? QWEN_DEFAULTS.temperature,
+      do_sample: true
+    }
+  };
+
+  if (request.onChunk) {
+    const stream = hf.chatCompletionStream({ ...args, stream_options: { include_usage: true } }, { signal: request.signal });
+    const { content, model, usage } = await collectStream(
+      stream,
+      chunk => chunk.choices[0]?.delta?.content,
+      request.onChunk,
+      chunk => ({
+        model: chunk.model,
+        promptTokens: chunk.usage?.prompt_tokens,
+        completionTokens: chunk.usage?.completion_tokens
+      })
+    );
+    if (!content) {
+      throw new Error('No content generated by Qwen');
+    }
+    return { content, model: model || args.model, usage };
+  }
+
+  const result = await hf.chatCompletion(args, { signal: request.signal });
+
+  const content = result.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No content generated by Qwen');
+  }
+
+  return {
+    content,
+    model: result.model || args.model,
+    usage: toTokenUsage(result.usage?.prompt_tokens, result.usage?.completion_tokens)
+  };
 }
 
-export async function generateLessonWithQwen(options: LessonGenerationOptions): Promise<GeneratedLesson> {
+export async function generateLessonWithQwen(
+  options: LessonGenerationOptions,
+  callOptions: ProviderCallOptions = {}
+): Promise<GeneratedLesson> {
   const {
     gradeLevel = '2',
     sections = 4
   } = options;
 
-  const systemPrompt = SYSTEM_PROMPT;
+  const systemPrompt = getSystemPrompt(options.language);
   const userPrompt = getUserPrompt(options);
 
   try {
-    const hf = getQwenClient();
-    // Use chat completion for Qwen models
-    const result = await hf.chatCompletion({
-      model: "Qwen/Qwen2.5-7B-Instruct", // Use Instruct model for chat
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      parameters: {
-        max_new_tokens: 2000,
-        temperature: 0.7,
-        do_sample: true
-      }
-    });
-
-    const content = result.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content generated by Qwen');
-    }
+    const { content, model, usage } = await completeWithQwen({ systemPrompt, userPrompt, ...callOptions });
 
     // Extract structured information from the generated content
-    const title = extractTitle(content);
+    const title = extractTitle(content, options.language);
     const keyConcepts = extractKeyConcepts(content);
     const prerequisites = extractPrerequisites(content);
     const estimatedSections = countSectionsFromContent(content);
@@ -68,10 +109,21 @@ export async function generateLessonWithQwen(options: LessonGenerationOptions):
       estimatedSections,
       gradeLevel,
       keyConcepts,
-      prerequisites
+      prerequisites,
+      model,
+      usage
     };
   } catch (error) {
     console.error('Qwen API error:', error);
-    throw new Error(`Failed to generate lesson with Qwen: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate lesson with Qwen: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
+
+export const qwenProvider: TextProvider = {
+  name: 'qwen',
+  capabilities: { streaming: true, json: false },
+  isAvailable: () => !!process.env.HUGGINGFACE_API_KEY,
+  defaults: QWEN_DEFAULTS,
+  generate: generateLessonWithQwen,
+  complete: completeWithQwen
+};
@@ -0,0 +1,144 @@
+/**
+ * LLM Provider Registry
+ *
+ * Every text provider registers itself here under its name. The order providers are
+ * tried in comes from LLM_PROVIDER_PRIORITY (comma-separated names), falling back to
+ * DEFAULT_PROVIDER_PRIORITY, so adding a provider means writing its module and
+ * registering it below. Model and sampling settings are configured per provider the
+ * same way (see getModelSettings).
+ */
+
+import type { LessonGenerationOptions } from './prompts';
+import type { CompletionRequest, CompletionResult, ModelSettings, ProviderCallOptions, ProviderDefaults } from './completion-common';
+import type { GeneratedLesson } from './openai';
+import { openAIProvider } from './openai';
+import { openAICompatibleProvider } from './openai-compatible';
+import { anthropicProvider } from './anthropic';
+import { groqProvider } from './groq';
+import { geminiProvider } from './gemini';
+import { huggingFaceProvider } from './huggingface';
+import { ollamaProvider } from './ollama';
+import { qwenProvider } from './qwen';
+import { mockProvider } from './mock';
+
+export interface ProviderCapabilities {
+  streaming: boolean; // Reports chunks through onChunk while generating
+  json: boolean; // Supports a JSON-only response mode
+}
+
+/**
+ * Text generation provider interface
+ */
+export interface TextProvider {
+  name: string;
+  capabilities: ProviderCapabilities;
+  defaults: ProviderDefaults;
+  isAvailable(): boolean;
+  generate(options: LessonGenerationOptions, callOptions?: ProviderCallOptions): Promise<GeneratedLesson>; // callOptions carries the abort signal
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// Free and self-hosted providers first, paid ones as fallback; the mock is only available with LLM_MOCK_MODE, which puts it first
+export const DEFAULT_PROVIDER_PRIORITY = ['gemini', 'groq', 'qwen', 'huggingface', 'ollama', 'openai-compatible', 'openai', 'anthropic', 'mock'];
+
+const providers = new Map<string, TextProvider>();
+
+/**
+ * Add a provider, replacing any registered under the same name
+ */
+export function registerProvider(provider: TextProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: string): TextProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Provider names in the configured order. Registered providers missing from
+ * LLM_PROVIDER_PRIORITY come after the listed ones, in default order.
+ * With LLM_MOCK_MODE fixed or replay only the mock is used, so an offline run never reaches
+ * a real provider; in record mode the mock comes first and forwards to the others.
+ */
+export function getProviderPriority(): string[] {
+  // Read directly rather than through getMockMode, the mock module imports this one
+  const mockMode = process.env.LLM_MOCK_MODE;
+  if (providers.has(mockProvider.name) && (mockMode === 'fixed' || mockMode === 'replay')) {
+    return [mockProvider.name];
+  }
+
+  const configured = (process.env.LLM_PROVIDER_PRIORITY || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => providers.has(name));
+  const remaining = [...DEFAULT_PROVIDER_PRIORITY, ...providers.keys()].filter(name => providers.has(name));
+  const mockFirst = mockMode === 'record' && providers.has(mockProvider.name) ? [mockProvider.name] : [];
+
+  return [...new Set([...mockFirst, ...configured, ...remaining])];
+}
+
+// A hung call is abandoned after this long unless the provider or environment sets a timeout
+export const DEFAULT_TIMEOUT_MS = 120000;
+
+export interface ResolvedModelSettings extends ProviderDefaults {
+  timeoutMs: number;
+}
+
+function readNumber(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Settings from the environment for a provider, e.g. OLLAMA_MODEL, OLLAMA_TEMPERATURE,
+ * OLLAMA_MAX_TOKENS and OLLAMA_TIMEOUT_MS. LLM_TIMEOUT_MS sets a timeout for every provider.
+ */
+function getEnvModelSettings(name: string): ModelSettings {
+  const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  return {
+    model: process.env[`${prefix}_MODEL`]?.trim() || undefined,
+    temperature: readNumber(`${prefix}_TEMPERATURE`),
+    maxTokens: readNumber(`${prefix}_MAX_TOKENS`),
+    timeoutMs: readNumber(`${prefix}_TIMEOUT_MS`) ?? readNumber('LLM_TIMEOUT_MS')
+  };
+}
+
+/**
+ * Settings for a call to a provider: its defaults, then the environment, then each
+ * override in order. Unset override values are skipped.
+ */
+export function getModelSettings(name: string, ...overrides: ModelSettings[]): ResolvedModelSettings {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unsupported LLM provider: ${name}`);
+  }
+
+  const settings: ResolvedModelSettings = { ...provider.defaults, timeoutMs: provider.defaults.timeoutMs || DEFAULT_TIMEOUT_MS };
+  for (const override of [getEnvModelSettings(name), ...overrides]) {
+    settings.model = override.model || settings.model;
+    settings.temperature = override.temperature ?? settings.temperature;
+    settings.maxTokens = override.maxTokens || settings.maxTokens;
+    settings.timeoutMs = override.timeoutMs || settings.timeoutMs;
+  }
+
+  return settings;
+}
+
+/**
+ * All registered providers in priority order, available or not
+ */
+export function getRegisteredProviders(): TextProvider[] {
+  return getProviderPriority().map(name => providers.get(name)!);
+}
+
+[
+  geminiProvider,
+  groqProvider,
+  qwenProvider,
+  huggingFaceProvider,
+  ollamaProvider,
+  openAICompatibleProvider,
+  openAIProvider,
+  anthropicProvider,
+  mockProvider
+].forEach(registerProvider);
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getProviderErrorDetails, getRetryDelay, waitForRetry } from './retry';
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status, headers });
+}
+
+describe('getProviderErrorDetails', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the status and Retry-After of SDK errors', () => {
+    expect(getProviderErrorDetails(httpError(429, { 'retry-after': '2' }))).toEqual({ status: 429, retryAfterMs: 2000 });
+  });
+
+  it('prefers retry-after-ms over retry-after', () => {
+    const error = httpError(429, { 'retry-after-ms': '1500', 'retry-after': '10' });
+
+    expect(getProviderErrorDetails(error).retryAfterMs).toBe(1500);
+  });
+
+  it('reads Retry-After given as an HTTP date', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const error = httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' });
+
+    expect(getProviderErrorDetails(error).retryAfterMs).toBe(5000);
+  });
+
+  it('reads Headers objects', () => {
+    const error = Object.assign(new Error('Overloaded'), { status: 529, headers: new Headers({ 'retry-after': '3' }) });
+
+    expect(getProviderErrorDetails(error)).toEqual({ status: 529, retryAfterMs: 3000 });
+  });
+
+  it('reads the status of Hugging Face errors from httpResponse', () => {
+    const error = Object.assign(new Error('Model is loading'), { httpResponse: { status: 503 } });
+
+    expect(getProviderErrorDetails(error).status).toBe(503);
+  });
+
+  it('follows the cause of wrapped errors', () => {
+    const error = new Error('Groq generation failed', { cause: httpError(429) });
+
+    expect(getProviderErrorDetails(error).status).toBe(429);
+  });
+
+  it('reads the status from fetch-based provider messages', () => {
+    expect(getProviderErrorDetails(new Error('Gemini API error: 503 Service Unavailable'))).toEqual({ status: 503 });
+  });
+
+  it('returns nothing for errors without a status', () => {
+    expect(getProviderErrorDetails(new Error('Something broke'))).toEqual({});
+    expect(getProviderErrorDetails(null)).toEqual({});
+  });
+});
+
+describe('getRetryDelay', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_MAX_RETRIES', '2');
+    vi.stubEnv('LLM_RETRY_BASE_DELAY_MS', '1000');
+    vi.stubEnv('LLM_RETRY_MAX_DELAY_MS', '30000');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('retries rate limits and server errors', () => {
+    [408, 409, 429, 500, 502, 503, 504, 529].forEach(status => {
+      expect(getRetryDelay(httpError(status), 0)).not.toBeNull();
+    });
+  });
+
+  it('does not retry client errors', () => {
+    [400, 401, 403, 404, 422].forEach(status => {
+      expect(getRetryDelay(httpError(status), 0)).toBeNull();
+    });
+  });
+
+  it('retries dropped connections but not refused ones', () => {
+    expect(getRetryDelay(new Error('socket hang up'), 0)).not.toBeNull();
+    expect(getRetryDelay(new TypeError('fetch failed', { cause: new Error('ECONNRESET') }), 0)).not.toBeNull();
+    expect(getRetryDelay(new Error('connect ECONNREFUSED 127.0.0.1:11434'), 0)).toBeNull();
+  });
+
+  it('stops after the configured number of retries', () => {
+    expect(getRetryDelay(httpError(503), 1)).not.toBeNull();
+    expect(getRetryDelay(httpError(503), 2)).toBeNull();
+  });
+
+  it('backs off exponentially with jitter in the upper half', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(httpError(503), 0)).toBe(500);
+    expect(getRetryDelay(httpError(503), 1)).toBe(1000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(httpError(503), 0)).toBe(1000);
+    expect(getRetryDelay(httpError(503), 1)).toBe(2000);
+  });
+
+  it('caps the backoff at the maximum delay', () => {
+    vi.stubEnv('LLM_MAX_RETRIES', '10');
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(httpError(503), 8)).toBe(30000);
+  });
+
+  it('waits as long as Retry-After asks', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after': '4' }), 0)).toBe(4000);
+  });
+
+  it('gives up when Retry-After asks for longer than the maximum delay', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after': '60' }), 0)).toBeNull();
+  });
+});
+
+describe('waitForRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers();
+    const wait = waitForRetry(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(wait).resolves.toBeUndefined();
+  });
+
+  it('rejects when the signal aborts', async () => {
+    const controller = new AbortController();
+    const wait = waitForRetry(60000, controller.signal);
+    controller.abort();
+
+    await expect(wait).rejects.toThrow('Request was aborted');
+  });
+
+  it('rejects straight away for an aborted signal', async () => {
+    await expect(waitForRetry(1000, AbortSignal.abort())).rejects.toThrow('Request was aborted');
+  });
+});
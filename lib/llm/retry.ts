@@ -0,0 +1,151 @@
+/**
+ * LLM Call Retries
+ *
+ * Transient provider errors (rate limits, overloaded or unavailable servers, dropped
+ * connections) are retried on the same provider up to LLM_MAX_RETRIES times before
+ * falling back to the next one. Waits grow exponentially from LLM_RETRY_BASE_DELAY_MS
+ * with random jitter; a Retry-After from the provider is used instead when it sends one.
+ * A provider asking to wait longer than LLM_RETRY_MAX_DELAY_MS is not retried.
+ */
+
+// Request timeout, conflict, rate limit, server errors and Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+// Connection problems worth another try; a refused connection means the server isn't running
+const RETRYABLE_MESSAGE = /ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network error|connection error/i;
+
+export interface ProviderErrorDetails {
+  status?: number; // HTTP status of the failed response
+  retryAfterMs?: number; // How long the provider asked to wait
+}
+
+export function getRetrySettings() {
+  const maxRetries = parseInt(process.env.LLM_MAX_RETRIES || '2');
+  const baseDelayMs = parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '1000');
+  const maxDelayMs = parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '30000');
+  return {
+    maxRetries: maxRetries >= 0 ? maxRetries : 2,
+    baseDelayMs: baseDelayMs > 0 ? baseDelayMs : 1000,
+    maxDelayMs: maxDelayMs > 0 ? maxDelayMs : 30000
+  };
+}
+
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name);
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Wait time from retry-after-ms, or retry-after in seconds or as an HTTP date
+ */
+function parseRetryAfter(headers: unknown): number | undefined {
+  const milliseconds = parseFloat(readHeader(headers, 'retry-after-ms') || '');
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = parseFloat(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * HTTP status and Retry-After of a provider error. SDK errors carry them directly
+ * (status/headers, or httpResponse for Hugging Face); errors wrapped by a provider
+ * module are read through their cause, and fetch-based providers through the message.
+ */
+export function getProviderErrorDetails(error: unknown): ProviderErrorDetails {
+  for (let current = error, depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    const candidate = current as {
+      status?: unknown;
+      headers?: unknown;
+      httpResponse?: { status?: unknown };
+      message?: unknown;
+      cause?: unknown;
+    };
+
+    const status = typeof candidate.status === 'number'
+      ? candidate.status
+      : typeof candidate.httpResponse?.status === 'number'
+        ? candidate.httpResponse.status
+        : undefined;
+    if (status !== undefined) {
+      return { status, retryAfterMs: parseRetryAfter(candidate.headers) };
+    }
+
+    const statusInMessage = typeof candidate.message === 'string' ? candidate.message.match(/API error: (\d{3})\b/) : null;
+    if (statusInMessage) {
+      return { status: parseInt(statusInMessage[1]) };
+    }
+
+    current = candidate.cause;
+  }
+  return {};
+}
+
+function isRetryable(error: unknown, details: ProviderErrorDetails): boolean {
+  if (details.status !== undefined) {
+    return RETRYABLE_STATUSES.has(details.status);
+  }
+  for (let current = error, depth = 0; current instanceof Error && depth < 5; depth++) {
+    if (current.name === 'APIConnectionError' || RETRYABLE_MESSAGE.test(current.message)) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * How long to wait before retry number `retry` (0 for the first retry), or null if the
+ * error should not be retried
+ */
+export function getRetryDelay(error: unknown, retry: number): number | null {
+  const { maxRetries, baseDelayMs, maxDelayMs } = getRetrySettings();
+  const details = getProviderErrorDetails(error);
+  if (retry >= maxRetries || !isRetryable(error, details)) {
+    return null;
+  }
+
+  if (details.retryAfterMs !== undefined) {
+    return details.retryAfterMs <= maxDelayMs ? details.retryAfterMs : null;
+  }
+
+  // Half the backoff is fixed and half random, so parallel requests don't retry in lockstep
+  const backoff = Math.min(baseDelayMs * 2 ** retry, maxDelayMs);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Wait before a retry, stopping early if the signal aborts
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request was aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request was aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,6 +1,6 @@
 import { logServerMessage, logServerError } from '@/lib/sentry';
 import { ImageTracer } from '@/lib/image-tracing';
-import { ImageProvider } from './image-generation-common';
+import { ImageProvider, waitFor } from './image-generation-common';
 
 /**
  * Stable Horde Image Generation Provider
@@ -24,7 +24,7 @@ export class StableHordeProvider implements ImageProvider {
     return true;  // allow even without key; internal calls will warn if missing
   }
 
-  async generateImage(prompt: string, tracer?: ImageTracer): Promise<string> {
+  async generateImage(prompt: string, tracer?: ImageTracer, signal?: AbortSignal): Promise<string> {
     try {
       if (!this.apiKey) {
         logServerMessage('Warning: No STABLEHORDE_API_KEY provided — using anonymous mode (lower priority)', 'warning', { provider: this.name });
@@ -38,7 +38,7 @@ export class StableHordeProvider implements ImageProvider {
       if (since < this.minRequestInterval) {
         const wait = this.minRequestInterval - since;
         logServerMessage('Rate limiting: waiting before submitting', 'info', { wait });
-        await new Promise(r => setTimeout(r, wait));
+        await waitFor(wait, signal);
       }
       this.lastRequestTime = Date.now();
 
@@ -72,7 +72,8 @@ export class StableHordeProvider implements ImageProvider {
           'Content-Type': 'application/json',
           'Client-Agent': 'my-app/1.0'  // customize your client-agent
         },
-        body: JSON.stringify(requestData)
+        body: JSON.stringify(requestData),
+        signal
       });
 
       if (!submitResp.ok) {
@@ -102,12 +103,13 @@ export class StableHordeProvider implements ImageProvider {
 
       // Polling for completion
       for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
-        await new Promise(r => setTimeout(r, this.checkIntervalMs));
+        await waitFor(this.checkIntervalMs, signal);
         const checkResp = await fetch(`https://aihorde.net/api/v2/generate/check/${generationId}`, {
           headers: {
             'apikey': this.apiKey ?? '',
             'Client-Agent': 'my-app/1.0'
-          }
+          },
+          signal
         });
         if (!checkResp.ok) {
           throw new Error(`Stable Horde: Check status failed HTTP ${checkResp.status}`);
@@ -119,7 +121,8 @@ export class StableHordeProvider implements ImageProvider {
             headers: {
               'apikey': this.apiKey ?? '',
               'Client-Agent': 'my-app/1.0'
-            }
+            },
+            signal
           });
           if (!statusResp.ok) {
             throw new Error(`Stable Horde: Status fetch failed HTTP ${statusResp.status}`);
@@ -132,7 +135,7 @@ export class StableHordeProvider implements ImageProvider {
             if (gen.img) {
               base64Data = gen.img;
             } else if (gen.url) {
-              const imgResp = await fetch(gen.url);
+              const imgResp = await fetch(gen.url, { signal });
               if (!imgResp.ok) {
                 throw new Error(`Stable Horde: Download image failed HTTP ${imgResp.status}`);
               }
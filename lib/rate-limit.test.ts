@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { checkRateLimit, getClientIp, MemoryRateLimitStore } from './rate-limit';
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn(), createServiceClient: vi.fn() }));
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/lessons', { method: 'POST', headers });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('counts hits within the window', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('key', 1000, 1);
+    expect(await store.hit('key', 1000, 2)).toEqual({ count: 3, resetAt: 1000 });
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('key', 1000, 1);
+    vi.setSystemTime(1000);
+    expect(await store.hit('key', 1000, 1)).toEqual({ count: 1, resetAt: 2000 });
+  });
+
+  it('counts keys separately', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('a', 1000, 1);
+    expect((await store.hit('b', 1000, 1)).count).toBe(1);
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the entry added by the nearest proxy', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }))).toBe('1.2.3.4');
+  });
+
+  it('counts trusted proxies from the right', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXY_HOPS', '2');
+
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1' }))).toBe('1.2.3.4');
+  });
+
+  it('uses the leftmost entry when there are fewer entries than proxies', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXY_HOPS', '3');
+
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4' }))).toBe('1.2.3.4');
+  });
+
+  it('falls back to X-Real-IP', () => {
+    expect(getClientIp(request({ 'x-real-ip': '1.2.3.4' }))).toBe('1.2.3.4');
+    expect(getClientIp(request())).toBe('unknown');
+  });
+
+  it('ignores the headers without trusted proxies', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXY_HOPS', '0');
+
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '1.2.3.4' }))).toBe('unknown');
+  });
+});
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    delete (globalThis as { __rateLimitStore?: unknown }).__rateLimitStore;
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    vi.stubEnv('LESSON_RATE_LIMIT_PER_IP', '2');
+  });
+
+  it('limits anonymous clients by IP address', async () => {
+    const client = { 'x-forwarded-for': '1.2.3.4' };
+
+    expect((await checkRateLimit(request(client), 'lesson_create'))?.limited).toBe(false);
+    expect(await checkRateLimit(request(client), 'lesson_create')).toMatchObject({ limited: false, remaining: 0 });
+    expect(await checkRateLimit(request(client), 'lesson_create')).toMatchObject({ limited: true, scope: 'ip', limit: 2 });
+    expect((await checkRateLimit(request({ 'x-forwarded-for': '5.6.7.8' }), 'lesson_create'))?.limited).toBe(false);
+  });
+
+  it('counts a request with a cost several times', async () => {
+    expect((await checkRateLimit(request(), 'lesson_create', 3))?.limited).toBe(true);
+  });
+
+  it('keeps separate counters per action', async () => {
+    await checkRateLimit(request(), 'lesson_create', 2);
+
+    expect((await checkRateLimit(request(), 'lesson_regenerate'))?.limited).toBe(false);
+  });
+
+  it('is disabled by a limit of 0', async () => {
+    vi.stubEnv('LESSON_RATE_LIMIT_PER_IP', '0');
+
+    expect(await checkRateLimit(request(), 'lesson_create', 100)).toBeNull();
+  });
+});
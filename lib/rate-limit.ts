@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+
+export interface RateLimitHit {
+  count: number; // Cost consumed in the current window, including this request
+  resetAt: number; // Epoch ms when the window ends
+}
+
+/**
+ * Fixed-window counters keyed by client. `cost` is added to the window and the
+ * new total returned; a new window starts once the previous one has ended.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, cost: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitResult {
+  limited: boolean;
+  action: RateLimitedAction;
+  scope: 'ip' | 'user';
+  limit: number;
+  remaining: number;
+  windowSeconds: number;
+  retryAfterSeconds: number;
+}
+
+export type RateLimitedAction = 'lesson_create' | 'lesson_regenerate';
+
+/**
+ * Counters held in this process. Cheap, but every server instance counts separately
+ * and a restart resets them.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number, cost: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.prune(now);
+
+    const current = this.windows.get(key);
+    const window = current && current.resetAt > now
+      ? { count: current.count + cost, resetAt: current.resetAt }
+      : { count: cost, resetAt: now + windowMs };
+    this.windows.set(key, window);
+
+    return window;
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Counters in the rate_limits table, shared by every server instance.
+ * The increment is a single statement (see migrations/add-rate-limits.sql).
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowMs: number, cost: number): Promise<RateLimitHit> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .rpc('increment_rate_limit', {
+        p_key: key,
+        p_window_seconds: Math.ceil(windowMs / 1000),
+        p_cost: cost
+      })
+      .single<{ count: number; reset_at: string }>();
+
+    if (error || !data) {
+      throw new Error(`Failed to update rate limit: ${error?.message || 'Unknown error'}`);
+    }
+
+    return { count: data.count, resetAt: new Date(data.reset_at).getTime() };
+  }
+}
+
+const RATE_LIMITED_ACTIONS: Record<RateLimitedAction, {
+  envPrefix: string;
+  unit: string; // What the limit counts, for messages
+  defaults: { ip: number; user: number; windowSeconds: number };
+}> = {
+  lesson_create: { envPrefix: 'LESSON_RATE_LIMIT', unit: 'lessons', defaults: { ip: 10, user: 30, windowSeconds: 60 * 60 } },
+  // Full lesson and single section regenerations
+  lesson_regenerate: { envPrefix: 'REGENERATE_RATE_LIMIT', unit: 'regenerations', defaults: { ip: 20, user: 60, windowSeconds: 60 * 60 } }
+};
+
+// Kept on globalThis so dev-mode module reloads don't reset the counters
+const globalForRateLimit = globalThis as typeof globalThis & { __rateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  return globalForRateLimit.__rateLimitStore ??= process.env.RATE_LIMIT_STORE === 'postgres'
+    ? new PostgresRateLimitStore()
+    : new MemoryRateLimitStore();
+}
+
+function readLimit(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || String(fallback));
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+}
+
+/**
+ * Limits for an action from the environment, e.g. LESSON_RATE_LIMIT_PER_IP,
+ * LESSON_RATE_LIMIT_PER_USER and LESSON_RATE_LIMIT_WINDOW_SECONDS. A limit of 0 disables it.
+ */
+export function getRateLimits(action: RateLimitedAction) {
+  const { envPrefix, defaults } = RATE_LIMITED_ACTIONS[action];
+  return {
+    ip: readLimit(`${envPrefix}_PER_IP`, defaults.ip),
+    user: readLimit(`${envPrefix}_PER_USER`, defaults.user),
+    windowSeconds: readLimit(`${envPrefix}_WINDOW_SECONDS`, defaults.windowSeconds) || defaults.windowSeconds
+  };
+}
+
+/**
+ * Address of the client as seen by the nearest of RATE_LIMIT_TRUSTED_PROXY_HOPS (default 1)
+ * proxies in front of the app. Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only entries counted from the right can be trusted; the ones further
+ * left are whatever the client sent. With 0 hops the headers are ignored and every anonymous
+ * client shares one limit.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = readLimit('RATE_LIMIT_TRUSTED_PROXY_HOPS', 1);
+  if (hops === 0) {
+    return 'unknown';
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - hops, 0)];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Id of the signed-in Supabase user, if the request carries a session
+ */
+async function getUserId(request: NextRequest): Promise<string | null> {
+  const hasAuthCookie = request.cookies.getAll().some(cookie => cookie.name.startsWith('sb-'));
+  if (!hasAuthCookie) {
+    return null;
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Count a request against the limit of its user when signed in, otherwise of its IP address,
+ * so signed-in users on a shared network don't lock each other out.
+ * Fails open when the store is unavailable - a database hiccup should not block lesson creation.
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  action: RateLimitedAction,
+  cost: number = 1
+): Promise<RateLimitResult | null> {
+  const limits = getRateLimits(action);
+  const userId = await getUserId(request);
+  const scope = userId ? 'user' : 'ip';
+  const limit = userId ? limits.user : limits.ip;
+
+  if (limit === 0) {
+    return null;
+  }
+
+  try {
+    const key = `${action}:${scope}:${userId || getClientIp(request)}`;
+    const { count, resetAt } = await getRateLimitStore().hit(key, limits.windowSeconds * 1000, cost);
+
+    return {
+      limited: count > limit,
+      action,
+      scope,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      windowSeconds: limits.windowSeconds,
+      retryAfterSeconds: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1)
+    };
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return null;
+  }
+}
+
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.retryAfterSeconds)
+  };
+}
+
+/**
+ * 429 response for a limited request. The body tells the client what the limit is
+ * and when it can try again.
+ */
+export function rateLimitResponse(result: RateLimitResult): NextResponse {
+  const minutes = Math.ceil(result.windowSeconds / 60);
+  const window = minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} hour(s)` : `${minutes} minute(s)`;
+
+  return NextResponse.json({
+    error: `Rate limit exceeded: at most ${result.limit} ${RATE_LIMITED_ACTIONS[result.action].unit} per ${window} per ${result.scope === 'user' ? 'user' : 'IP address'}`,
+    limit: result.limit,
+    windowSeconds: result.windowSeconds,
+    retryAfter: result.retryAfterSeconds,
+    scope: result.scope
+  }, {
+    status: 429,
+    headers: {
+      'Retry-After': String(result.retryAfterSeconds),
+      ...getRateLimitHeaders(result)
+    }
+  });
+}
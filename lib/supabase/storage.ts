@@ -171,11 +171,15 @@ export async function deleteImageFromStorage(path: string): Promise<boolean> {
  * Upload multiple images in parallel
  * @param images Array of base64 image data with metadata
  * @param lessonId The lesson ID these images belong to
- * @returns Array of public URLs (null for failed uploads)
+ * @param onImageUploaded Optional callback invoked as each upload finishes
+ * @param signal Optional AbortSignal; uploads that have not started yet are skipped once it aborts
+ * @returns Array of public URLs (null for failed or skipped uploads)
  */
 export async function uploadImagesInParallel(
   images: { base64Data: string; index: number }[],
-  lessonId: string
+  lessonId: string,
+  onImageUploaded?: (index: number, url: string | null) => void,
+  signal?: AbortSignal
 ): Promise<(string | null)[]> {
   try {
     logServerMessage('Uploading multiple images in parallel', 'info', { 
@@ -183,9 +187,14 @@ export async function uploadImagesInParallel(
       count: images.length 
     });
     
-    const uploadPromises = images.map(({ base64Data, index }) =>
-      uploadImageToStorage(base64Data, lessonId, index)
-    );
+    const uploadPromises = images.map(async ({ base64Data, index }) => {
+      if (signal?.aborted) {
+        return null;
+      }
+      const url = await uploadImageToStorage(base64Data, lessonId, index);
+      onImageUploaded?.(index, url);
+      return url;
+    });
     
     const results = await Promise.all(uploadPromises);
     
@@ -244,3 +253,55 @@ export async function deleteAllLessonImages(lessonId: string): Promise<boolean>
   }
 }
 
+
+/**
+ * Copy all images of a lesson into the folder of another lesson, keeping file names
+ * @param sourceLessonId The lesson to copy from
+ * @param targetLessonId The lesson to copy to
+ * @returns True if every image was copied (or there were none), false otherwise
+ */
+export async function copyLessonImages(sourceLessonId: string, targetLessonId: string): Promise<boolean> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data: files, error: listError } = await supabase.storage
+      .from(BUCKET_NAME)
+      .list(sourceLessonId);
+
+    if (listError) {
+      logServerError(listError as Error, { operation: 'list_lesson_images', lessonId: sourceLessonId });
+      return false;
+    }
+
+    for (const file of files || []) {
+      const { error: copyError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .copy(`${sourceLessonId}/${file.name}`, `${targetLessonId}/${file.name}`);
+
+      if (copyError) {
+        logServerError(copyError as Error, { operation: 'copy_lesson_image', sourceLessonId, targetLessonId, file: file.name });
+        return false;
+      }
+    }
+
+    logServerMessage('Lesson images copied', 'info', { sourceLessonId, targetLessonId, count: files?.length || 0 });
+    return true;
+  } catch (error) {
+    logServerError(error as Error, { operation: 'copy_lesson_images', sourceLessonId, targetLessonId });
+    return false;
+  }
+}
+
+/**
+ * Point image URLs of one lesson at the copies made by copyLessonImages
+ * @param value Any JSON-serializable value containing image URLs (content, structure, image list)
+ * @returns The value with the lesson folder in every image URL replaced
+ */
+export function rewriteLessonImageUrls<T>(value: T, sourceLessonId: string, targetLessonId: string): T {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const serialized = JSON.stringify(value).split(`${BUCKET_NAME}/${sourceLessonId}/`).join(`${BUCKET_NAME}/${targetLessonId}/`);
+  return JSON.parse(serialized);
+}
@@ -1,25 +1,26 @@
 import { createServiceClient } from '@/lib/supabase/server';
-import { LLMProvider } from '@/lib/llm';
+import { LLMProvider, type EnsembleResult, type TokenUsage } from '@/lib/llm';
 
 export interface LLMCall {
   provider: LLMProvider;
+  attempt?: number; // 1 for the first try of a provider, higher for retries
   request: {
     prompt: string;
     model?: string;
     temperature?: number;
     max_tokens?: number;
+    timeout_ms?: number;
+    response_format?: 'json'; // Set for calls asking for a structured lesson
   };
   response?: {
     content: string;
-    usage?: {
-      prompt_tokens: number;
-      completion_tokens: number;
-      total_tokens: number;
-    };
+    usage?: TokenUsage;
   };
+  cost_usd?: number | null; // Null when the model has no known price
   duration_ms: number;
   success: boolean;
   error?: string;
+  validation_errors?: string[]; // Why a structured lesson response was rejected; the call itself succeeded
   timestamp: string;
 }
 
@@ -31,18 +32,46 @@ export interface LessonTrace {
   provider_used?: string;
   fallback_providers?: string[];
   total_duration_ms?: number;
+  total_tokens?: number;
+  total_cost_usd?: number;
   llm_calls: LLMCall[];
+  ensemble?: EnsembleResult | null; // Candidates and judge scores when several providers wrote the lesson
   error_message?: string;
-  status: 'started' | 'completed' | 'failed';
+  status: 'started' | 'completed' | 'failed' | 'cancelled';
   created_at: string;
   completed_at?: string;
 }
 
+export interface CostTotal {
+  calls: number;
+  tokens: number;
+  cost_usd: number;
+}
+
+export interface TraceCostSummary {
+  since: string;
+  total: CostTotal;
+  byLesson: (CostTotal & { lesson_id: string; lesson_title: string | null })[];
+  byProvider: (CostTotal & { provider: string })[];
+  byDay: (CostTotal & { day: string })[]; // YYYY-MM-DD in UTC
+}
+
+// A row of get_trace_cost_summary; Postgres BIGINT and NUMERIC values may arrive as strings
+interface CostSummaryRow {
+  dimension: 'lesson' | 'day' | 'provider';
+  key: string;
+  label: string | null; // Lesson title
+  calls: number | string;
+  tokens: number | string;
+  cost_usd: number | string;
+}
+
 export class LessonTracer {
   private traceId: string;
   private lessonId: string;
   private startTime: number;
   private llmCalls: LLMCall[] = [];
+  private ensemble: EnsembleResult | null = null;
 
   constructor(lessonId: string) {
     this.lessonId = lessonId;
@@ -78,15 +107,22 @@ export class LessonTracer {
     });
   }
 
+  setEnsemble(ensemble: EnsembleResult) {
+    this.ensemble = ensemble;
+  }
+
   async updateTrace(updates: Partial<Pick<LessonTrace, 'provider_used' | 'fallback_providers' | 'error_message' | 'status' | 'response_data'>>) {
     const supabase = createServiceClient();
     
     const updateData: any = {
       ...updates,
-      llm_calls: this.llmCalls
+      llm_calls: this.llmCalls,
+      ...(this.ensemble ? { ensemble: this.ensemble } : {}),
+      total_tokens: this.llmCalls.reduce((sum, call) => sum + (call.response?.usage?.total_tokens || 0), 0),
+      total_cost_usd: this.llmCalls.reduce((sum, call) => sum + (call.cost_usd || 0), 0)
     };
 
-    if (updates.status === 'completed' || updates.status === 'failed') {
+    if (updates.status === 'completed' || updates.status === 'failed' || updates.status === 'cancelled') {
       updateData.completed_at = new Date().toISOString();
       updateData.total_duration_ms = Date.now() - this.startTime;
     }
@@ -117,6 +153,13 @@ export class LessonTracer {
     });
   }
 
+  async cancelTrace(reason: string = 'Cancelled by user') {
+    await this.updateTrace({
+      status: 'cancelled',
+      error_message: reason
+    });
+  }
+
   static async getTraces(limit: number = 50, offset: number = 0): Promise<LessonTrace[]> {
     const supabase = createServiceClient();
     
@@ -134,6 +177,55 @@ export class LessonTracer {
     return data || [];
   }
 
+  /**
+   * Token and cost totals of the LLM calls of traces created in the last `days` days,
+   * per lesson, per provider and per day, summed in the database (see
+   * migrations/add-trace-costs.sql). Most expensive first, days in date order.
+   */
+  static async getCostSummary(days: number = 30): Promise<TraceCostSummary | null> {
+    const supabase = createServiceClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .rpc('get_trace_cost_summary', { p_since: since });
+
+    if (error) {
+      console.error('Failed to fetch lesson trace costs:', error);
+      return null;
+    }
+
+    const rows = ((data || []) as CostSummaryRow[]).map(row => ({
+      ...row,
+      calls: Number(row.calls),
+      tokens: Number(row.tokens),
+      cost_usd: Number(row.cost_usd)
+    }));
+    const totalsOf = (row: CostTotal): CostTotal => ({ calls: row.calls, tokens: row.tokens, cost_usd: row.cost_usd });
+    const byCost = (a: CostTotal, b: CostTotal) => b.cost_usd - a.cost_usd || b.tokens - a.tokens;
+    const byDay = rows.filter(row => row.dimension === 'day');
+
+    return {
+      since,
+      // Every call falls on exactly one day
+      total: byDay.reduce((total, row) => ({
+        calls: total.calls + row.calls,
+        tokens: total.tokens + row.tokens,
+        cost_usd: total.cost_usd + row.cost_usd
+      }), { calls: 0, tokens: 0, cost_usd: 0 }),
+      byLesson: rows
+        .filter(row => row.dimension === 'lesson')
+        .map(row => ({ lesson_id: row.key, lesson_title: row.label, ...totalsOf(row) }))
+        .sort(byCost),
+      byProvider: rows
+        .filter(row => row.dimension === 'provider')
+        .map(row => ({ provider: row.key, ...totalsOf(row) }))
+        .sort(byCost),
+      byDay: byDay
+        .map(row => ({ day: row.key, ...totalsOf(row) }))
+        .sort((a, b) => a.day.localeCompare(b.day))
+    };
+  }
+
   static async getTraceById(traceId: string): Promise<LessonTrace | null> {
     const supabase = createServiceClient();
     
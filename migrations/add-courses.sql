@@ -0,0 +1,40 @@
+-- Migration: Add Courses
+-- Description: Groups lessons into courses with an explicit lesson order
+
+-- Create courses table
+CREATE TABLE IF NOT EXISTS courses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_courses_created_at ON courses(created_at DESC);
+
+-- Create course_lessons join table; a lesson can belong to more than one course
+CREATE TABLE IF NOT EXISTS course_lessons (
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (course_id, lesson_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_lessons_position ON course_lessons(course_id, position);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_lesson_id ON course_lessons(lesson_id);
+
+-- Enable RLS for courses and course_lessons
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_lessons ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for courses and course_lessons
+CREATE POLICY "Allow all operations on courses" ON courses
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on course_lessons" ON course_lessons
+  FOR ALL USING (true);
+
+-- Add comment explaining the columns
+COMMENT ON COLUMN course_lessons.position IS
+'Order of the lesson within the course, starting at 1';
@@ -0,0 +1,47 @@
+-- Migration: Add Lesson Batches
+-- Description: Generates a whole unit at once. The unit outline is split into
+-- lesson outlines that share the same settings and run with a concurrency limit
+
+-- Create lesson_batches table for units generated as a group
+CREATE TABLE IF NOT EXISTS lesson_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  unit_outline TEXT NOT NULL,
+  generation_options JSONB NOT NULL,
+  concurrency INTEGER NOT NULL DEFAULT 2 CHECK (concurrency > 0),
+  lesson_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_batches_created_at ON lesson_batches(created_at DESC);
+
+-- Enable RLS for lesson_batches
+ALTER TABLE lesson_batches ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_batches
+CREATE POLICY "Allow all operations on lesson_batches" ON lesson_batches
+  FOR ALL USING (true);
+
+-- Link lessons to their batch
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES lesson_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS batch_position INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_lessons_batch_id ON lessons(batch_id, batch_position);
+
+-- A lesson has at most one active job, so two workers releasing the next
+-- lesson of a batch at the same time cannot queue it twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_jobs_active_lesson ON lesson_jobs(lesson_id)
+  WHERE status IN ('queued', 'running');
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lesson_batches.generation_options IS
+'Settings shared by every lesson of the batch: { gradeLevel, sections, learningStyle, includeExamples, includeExercises, language?, provider?, imageProvider?, ensemble? }. Provider choices are passed to the lesson jobs, not stored with the lessons';
+
+COMMENT ON COLUMN lesson_batches.concurrency IS
+'Maximum number of lessons of the batch with a queued or running job at the same time';
+
+COMMENT ON COLUMN lessons.batch_position IS
+'Order of the lesson within its batch, starting at 1';
@@ -0,0 +1,22 @@
+-- Migration: Add Lesson Cancellation
+-- Description: Allows an in-flight lesson generation to be cancelled and records
+-- the cancellation on the lesson, its jobs and its traces
+
+-- Lessons can be cancelled while generating
+ALTER TABLE lessons DROP CONSTRAINT IF EXISTS lessons_status_check;
+ALTER TABLE lessons ADD CONSTRAINT lessons_status_check
+  CHECK (status IN ('generating', 'generated', 'error', 'cancelled'));
+
+-- Jobs of a cancelled lesson are not retried
+ALTER TABLE lesson_jobs DROP CONSTRAINT IF EXISTS lesson_jobs_status_check;
+ALTER TABLE lesson_jobs ADD CONSTRAINT lesson_jobs_status_check
+  CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'));
+
+-- Traces record that the run was stopped rather than failed
+ALTER TABLE lesson_traces DROP CONSTRAINT IF EXISTS lesson_traces_status_check;
+ALTER TABLE lesson_traces ADD CONSTRAINT lesson_traces_status_check
+  CHECK (status IN ('started', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE image_traces DROP CONSTRAINT IF EXISTS image_traces_status_check;
+ALTER TABLE image_traces ADD CONSTRAINT image_traces_status_check
+  CHECK (status IN ('started', 'completed', 'failed', 'cancelled'));
@@ -0,0 +1,25 @@
+-- Migration: Add Lesson Dedupe
+-- Description: Stores a hash of each lesson's normalized outline and generation options so
+-- a repeated request can reuse an existing lesson, and records which lesson a copy came from.
+-- Lessons created before this migration have no hash and are never offered as duplicates.
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS generation_hash TEXT;
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS cloned_from UUID REFERENCES lessons(id) ON DELETE SET NULL;
+
+-- Duplicate lookups only consider generated lessons
+CREATE INDEX IF NOT EXISTS idx_lessons_generation_hash ON lessons(generation_hash) WHERE status = 'generated';
+
+-- Clones start their version history with a 'clone' version
+ALTER TABLE lesson_versions DROP CONSTRAINT IF EXISTS lesson_versions_source_check;
+ALTER TABLE lesson_versions
+ADD CONSTRAINT lesson_versions_source_check CHECK (source IN ('llm', 'edit', 'regenerate', 'restore', 'clone'));
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lessons.generation_hash IS
+'SHA-256 of the normalized outline and generation options (without the preferred provider)';
+
+COMMENT ON COLUMN lessons.cloned_from IS
+'Lesson whose content and images this lesson was copied from instead of being generated';
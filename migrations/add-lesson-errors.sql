@@ -0,0 +1,15 @@
+-- Migration: Add Lesson Failure Reasons
+-- Description: Stores why a lesson ended in "error" so it can be shown and retried
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS error_code TEXT;
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lessons.error_code IS
+'Failure reason of an errored lesson: no_providers, all_providers_failed, providers_unhealthy, parse_failed, database_failed, max_attempts_exceeded, unknown';
+
+COMMENT ON COLUMN lessons.error_message IS
+'Message of the error that failed the lesson; cleared when the lesson is regenerated';
@@ -0,0 +1,35 @@
+-- Migration: Add Lesson Generation Metadata
+-- Description: Records which provider and model wrote each lesson and indexes the
+-- stored generation options used to filter the lessons list
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS generation_options JSONB;
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS provider_used TEXT;
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS model_used TEXT;
+
+-- Filters on the lessons list
+CREATE INDEX IF NOT EXISTS idx_lessons_grade_level ON lessons ((generation_options->>'gradeLevel'));
+CREATE INDEX IF NOT EXISTS idx_lessons_learning_style ON lessons ((generation_options->>'learningStyle'));
+
+-- Lessons generated before this migration: take the provider from their latest completed trace
+UPDATE lessons
+SET provider_used = traces.provider_used
+FROM (
+  SELECT DISTINCT ON (lesson_id) lesson_id, provider_used
+  FROM lesson_traces
+  WHERE status = 'completed' AND provider_used IS NOT NULL
+  ORDER BY lesson_id, completed_at DESC
+) AS traces
+WHERE lessons.id = traces.lesson_id
+  AND lessons.provider_used IS NULL;
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lessons.provider_used IS
+'LLM provider that wrote the current content (after any fallback)';
+
+COMMENT ON COLUMN lessons.model_used IS
+'Model the provider called for the current content';
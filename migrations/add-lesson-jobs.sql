@@ -0,0 +1,42 @@
+-- Migration: Add Lesson Generation Job Queue
+-- Description: Persists lesson generation work so it survives timeouts and restarts
+
+-- Create lesson_jobs table for the generation worker
+CREATE TABLE IF NOT EXISTS lesson_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID REFERENCES lessons(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for lesson_jobs
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_lesson_id ON lesson_jobs(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_status_run_at ON lesson_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_locked_at ON lesson_jobs(locked_at);
+
+-- Enable RLS for lesson_jobs
+ALTER TABLE lesson_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_jobs
+CREATE POLICY "Allow all operations on lesson_jobs" ON lesson_jobs
+  FOR ALL USING (true);
+
+-- Add comment explaining the columns
+COMMENT ON COLUMN lesson_jobs.payload IS
+'LessonGenerationOptions the job was enqueued with';
+
+COMMENT ON COLUMN lesson_jobs.stage IS
+'Current pipeline stage: llm, images, typescript, saving';
+
+COMMENT ON COLUMN lesson_jobs.locked_at IS
+'Heartbeat of the worker holding the job; stale locks are re-queued on startup';
@@ -0,0 +1,18 @@
+-- Migration: Add Lesson Regeneration Support
+-- Description: Stores the options each lesson was generated with and keeps the
+-- previous content when a lesson is regenerated
+
+-- Options the lesson was (last) generated with
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS generation_options JSONB;
+
+-- Snapshot of the content replaced by the last regeneration
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS previous_version JSONB;
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lessons.generation_options IS
+'LessonGenerationOptions used for the last generation: { outline, gradeLevel, sections, learningStyle, includeExamples, includeExercises, provider? }';
+
+COMMENT ON COLUMN lessons.previous_version IS
+'Content replaced by the last regeneration: { title, content, lesson_structure, typescript_code, javascript_code, generated_images, replaced_at }';
@@ -0,0 +1,24 @@
+-- Migration: Add Lesson Translations
+-- Description: Links translated lessons to the lesson they were translated from, so the
+-- lesson page can switch between translations. Translations always point at the original
+-- lesson, never at another translation.
+
+ALTER TABLE lessons
+ADD COLUMN IF NOT EXISTS translation_of UUID REFERENCES lessons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lessons_translation_of ON lessons(translation_of);
+
+-- One translation per language of each original lesson. Regeneration drops the default
+-- language from the stored options, so a missing language counts as English.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lessons_translation_language
+ON lessons(translation_of, COALESCE(generation_options->>'language', 'en'))
+WHERE translation_of IS NOT NULL;
+
+-- Translations start their version history with a 'translate' version
+ALTER TABLE lesson_versions DROP CONSTRAINT IF EXISTS lesson_versions_source_check;
+ALTER TABLE lesson_versions
+ADD CONSTRAINT lesson_versions_source_check CHECK (source IN ('llm', 'edit', 'regenerate', 'restore', 'clone', 'translate'));
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lessons.translation_of IS
+'Original lesson this lesson was translated from; its language is in generation_options.language';
@@ -0,0 +1,59 @@
+-- Migration: Add Lesson Version History
+-- Description: Stores a snapshot of the lesson on every write so edits and
+-- regenerations can be compared and rolled back
+
+-- Create lesson_versions table
+CREATE TABLE IF NOT EXISTS lesson_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('llm', 'edit', 'regenerate', 'restore')),
+  author TEXT,
+  title TEXT,
+  content TEXT,
+  lesson_structure JSONB,
+  typescript_code TEXT,
+  javascript_code TEXT,
+  generated_images JSONB DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (lesson_id, version_number)
+);
+
+-- Create indexes for lesson_versions
+CREATE INDEX IF NOT EXISTS idx_lesson_versions_lesson_id ON lesson_versions(lesson_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_lesson_versions_created_at ON lesson_versions(created_at DESC);
+
+-- Enable RLS for lesson_versions
+ALTER TABLE lesson_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_versions
+CREATE POLICY "Allow all operations on lesson_versions" ON lesson_versions
+  FOR ALL USING (true);
+
+-- Backfill: content replaced by a regeneration before this migration becomes version 1
+INSERT INTO lesson_versions (lesson_id, version_number, source, author, title, content, lesson_structure, typescript_code, javascript_code, generated_images, created_at)
+SELECT id, 1, 'llm', 'system',
+       previous_version->>'title',
+       previous_version->>'content',
+       previous_version->'lesson_structure',
+       previous_version->>'typescript_code',
+       previous_version->>'javascript_code',
+       COALESCE(previous_version->'generated_images', '[]'::jsonb),
+       COALESCE((previous_version->>'replaced_at')::timestamptz, created_at)
+FROM lessons
+WHERE previous_version IS NOT NULL
+ON CONFLICT (lesson_id, version_number) DO NOTHING;
+
+-- Backfill: the current content of every generated lesson becomes the latest version
+INSERT INTO lesson_versions (lesson_id, version_number, source, author, title, content, lesson_structure, typescript_code, javascript_code, generated_images, created_at)
+SELECT l.id,
+       COALESCE((SELECT MAX(v.version_number) FROM lesson_versions v WHERE v.lesson_id = l.id), 0) + 1,
+       'llm', 'system', l.title, l.content, l.lesson_structure, l.typescript_code, l.javascript_code,
+       COALESCE(l.generated_images, '[]'::jsonb), COALESCE(l.updated_at, l.created_at)
+FROM lessons l
+WHERE l.status = 'generated'
+ON CONFLICT (lesson_id, version_number) DO NOTHING;
+
+-- previous_version is superseded by lesson_versions and no longer written
+COMMENT ON COLUMN lessons.previous_version IS
+'Deprecated: superseded by lesson_versions';
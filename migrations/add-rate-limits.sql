@@ -0,0 +1,52 @@
+-- Migration: Add Rate Limits
+-- Description: Fixed-window request counters shared by all server instances.
+-- Used when RATE_LIMIT_STORE=postgres; the default in-memory store needs no table.
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  window_seconds INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Expired windows are cleaned up by the increment below
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_start ON rate_limits(window_start);
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on rate_limits" ON rate_limits
+  FOR ALL USING (true);
+
+-- Add p_cost to the key's current window, starting a new window if it has ended.
+-- A single upsert, so concurrent requests cannot both see the old count.
+CREATE OR REPLACE FUNCTION increment_rate_limit(p_key TEXT, p_window_seconds INTEGER, p_cost INTEGER DEFAULT 1)
+RETURNS TABLE (count INTEGER, reset_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM rate_limits
+  WHERE rate_limits.window_start + make_interval(secs => rate_limits.window_seconds) < NOW() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO rate_limits AS limits (key, window_start, window_seconds, count)
+  VALUES (p_key, NOW(), p_window_seconds, p_cost)
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE
+      WHEN limits.window_start + make_interval(secs => limits.window_seconds) <= NOW() THEN p_cost
+      ELSE limits.count + p_cost
+    END,
+    window_start = CASE
+      WHEN limits.window_start + make_interval(secs => limits.window_seconds) <= NOW() THEN NOW()
+      ELSE limits.window_start
+    END,
+    window_seconds = p_window_seconds
+  RETURNING limits.count, limits.window_start + make_interval(secs => limits.window_seconds);
+END;
+$$;
+
+-- Add comments explaining the table
+COMMENT ON TABLE rate_limits IS
+'Request counters per action and client (IP address or user id), e.g. lesson_create:ip:203.0.113.7';
+
+COMMENT ON COLUMN rate_limits.count IS
+'Cost consumed in the window that started at window_start';
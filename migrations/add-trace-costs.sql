@@ -0,0 +1,50 @@
+-- Migration: Add Trace Costs
+-- Description: Stores the token and cost totals of each lesson trace. Per-call usage
+-- and cost stay in llm_calls; the totals make per-lesson and per-day summaries cheap, and
+-- get_trace_cost_summary aggregates them in the database.
+
+ALTER TABLE lesson_traces
+ADD COLUMN IF NOT EXISTS total_tokens INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE lesson_traces
+ADD COLUMN IF NOT EXISTS total_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+-- Cost summaries are grouped by day
+CREATE INDEX IF NOT EXISTS idx_lesson_traces_created_at_cost ON lesson_traces(created_at, total_cost_usd);
+
+-- Token, cost and call totals of the traces created since p_since, per lesson and per UTC day
+-- from the trace totals, and per provider from the calls. Only the totals leave the database,
+-- not the responses stored in llm_calls.
+CREATE OR REPLACE FUNCTION get_trace_cost_summary(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (dimension TEXT, key TEXT, label TEXT, calls BIGINT, tokens BIGINT, cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'lesson', traces.lesson_id::TEXT, MAX(lessons.title),
+    SUM(jsonb_array_length(traces.llm_calls))::BIGINT, SUM(traces.total_tokens)::BIGINT, SUM(traces.total_cost_usd)
+  FROM lesson_traces traces
+  LEFT JOIN lessons ON lessons.id = traces.lesson_id
+  WHERE traces.created_at >= p_since
+  GROUP BY traces.lesson_id
+  UNION ALL
+  SELECT 'day', to_char(traces.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD'), NULL,
+    SUM(jsonb_array_length(traces.llm_calls))::BIGINT, SUM(traces.total_tokens)::BIGINT, SUM(traces.total_cost_usd)
+  FROM lesson_traces traces
+  WHERE traces.created_at >= p_since
+  GROUP BY 2
+  UNION ALL
+  SELECT 'provider', calls.call->>'provider', NULL, COUNT(*)::BIGINT,
+    COALESCE(SUM((calls.call->'response'->'usage'->>'total_tokens')::BIGINT), 0)::BIGINT,
+    COALESCE(SUM((calls.call->>'cost_usd')::NUMERIC), 0)
+  FROM lesson_traces traces
+  CROSS JOIN LATERAL jsonb_array_elements(traces.llm_calls) AS calls(call)
+  WHERE traces.created_at >= p_since
+  GROUP BY 2;
+$$;
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN lesson_traces.total_tokens IS
+'Tokens reported by the providers across all LLM calls of the trace';
+
+COMMENT ON COLUMN lesson_traces.total_cost_usd IS
+'Cost in USD of all LLM calls of the trace, from the model price table; calls to models without a price count as 0';
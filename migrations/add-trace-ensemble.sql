@@ -0,0 +1,11 @@
+-- Migration: Add Trace Ensemble
+-- Description: Stores the candidates and judge scores of lessons written by an ensemble of
+-- providers, so a trace shows why one candidate was kept. The candidates' own LLM calls
+-- stay in llm_calls; traces of lessons written by a single provider leave it NULL.
+
+ALTER TABLE lesson_traces
+ADD COLUMN IF NOT EXISTS ensemble JSONB;
+
+-- Add comments explaining the column
+COMMENT ON COLUMN lesson_traces.ensemble IS
+'Ensemble candidates (provider, model, title, error, rubric scores and rationale), the judge provider and the label of the kept candidate';
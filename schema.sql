@@ -4,8 +4,18 @@ CREATE TABLE IF NOT EXISTS lessons (
   title TEXT NOT NULL,
   outline TEXT NOT NULL,
   content TEXT,
-  status TEXT NOT NULL DEFAULT 'generating' CHECK (status IN ('generating', 'generated', 'error')),
+  status TEXT NOT NULL DEFAULT 'generating' CHECK (status IN ('generating', 'generated', 'error', 'cancelled')),
   generated_images JSONB DEFAULT '[]'::jsonb,
+  generation_options JSONB,
+  generation_hash TEXT,
+  cloned_from UUID REFERENCES lessons(id) ON DELETE SET NULL,
+  translation_of UUID REFERENCES lessons(id) ON DELETE SET NULL,
+  provider_used TEXT,
+  model_used TEXT,
+  error_code TEXT,
+  error_message TEXT,
+  batch_id UUID,
+  batch_position INTEGER,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -16,6 +26,15 @@ CREATE INDEX IF NOT EXISTS idx_lessons_created_at ON lessons(created_at DESC);
 -- Create an index on status for filtering
 CREATE INDEX IF NOT EXISTS idx_lessons_status ON lessons(status);
 
+-- Create indexes on the generation options used to filter lessons
+CREATE INDEX IF NOT EXISTS idx_lessons_grade_level ON lessons ((generation_options->>'gradeLevel'));
+CREATE INDEX IF NOT EXISTS idx_lessons_learning_style ON lessons ((generation_options->>'learningStyle'));
+
+-- Create an index for finding an earlier lesson generated from the same request
+CREATE INDEX IF NOT EXISTS idx_lessons_generation_hash ON lessons(generation_hash) WHERE status = 'generated';
+CREATE INDEX IF NOT EXISTS idx_lessons_translation_of ON lessons(translation_of);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lessons_translation_language ON lessons(translation_of, COALESCE(generation_options->>'language', 'en')) WHERE translation_of IS NOT NULL;
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE lessons ENABLE ROW LEVEL SECURITY;
 
@@ -32,9 +51,12 @@ CREATE TABLE IF NOT EXISTS lesson_traces (
   provider_used TEXT,
   fallback_providers TEXT[],
   total_duration_ms INTEGER,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  total_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
   llm_calls JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ensemble JSONB,
   error_message TEXT,
-  status TEXT NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'completed', 'failed')),
+  status TEXT NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'completed', 'failed', 'cancelled')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   completed_at TIMESTAMP WITH TIME ZONE
 );
@@ -44,6 +66,37 @@ CREATE INDEX IF NOT EXISTS idx_lesson_traces_lesson_id ON lesson_traces(lesson_i
 CREATE INDEX IF NOT EXISTS idx_lesson_traces_created_at ON lesson_traces(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_lesson_traces_status ON lesson_traces(status);
 CREATE INDEX IF NOT EXISTS idx_lesson_traces_provider ON lesson_traces(provider_used);
+CREATE INDEX IF NOT EXISTS idx_lesson_traces_created_at_cost ON lesson_traces(created_at, total_cost_usd);
+
+-- Token, cost and call totals of the traces created since p_since, per lesson and per UTC day
+-- from the trace totals, and per provider from the calls. Only the totals leave the database,
+-- not the responses stored in llm_calls.
+CREATE OR REPLACE FUNCTION get_trace_cost_summary(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (dimension TEXT, key TEXT, label TEXT, calls BIGINT, tokens BIGINT, cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'lesson', traces.lesson_id::TEXT, MAX(lessons.title),
+    SUM(jsonb_array_length(traces.llm_calls))::BIGINT, SUM(traces.total_tokens)::BIGINT, SUM(traces.total_cost_usd)
+  FROM lesson_traces traces
+  LEFT JOIN lessons ON lessons.id = traces.lesson_id
+  WHERE traces.created_at >= p_since
+  GROUP BY traces.lesson_id
+  UNION ALL
+  SELECT 'day', to_char(traces.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD'), NULL,
+    SUM(jsonb_array_length(traces.llm_calls))::BIGINT, SUM(traces.total_tokens)::BIGINT, SUM(traces.total_cost_usd)
+  FROM lesson_traces traces
+  WHERE traces.created_at >= p_since
+  GROUP BY 2
+  UNION ALL
+  SELECT 'provider', calls.call->>'provider', NULL, COUNT(*)::BIGINT,
+    COALESCE(SUM((calls.call->'response'->'usage'->>'total_tokens')::BIGINT), 0)::BIGINT,
+    COALESCE(SUM((calls.call->>'cost_usd')::NUMERIC), 0)
+  FROM lesson_traces traces
+  CROSS JOIN LATERAL jsonb_array_elements(traces.llm_calls) AS calls(call)
+  WHERE traces.created_at >= p_since
+  GROUP BY 2;
+$$;
 
 -- Enable RLS for lesson_traces
 ALTER TABLE lesson_traces ENABLE ROW LEVEL SECURITY;
@@ -63,7 +116,7 @@ CREATE TABLE IF NOT EXISTS image_traces (
   total_duration_ms INTEGER,
   image_generation_attempts JSONB NOT NULL DEFAULT '[]'::jsonb,
   error_message TEXT,
-  status TEXT NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'completed', 'failed')),
+  status TEXT NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'completed', 'failed', 'cancelled')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   completed_at TIMESTAMP WITH TIME ZONE
 );
@@ -80,3 +133,163 @@ ALTER TABLE image_traces ENABLE ROW LEVEL SECURITY;
 -- Create policy for image_traces
 CREATE POLICY "Allow all operations on image_traces" ON image_traces
   FOR ALL USING (true);
+
+-- Create lesson_jobs table for the lesson generation worker
+CREATE TABLE IF NOT EXISTS lesson_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID REFERENCES lessons(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  stage TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for lesson_jobs
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_lesson_id ON lesson_jobs(lesson_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_status_run_at ON lesson_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_lesson_jobs_locked_at ON lesson_jobs(locked_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_jobs_active_lesson ON lesson_jobs(lesson_id)
+  WHERE status IN ('queued', 'running');
+
+-- Enable RLS for lesson_jobs
+ALTER TABLE lesson_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_jobs
+CREATE POLICY "Allow all operations on lesson_jobs" ON lesson_jobs
+  FOR ALL USING (true);
+
+-- Create lesson_versions table for lesson history and rollback
+CREATE TABLE IF NOT EXISTS lesson_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('llm', 'edit', 'regenerate', 'restore', 'clone', 'translate')),
+  author TEXT,
+  title TEXT,
+  content TEXT,
+  lesson_structure JSONB,
+  typescript_code TEXT,
+  javascript_code TEXT,
+  generated_images JSONB DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (lesson_id, version_number)
+);
+
+-- Create indexes for lesson_versions
+CREATE INDEX IF NOT EXISTS idx_lesson_versions_lesson_id ON lesson_versions(lesson_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_lesson_versions_created_at ON lesson_versions(created_at DESC);
+
+-- Enable RLS for lesson_versions
+ALTER TABLE lesson_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_versions
+CREATE POLICY "Allow all operations on lesson_versions" ON lesson_versions
+  FOR ALL USING (true);
+
+-- Create lesson_batches table for units generated as a group
+CREATE TABLE IF NOT EXISTS lesson_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  unit_outline TEXT NOT NULL,
+  generation_options JSONB NOT NULL,
+  concurrency INTEGER NOT NULL DEFAULT 2 CHECK (concurrency > 0),
+  lesson_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE lessons
+ADD CONSTRAINT lessons_batch_id_fkey FOREIGN KEY (batch_id) REFERENCES lesson_batches(id) ON DELETE SET NULL;
+
+-- Create indexes for lesson_batches
+CREATE INDEX IF NOT EXISTS idx_lesson_batches_created_at ON lesson_batches(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lessons_batch_id ON lessons(batch_id, batch_position);
+
+-- Enable RLS for lesson_batches
+ALTER TABLE lesson_batches ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for lesson_batches
+CREATE POLICY "Allow all operations on lesson_batches" ON lesson_batches
+  FOR ALL USING (true);
+
+-- Create courses table
+CREATE TABLE IF NOT EXISTS courses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create course_lessons join table for the ordered lessons of a course
+CREATE TABLE IF NOT EXISTS course_lessons (
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (course_id, lesson_id)
+);
+
+-- Create indexes for courses and course_lessons
+CREATE INDEX IF NOT EXISTS idx_courses_created_at ON courses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_position ON course_lessons(course_id, position);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_lesson_id ON course_lessons(lesson_id);
+
+-- Enable RLS for courses and course_lessons
+ALTER TABLE courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_lessons ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for courses and course_lessons
+CREATE POLICY "Allow all operations on courses" ON courses
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on course_lessons" ON course_lessons
+  FOR ALL USING (true);
+
+-- Create rate_limits table for request counters shared by all server instances (RATE_LIMIT_STORE=postgres)
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  window_seconds INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_start ON rate_limits(window_start);
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on rate_limits" ON rate_limits
+  FOR ALL USING (true);
+
+-- Add p_cost to the key's current window, starting a new window if it has ended
+CREATE OR REPLACE FUNCTION increment_rate_limit(p_key TEXT, p_window_seconds INTEGER, p_cost INTEGER DEFAULT 1)
+RETURNS TABLE (count INTEGER, reset_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM rate_limits
+  WHERE rate_limits.window_start + make_interval(secs => rate_limits.window_seconds) < NOW() - INTERVAL '1 day';
+
+  RETURN QUERY
+  INSERT INTO rate_limits AS limits (key, window_start, window_seconds, count)
+  VALUES (p_key, NOW(), p_window_seconds, p_cost)
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE
+      WHEN limits.window_start + make_interval(secs => limits.window_seconds) <= NOW() THEN p_cost
+      ELSE limits.count + p_cost
+    END,
+    window_start = CASE
+      WHEN limits.window_start + make_interval(secs => limits.window_seconds) <= NOW() THEN NOW()
+      ELSE limits.window_start
+    END,
+    window_seconds = p_window_seconds
+  RETURNING limits.count, limits.window_start + make_interval(secs => limits.window_seconds);
+END;
+$$;